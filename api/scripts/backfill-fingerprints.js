@@ -0,0 +1,71 @@
+// api/scripts/backfill-fingerprints.js
+// Creates the ReceiptFingerprints entries for receipts saved before the
+// fingerprint store existed, so their images stay blocked as duplicates.
+//
+//   node scripts/backfill-fingerprints.js            # dry-run
+//   node scripts/backfill-fingerprints.js --apply
+//   node scripts/backfill-fingerprints.js --backend=memory
+//
+// Safe to run several times: receipts already fingerprinted are skipped.
+
+const { getRepository, getConfiguredBackendName } = require("../src/data/repository");
+
+function readOption(args, name) {
+  const prefix = `--${name}=`;
+  const found = args.find((a) => a.startsWith(prefix));
+  return found ? found.slice(prefix.length) : null;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = !args.includes("--apply");
+  const backend = readOption(args, "backend") || getConfiguredBackendName();
+  const repository = getRepository(backend);
+
+  console.log(
+    `Backfilling receipt fingerprints on "${backend}"${dryRun ? " (dry-run, pass --apply to write)" : ""}`
+  );
+
+  const summary = { scanned: 0, created: 0, skipped: 0 };
+  let continuationToken = null;
+
+  do {
+    const page = await repository.listDocuments("receipts", { continuationToken });
+    continuationToken = page.continuationToken;
+
+    for (const receipt of page.documents) {
+      summary.scanned += 1;
+      if (!receipt.imageHash) {
+        continue;
+      }
+
+      if (dryRun) {
+        summary.created += 1;
+        continue;
+      }
+
+      try {
+        const claim = await repository.claimReceiptFingerprint(
+          receipt.imageHash,
+          receipt.userId
+        );
+        await repository.completeReceiptFingerprint(claim, receipt.id);
+        summary.created += 1;
+      } catch (err) {
+        if (err.code !== "DUPLICATE_RECEIPT") {
+          throw err;
+        }
+        summary.skipped += 1;
+      }
+    }
+  } while (continuationToken);
+
+  console.log(
+    `${summary.scanned} receipts scanned, ${summary.created} fingerprints ${dryRun ? "to create" : "created"}, ${summary.skipped} already present`
+  );
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,50 @@
+// api/scripts/check-repositories.js
+// Runs the repository conformance suite against storage backends.
+//
+//   node scripts/check-repositories.js            # every usable backend
+//   node scripts/check-repositories.js memory     # only the listed ones
+//
+// The Cosmos backend is skipped unless COSMOS_DB_CONNECTION_STRING is set.
+// It writes throw-away "conformance-*" users into the configured database.
+
+// Never write conformance users into the local persisted fake store
+delete process.env.FAKE_DB_FILE;
+
+const { listBackends, getRepository } = require("../src/data/repository");
+const { isCosmosConfigured } = require("../src/data/cosmos-client");
+const { runConformanceSuite } = require("../src/data/repository-conformance");
+
+async function main() {
+  const requested = process.argv.slice(2);
+  const backends = requested.length ? requested : listBackends();
+  let failed = false;
+
+  for (const name of backends) {
+    if (name === "cosmos" && !isCosmosConfigured()) {
+      console.log(`- ${name}: skipped (COSMOS_DB_CONNECTION_STRING not set)`);
+      continue;
+    }
+
+    console.log(`- ${name}`);
+    const repository = getRepository(name);
+
+    // Let the fake interleave concurrent writes like a real database would
+    if (typeof repository.setSimulatedLatency === "function") {
+      repository.setSimulatedLatency(5);
+    }
+
+    const summary = await runConformanceSuite(repository);
+    console.log(`  ${summary.passed}/${summary.total} passed`);
+
+    if (summary.failures.length) {
+      failed = true;
+    }
+  }
+
+  process.exitCode = failed ? 1 : 0;
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,137 @@
+// api/scripts/docint-corpus.js
+// Document Intelligence regression corpus (see src/services/docint-recordings.js).
+//
+//   node scripts/docint-corpus.js record <image>... [--force]   # calls Azure
+//   node scripts/docint-corpus.js replay [--update]             # offline
+//
+// record: analyzes the images with prebuilt-receipt and saves one recording
+// per image; images already recorded are skipped unless --force.
+// replay: runs every recording through the current extraction code and prints
+// the fields that differ from `expected` (exit code 1 if any). --update
+// accepts the current output as the new `expected`.
+
+const fs = require("fs");
+const path = require("path");
+const {
+  isDocumentIntelligenceConfigured,
+  analyzeRawReceipt,
+  extractReceiptInfo,
+} = require("../src/services/document-intelligence");
+const {
+  getRecordingsDir,
+  toExpected,
+  diffExpected,
+  readRecording,
+  writeRecording,
+  saveRecording,
+  listRecordingFiles,
+} = require("../src/services/docint-recordings");
+
+function usage() {
+  console.log(
+    "Usage: node scripts/docint-corpus.js <record <image>... [--force]|replay [--update]>"
+  );
+}
+
+function formatValue(value) {
+  return value === undefined ? "(missing)" : JSON.stringify(value);
+}
+
+async function record(images, { force }) {
+  if (!isDocumentIntelligenceConfigured()) {
+    console.error("DOCINT_ENDPOINT / DOCINT_KEY are not set – cannot record.");
+    process.exitCode = 1;
+    return;
+  }
+  if (!images.length) {
+    usage();
+    process.exitCode = 1;
+    return;
+  }
+
+  for (const image of images) {
+    const buffer = fs.readFileSync(image);
+    const result = await analyzeRawReceipt(buffer);
+    const extracted = extractReceiptInfo(result);
+    const { filePath, created } = saveRecording({
+      buffer,
+      fileName: path.basename(image),
+      result,
+      extracted,
+      force,
+    });
+
+    console.log(
+      `${created ? "recorded" : "skipped (already recorded)"}  ${image} -> ${path.basename(filePath)}`
+    );
+  }
+  console.log("Check the `expected` fields of new recordings and fix any wrong value.");
+}
+
+function replay({ update }) {
+  const files = listRecordingFiles();
+  if (!files.length) {
+    console.log(`No recordings in ${getRecordingsDir()}`);
+    return;
+  }
+
+  const summary = { passed: 0, failed: 0, updated: 0 };
+
+  for (const filePath of files) {
+    const recording = readRecording(filePath);
+    const label = `${path.basename(filePath)}${recording.fileName ? ` (${recording.fileName})` : ""}`;
+    const info = extractReceiptInfo(recording.result, new Date(recording.recordedAt));
+    const diffs = diffExpected(recording.expected, info);
+
+    if (!diffs.length) {
+      summary.passed += 1;
+      continue;
+    }
+
+    if (update) {
+      writeRecording(filePath, { ...recording, expected: toExpected(info) });
+      summary.updated += 1;
+      console.log(`updated  ${label}`);
+      continue;
+    }
+
+    summary.failed += 1;
+    console.log(`FAIL  ${label}`);
+    for (const diff of diffs) {
+      console.log(
+        `      ${diff.field}: expected ${formatValue(diff.expected)}, got ${formatValue(diff.actual)}`
+      );
+    }
+  }
+
+  console.log(
+    `${files.length} recordings: ${summary.passed} passed, ${summary.failed} failed` +
+      (update ? `, ${summary.updated} updated` : "")
+  );
+  if (summary.failed) {
+    process.exitCode = 1;
+  }
+}
+
+async function main() {
+  const [command, ...rest] = process.argv.slice(2);
+  const flags = rest.filter((a) => a.startsWith("--"));
+  const args = rest.filter((a) => !a.startsWith("--"));
+
+  switch (command) {
+    case "record":
+      await record(args, { force: flags.includes("--force") });
+      break;
+    case "replay":
+      replay({ update: flags.includes("--update") });
+      break;
+    default:
+      usage();
+      process.exitCode = 1;
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
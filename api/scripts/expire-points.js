@@ -0,0 +1,35 @@
+// api/scripts/expire-points.js
+// Runs the points expiry job once, outside the Functions host.
+//
+//   node scripts/expire-points.js                  # uses DATA_BACKEND
+//   node scripts/expire-points.js --backend=memory
+//   node scripts/expire-points.js --now=2026-01-01T00:00:00Z
+
+const { getRepository, getConfiguredBackendName } = require("../src/data/repository");
+const { runPointsExpiry } = require("../src/data/points-expiry");
+
+function readOption(args, name) {
+  const prefix = `--${name}=`;
+  const found = args.find((a) => a.startsWith(prefix));
+  return found ? found.slice(prefix.length) : null;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const backend = readOption(args, "backend") || getConfiguredBackendName();
+  const now = readOption(args, "now") || new Date().toISOString();
+
+  console.log(`Expiring points on "${backend}" backend as of ${now}`);
+
+  const summary = await runPointsExpiry(getRepository(backend), { now });
+  console.log(
+    `${summary.users} users checked, ${summary.expiredPoints} points expired for ${summary.expiredUsers} users, ${summary.errors} errors`
+  );
+
+  process.exitCode = summary.errors ? 1 : 0;
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
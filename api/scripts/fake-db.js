@@ -0,0 +1,66 @@
+// api/scripts/fake-db.js
+// Maintenance commands for the file-backed fake store (FAKE_DB_FILE).
+//
+//   node scripts/fake-db.js reset
+//   node scripts/fake-db.js snapshot [target.json]
+//   node scripts/fake-db.js restore <snapshot.json>
+//
+// Stop `func start` first: the running host keeps its own copy in memory and
+// would overwrite the file on its next write.
+
+const path = require("path");
+const { getStoreFilePath } = require("../src/data/fake-db-file");
+
+function usage() {
+  console.log("Usage: node scripts/fake-db.js <reset|snapshot [file]|restore <file>>");
+}
+
+async function main() {
+  const [command, fileArg] = process.argv.slice(2);
+  const storeFile = getStoreFilePath();
+
+  if (!storeFile) {
+    console.error("FAKE_DB_FILE is not set – nothing to manage (the fake store is in-memory).");
+    process.exitCode = 1;
+    return;
+  }
+
+  const fake = require("../src/data/fake-db");
+
+  switch (command) {
+    case "reset": {
+      await fake.resetStore();
+      console.log(`Fake store reset: ${storeFile}`);
+      break;
+    }
+    case "snapshot": {
+      const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+      const target = path.resolve(
+        fileArg || storeFile.replace(/\.json$/i, "") + `.snapshot-${stamp}.json`
+      );
+      const state = await fake.snapshotStore(target);
+      console.log(
+        `Snapshot written to ${target} (${state.users.length} users, ${state.receipts.length} receipts, ${state.rewards.length} rewards)`
+      );
+      break;
+    }
+    case "restore": {
+      if (!fileArg) {
+        usage();
+        process.exitCode = 1;
+        return;
+      }
+      await fake.restoreStore(path.resolve(fileArg));
+      console.log(`Fake store restored from ${fileArg} into ${storeFile}`);
+      break;
+    }
+    default:
+      usage();
+      process.exitCode = 1;
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,45 @@
+// api/scripts/migrate.js
+// Upgrades stored documents to the current schemaVersion.
+//
+//   node scripts/migrate.js                       # dry-run on every container
+//   node scripts/migrate.js --apply               # really rewrite documents
+//   node scripts/migrate.js --container=rewards   # only one container
+//   node scripts/migrate.js --backend=memory      # override DATA_BACKEND
+
+const { getRepository, getConfiguredBackendName } = require("../src/data/repository");
+const { runMigrations } = require("../src/data/migrations");
+
+function readOption(args, name) {
+  const prefix = `--${name}=`;
+  const found = args.find((a) => a.startsWith(prefix));
+  return found ? found.slice(prefix.length) : null;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = !args.includes("--apply");
+  const backend = readOption(args, "backend") || getConfiguredBackendName();
+  const container = readOption(args, "container");
+
+  console.log(`Migrating "${backend}" backend${dryRun ? " (dry-run, pass --apply to write)" : ""}`);
+
+  const summaries = await runMigrations(getRepository(backend), {
+    dryRun,
+    containers: container ? [container] : undefined,
+  });
+
+  let failed = 0;
+  for (const s of summaries) {
+    failed += s.failed;
+    console.log(
+      `${s.container}: ${s.scanned} scanned, ${s.upgraded} ${dryRun ? "to upgrade" : "upgraded"}, ${s.upToDate} up to date, ${s.failed} failed`
+    );
+  }
+
+  process.exitCode = failed ? 1 : 0;
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exitCode = 1;
+});
@@ -2,6 +2,8 @@
 // Safe helper to read the logged-in user from the x-ms-client-principal header.
 // - In production (Static Web Apps): we expect a real client principal from CIAM
 // - In local dev (localhost): we fall back to DEV_USER_ID or "demo-user-1"
+// Roles (userRoles) are assigned to staff accounts in the Static Web App role
+// management; in local dev DEV_USER_ROLES lists them ("reviewer,operations").
 
 function getHeader(headers, name) {
   if (!headers) return null;
@@ -74,7 +76,43 @@ function getUserId(request) {
   return null;
 }
 
+function getUserRoles(request) {
+  const principal = getClientPrincipalFromRequest(request);
+
+  if (principal && principal.userId) {
+    return Array.isArray(principal.userRoles) ? principal.userRoles : [];
+  }
+
+  if (isLocalRequest(request)) {
+    return (process.env.DEV_USER_ROLES || "")
+      .split(",")
+      .map((role) => role.trim())
+      .filter(Boolean);
+  }
+
+  return [];
+}
+
+function hasRole(request, role) {
+  return getUserRoles(request).includes(role);
+}
+
+// Role allowed to approve / reject receipts in the review queue.
+function isReceiptReviewer(request) {
+  return hasRole(request, process.env.RECEIPT_REVIEWER_ROLE || "reviewer");
+}
+
+// Role allowed to run the scheduled jobs by hand and to read program
+// statistics (per-store receipt counts).
+function isOperationsStaff(request) {
+  return hasRole(request, process.env.OPERATIONS_ROLE || "operations");
+}
+
 module.exports = {
   getClientPrincipalFromRequest,
   getUserId,
+  getUserRoles,
+  hasRole,
+  isReceiptReviewer,
+  isOperationsStaff,
 };
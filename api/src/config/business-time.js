@@ -0,0 +1,152 @@
+// api/src/config/business-time.js
+// Calendar of the business: the Functions host runs in UTC, but a "day" (daily
+// receipt limit, receipt age, date printed on a ticket) is a day in Morocco.
+//
+//   BUSINESS_TIMEZONE   IANA zone (default Africa/Casablanca, whose offset
+//                       changes around Ramadan: the tz database of the Node
+//                       runtime knows these dates)
+//
+// Days are "YYYY-MM-DD" strings in that zone; instants stay Date / ISO UTC.
+
+const DEFAULT_TIMEZONE = "Africa/Casablanca";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map();
+
+function isValidTimeZone(timeZone) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function getBusinessTimeZone() {
+  const configured = process.env.BUSINESS_TIMEZONE;
+  return configured && isValidTimeZone(configured) ? configured : DEFAULT_TIMEZONE;
+}
+
+function getFormatter(timeZone) {
+  if (!formatters.has(timeZone)) {
+    formatters.set(
+      timeZone,
+      new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        second: "2-digit",
+      })
+    );
+  }
+  return formatters.get(timeZone);
+}
+
+function isValidDate(date) {
+  return date instanceof Date && !Number.isNaN(date.getTime());
+}
+
+// Wall clock of an instant in the business zone -> { year, month, day, hour, minute, second }
+function businessParts(date) {
+  const parts = {};
+  for (const part of getFormatter(getBusinessTimeZone()).formatToParts(date)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  return parts;
+}
+
+// Business zone offset (ms ahead of UTC) at that instant
+function offsetAt(date) {
+  const p = businessParts(date);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+function formatDay(year, month, day) {
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+function parseDay(day) {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(day || "");
+  if (!match) return null;
+  const [year, month, dayOfMonth] = match.slice(1).map(Number);
+  // rejects 31/02 and the like
+  const check = new Date(Date.UTC(year, month - 1, dayOfMonth));
+  if (check.getUTCMonth() !== month - 1 || check.getUTCDate() !== dayOfMonth) return null;
+  return { year, month, day: dayOfMonth };
+}
+
+// "HH:MM" / "12h31" / "12:31:05" -> { hour, minute } | null
+function parseTimeOfDay(text) {
+  const match = /\b([01]?\d|2[0-3])\s*[:hH]\s*([0-5]\d)\b/.exec(text || "");
+  return match ? { hour: Number(match[1]), minute: Number(match[2]) } : null;
+}
+
+// Day of an instant in the business zone: "YYYY-MM-DD" | null
+function businessDay(date) {
+  if (!isValidDate(date)) return null;
+  const p = businessParts(date);
+  return formatDay(p.year, p.month, p.day);
+}
+
+// Instant of a business-zone wall clock time (midnight without time), or null
+// for an impossible day.
+function businessDateTime(day, time = null) {
+  const parsed = parseDay(day);
+  if (!parsed) return null;
+  const clock = typeof time === "string" ? parseTimeOfDay(time) : time;
+
+  const wallClock = Date.UTC(
+    parsed.year,
+    parsed.month - 1,
+    parsed.day,
+    clock ? clock.hour : 0,
+    clock ? clock.minute : 0
+  );
+  // The offset at the guessed instant is right except right after a change:
+  // a second pass settles it
+  let instant = wallClock - offsetAt(new Date(wallClock));
+  instant = wallClock - offsetAt(new Date(instant));
+  return new Date(instant);
+}
+
+function addDays(day, days) {
+  const parsed = parseDay(day);
+  if (!parsed) return null;
+  const d = new Date(Date.UTC(parsed.year, parsed.month - 1, parsed.day + days));
+  return formatDay(d.getUTCFullYear(), d.getUTCMonth() + 1, d.getUTCDate());
+}
+
+// Business day of `date` as instants: { start, end } (end excluded)
+function businessDayRange(date) {
+  const day = businessDay(date);
+  return {
+    start: businessDateTime(day),
+    end: businessDateTime(addDays(day, 1)),
+  };
+}
+
+// Whole business days from `from` to `to` (1 = `to` is the next day), or null
+function businessDaysBetween(from, to) {
+  const a = parseDay(businessDay(from));
+  const b = parseDay(businessDay(to));
+  if (!a || !b) return null;
+  return Math.round(
+    (Date.UTC(b.year, b.month - 1, b.day) - Date.UTC(a.year, a.month - 1, a.day)) / DAY_MS
+  );
+}
+
+module.exports = {
+  DEFAULT_TIMEZONE,
+  getBusinessTimeZone,
+  parseTimeOfDay,
+  businessDay,
+  businessDateTime,
+  businessDayRange,
+  businessDaysBetween,
+  addDays,
+};
@@ -0,0 +1,68 @@
+// api/src/config/client-settings.js
+// Retry / timeout settings for the Azure SDK clients, read once from app settings.
+// Every client is created once per process (see cosmos-client.js,
+// azure-blob-storage.js, document-intelligence.js) and reuses these options.
+//
+//   COSMOS_MAX_RETRIES              429 retries before giving up (default 9)
+//   COSMOS_MAX_RETRY_WAIT_SECONDS   total time spent waiting on 429s (default 30)
+//   COSMOS_REQUEST_TIMEOUT_MS       per request (default 10000)
+//   BLOB_MAX_TRIES                  attempts, first one included (default 4)
+//   BLOB_TRY_TIMEOUT_MS             per attempt (default 30000)
+//   BLOB_RETRY_DELAY_MS             first backoff delay (default 500)
+//   BLOB_MAX_RETRY_DELAY_MS         backoff cap (default 8000)
+//   DOCINT_MAX_RETRIES              retries on 429 / 5xx / network errors (default 3)
+//   DOCINT_RETRY_DELAY_MS           first backoff delay (default 1000)
+//   DOCINT_MAX_RETRY_DELAY_MS       backoff cap (default 8000)
+//   DOCINT_TIMEOUT_MS               whole analysis, polling included (default 30000)
+
+function numberSetting(name, fallback) {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") return fallback;
+  const n = Number(raw);
+  return Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+function getCosmosClientOptions(connectionString) {
+  return {
+    connectionString,
+    connectionPolicy: {
+      requestTimeout: numberSetting("COSMOS_REQUEST_TIMEOUT_MS", 10000),
+      retryOptions: {
+        maxRetryAttemptCount: numberSetting("COSMOS_MAX_RETRIES", 9),
+        maxWaitTimeInSeconds: numberSetting("COSMOS_MAX_RETRY_WAIT_SECONDS", 30),
+      },
+    },
+  };
+}
+
+function getBlobClientOptions() {
+  return {
+    retryOptions: {
+      maxTries: numberSetting("BLOB_MAX_TRIES", 4),
+      tryTimeoutInMs: numberSetting("BLOB_TRY_TIMEOUT_MS", 30000),
+      retryDelayInMs: numberSetting("BLOB_RETRY_DELAY_MS", 500),
+      maxRetryDelayInMs: numberSetting("BLOB_MAX_RETRY_DELAY_MS", 8000),
+    },
+  };
+}
+
+function getDocumentIntelligenceClientOptions() {
+  return {
+    retryOptions: {
+      maxRetries: numberSetting("DOCINT_MAX_RETRIES", 3),
+      retryDelayInMs: numberSetting("DOCINT_RETRY_DELAY_MS", 1000),
+      maxRetryDelayInMs: numberSetting("DOCINT_MAX_RETRY_DELAY_MS", 8000),
+    },
+  };
+}
+
+function getDocumentIntelligenceTimeoutMs() {
+  return numberSetting("DOCINT_TIMEOUT_MS", 30000);
+}
+
+module.exports = {
+  getCosmosClientOptions,
+  getBlobClientOptions,
+  getDocumentIntelligenceClientOptions,
+  getDocumentIntelligenceTimeoutMs,
+};
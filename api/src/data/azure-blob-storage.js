@@ -0,0 +1,183 @@
+// api/src/data/azure-blob-storage.js
+// Azure Blob Storage backend for receipt images (see blob-storage.js).
+// Also works against Azurite: RECEIPTS_STORAGE_CONNECTION_STRING=UseDevelopmentStorage=true
+//
+// The container is private (no anonymous access): the browser only gets
+// short-lived SAS URLs, write-only to upload and read-only to view.
+// Direct uploads from the browser need a CORS rule on the storage account
+// allowing PUT from the app origins (headers: x-ms-blob-type, content-type).
+const {
+  BlobServiceClient,
+  BlobSASPermissions,
+} = require("@azure/storage-blob");
+const { getBlobClientOptions } = require("../config/client-settings");
+
+const connStr = process.env.RECEIPTS_STORAGE_CONNECTION_STRING;
+const containerName = process.env.RECEIPTS_STORAGE_CONTAINER || "receipts";
+
+if (!connStr) {
+  console.warn(
+    "⚠️ RECEIPTS_STORAGE_CONNECTION_STRING is not set – Blob upload will fail."
+  );
+}
+
+// uploadStream: block size and blocks uploaded in parallel
+const STREAM_BLOCK_BYTES = 4 * 1024 * 1024;
+const STREAM_CONCURRENCY = 2;
+
+// Created once per process and reused by every invocation
+let containerClient = null;
+let containerReady = null;
+
+function isBlobStorageConfigured() {
+  return !!connStr;
+}
+
+function getContainerClient() {
+  if (!connStr) {
+    throw new Error("No RECEIPTS_STORAGE_CONNECTION_STRING configured.");
+  }
+  if (!containerClient) {
+    const blobServiceClient = BlobServiceClient.fromConnectionString(
+      connStr,
+      getBlobClientOptions()
+    );
+    containerClient = blobServiceClient.getContainerClient(containerName);
+  }
+  return containerClient;
+}
+
+// createIfNotExists is a round-trip: only do it on the first upload.
+// Created without public access.
+async function ensureContainer() {
+  const client = getContainerClient();
+  if (!containerReady) {
+    containerReady = client.createIfNotExists().catch((err) => {
+      containerReady = null;
+      throw err;
+    });
+  }
+  await containerReady;
+  return client;
+}
+
+async function uploadBlob(blobName, contentType, buffer) {
+  const container = await ensureContainer();
+  const blockBlobClient = container.getBlockBlobClient(blobName);
+
+  await blockBlobClient.uploadData(buffer, {
+    blobHTTPHeaders: {
+      blobContentType: contentType,
+    },
+  });
+
+  return blockBlobClient.url;
+}
+
+// Uploads the stream block by block (large blobs, e.g. data exports): only a
+// few blocks are held in memory at a time.
+async function uploadStream(blobName, contentType, stream) {
+  const container = await ensureContainer();
+  const blockBlobClient = container.getBlockBlobClient(blobName);
+
+  await blockBlobClient.uploadStream(stream, STREAM_BLOCK_BYTES, STREAM_CONCURRENCY, {
+    blobHTTPHeaders: {
+      blobContentType: contentType,
+    },
+  });
+
+  return blockBlobClient.url;
+}
+
+// Write-only SAS for one blob: the browser can create it, not read or list.
+async function createUploadUrl(blobName, contentType, expiresOn) {
+  const container = await ensureContainer();
+  const blockBlobClient = container.getBlockBlobClient(blobName);
+
+  return blockBlobClient.generateSasUrl({
+    permissions: BlobSASPermissions.parse("cw"),
+    startsOn: new Date(Date.now() - 5 * 60 * 1000), // clock skew
+    expiresOn,
+    contentType,
+  });
+}
+
+// Read-only SAS for one blob, to show the image in the apps.
+// downloadName: served as an attachment under that name (data exports).
+async function createReadUrl(blobName, expiresOn, { downloadName = null } = {}) {
+  const blobClient = getContainerClient().getBlobClient(blobName);
+
+  return blobClient.generateSasUrl({
+    permissions: BlobSASPermissions.parse("r"),
+    startsOn: new Date(Date.now() - 5 * 60 * 1000), // clock skew
+    expiresOn,
+    ...(downloadName ? { contentDisposition: `attachment; filename="${downloadName}"` } : {}),
+  });
+}
+
+// Returns { buffer, contentType, size } or null if the blob does not exist.
+// maxBytes: a larger blob is refused (FILE_TOO_LARGE) before it is downloaded.
+async function readBlob(blobName, { maxBytes = null } = {}) {
+  const container = getContainerClient();
+  const blobClient = container.getBlobClient(blobName);
+
+  try {
+    const properties = await blobClient.getProperties();
+    if (maxBytes !== null && properties.contentLength > maxBytes) {
+      const err = new Error(`Blob ${blobName} is ${properties.contentLength} bytes (max ${maxBytes}).`);
+      err.code = "FILE_TOO_LARGE";
+      throw err;
+    }
+    // The version that was measured, even if the blob is overwritten meanwhile
+    const buffer = await blobClient.downloadToBuffer(0, undefined, {
+      conditions: { ifMatch: properties.etag },
+    });
+    return {
+      buffer,
+      contentType: properties.contentType || null,
+      size: buffer.length,
+    };
+  } catch (err) {
+    if (err.statusCode === 404) {
+      return null;
+    }
+    throw err;
+  }
+}
+
+function getBlobUrl(blobName) {
+  return getContainerClient().getBlobClient(blobName).url;
+}
+
+async function deleteBlob(blobName) {
+  await getContainerClient().getBlobClient(blobName).deleteIfExists({
+    deleteSnapshots: "include",
+  });
+}
+
+async function listBlobs(prefix) {
+  const container = getContainerClient();
+  const blobs = [];
+
+  for await (const blob of container.listBlobsFlat({ prefix })) {
+    blobs.push({
+      name: blob.name,
+      size: blob.properties.contentLength || 0,
+      contentType: blob.properties.contentType || null,
+    });
+  }
+
+  return blobs;
+}
+
+module.exports = {
+  isBlobStorageConfigured,
+  uploadBlob,
+  uploadStream,
+  createUploadUrl,
+  createReadUrl,
+  readBlob,
+  getBlobUrl,
+  deleteBlob,
+  listBlobs,
+};
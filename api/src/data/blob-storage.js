@@ -1,53 +1,209 @@
-const { BlobServiceClient } = require("@azure/storage-blob");
+// api/src/data/blob-storage.js
+// Receipt image storage used by the Functions. Picks the backend once:
+//   - RECEIPTS_STORAGE_LOCAL_DIR set        → files on disk (local-blob-storage.js)
+//   - otherwise                             → Azure Blob Storage (azure-blob-storage.js),
+//     which also covers Azurite with UseDevelopmentStorage=true
+//
+// Images are always stored as "<userId>/<timestamp>-<uuid>-<fileName>", so a
+// user's folder is a plain name prefix. Direct uploads land apart, under
+// "uploads/<userId>/…": the browser can write there, and process-receipt only
+// ever reads and deletes blobs from that prefix, never a receipt's image.
+// Personal data exports are written under "exports/<userId>/…" (one per user,
+// the previous one is deleted when a new one is made).
+//
+// The container is private: raw blob URLs are never handed out or stored, the
+// apps get short-lived signed URLs (write-only to upload, read-only to view).
+//
+// Config (app settings):
+//   RECEIPT_UPLOAD_URL_TTL_MINUTES  validity of direct upload URLs (default 10)
+//   RECEIPT_READ_URL_TTL_MINUTES    validity of image read URLs (default 15)
+//   EXPORT_DOWNLOAD_URL_TTL_HOURS   validity of data export download URLs (default 24)
+
 const { randomUUID } = require("crypto");
 
-const connStr = process.env.RECEIPTS_STORAGE_CONNECTION_STRING;
-const containerName = process.env.RECEIPTS_STORAGE_CONTAINER || "receipts";
+const RECEIPT_UPLOAD_URL_TTL_MINUTES =
+  Number(process.env.RECEIPT_UPLOAD_URL_TTL_MINUTES) || 10;
+const RECEIPT_READ_URL_TTL_MINUTES =
+  Number(process.env.RECEIPT_READ_URL_TTL_MINUTES) || 15;
+const EXPORT_DOWNLOAD_URL_TTL_HOURS =
+  Number(process.env.EXPORT_DOWNLOAD_URL_TTL_HOURS) || 24;
+
+let backend = null;
 
-if (!connStr) {
-  console.warn(
-    "⚠️ RECEIPTS_STORAGE_CONNECTION_STRING is not set – Blob upload will fail."
-  );
+function getBackend() {
+  if (!backend) {
+    backend = process.env.RECEIPTS_STORAGE_LOCAL_DIR
+      ? require("./local-blob-storage")
+      : require("./azure-blob-storage");
+  }
+  return backend;
 }
 
-let containerClient = null;
+function isLocalBlobStorage() {
+  return !!process.env.RECEIPTS_STORAGE_LOCAL_DIR;
+}
 
-function getContainerClient() {
-  if (!connStr) {
-    throw new Error("No RECEIPTS_STORAGE_CONNECTION_STRING configured.");
-  }
-  if (!containerClient) {
-    const blobServiceClient = BlobServiceClient.fromConnectionString(connStr);
-    containerClient = blobServiceClient.getContainerClient(containerName);
-  }
-  return containerClient;
+function isBlobStorageConfigured() {
+  return getBackend().isBlobStorageConfigured();
+}
+
+const UPLOADS_PREFIX = "uploads/";
+const EXPORTS_PREFIX = "exports/";
+
+function userPrefix(userId) {
+  return `${userId}/`;
+}
+
+function uploadPrefix(userId) {
+  return `${UPLOADS_PREFIX}${userId}/`;
+}
+
+function exportPrefix(userId) {
+  return `${EXPORTS_PREFIX}${userId}/`;
+}
+
+// Keeps file names readable in the portal but safe in a URL and on disk.
+function sanitizeFileName(fileName) {
+  const base = String(fileName || "")
+    .split(/[\\/]/)
+    .pop()
+    .replace(/[^A-Za-z0-9._-]+/g, "_")
+    .replace(/^[._]+/, "")
+    .slice(0, 100);
+  return base || "receipt.jpg";
+}
+
+function uniqueFileName(fileName) {
+  return `${Date.now()}-${randomUUID()}-${sanitizeFileName(fileName)}`;
+}
+
+function buildReceiptBlobName(userId, fileName) {
+  return `${userPrefix(userId)}${uniqueFileName(fileName)}`;
+}
+
+function buildUploadBlobName(userId, fileName) {
+  return `${uploadPrefix(userId)}${uniqueFileName(fileName)}`;
 }
 
-async function ensureContainer() {
-  const client = getContainerClient();
-  await client.createIfNotExists();
-  return client;
+// The (sanitized) name the file was uploaded with.
+function fileNameFromBlobName(blobName) {
+  const match = /^(?:uploads\/)?[^/]+\/\d+-[0-9a-f-]{36}-(.+)$/i.exec(blobName || "");
+  return match ? match[1] : null;
 }
 
-async function uploadReceiptImage(userId, fileName, contentType, base64Data) {
-  const buffer = Buffer.from(base64Data, "base64");
+// True when blobName points at a file directly inside the user's upload
+// folder (never a stored receipt image).
+function isUserUpload(userId, blobName) {
+  if (!userId || typeof blobName !== "string") return false;
+  const rest = blobName.startsWith(uploadPrefix(userId))
+    ? blobName.slice(uploadPrefix(userId).length)
+    : "";
+  return !!rest && !rest.includes("/") && !rest.includes("\\") && !rest.startsWith(".");
+}
 
-  const container = await ensureContainer();
+// Stores an image sent through the API. Returns { blobName }.
+async function uploadReceiptImage(userId, fileName, contentType, buffer) {
+  const blobName = buildReceiptBlobName(userId, fileName);
+  await getBackend().uploadBlob(blobName, contentType || "image/jpeg", buffer);
+  return { blobName };
+}
 
-  const safeName = fileName || "receipt.jpg";
-  const blobName = `${userId}/${Date.now()}-${randomUUID()}-${safeName}`;
+// Short-lived, write-only URL the app PUTs the image to, then hands the
+// blobName to process-receipt.
+async function createReceiptUploadUrl(userId, fileName, contentType) {
+  const blobName = buildUploadBlobName(userId, fileName);
+  const type = contentType || "image/jpeg";
+  const expiresOn = new Date(Date.now() + RECEIPT_UPLOAD_URL_TTL_MINUTES * 60 * 1000);
 
-  const blockBlobClient = container.getBlockBlobClient(blobName);
+  const uploadUrl = await getBackend().createUploadUrl(blobName, type, expiresOn);
 
-  await blockBlobClient.uploadData(buffer, {
-    blobHTTPHeaders: {
-      blobContentType: contentType || "image/jpeg",
+  return {
+    blobName,
+    uploadUrl,
+    method: "PUT",
+    headers: {
+      "x-ms-blob-type": "BlockBlob",
+      "Content-Type": type,
     },
+    expiresAt: expiresOn.toISOString(),
+  };
+}
+
+// { buffer, contentType, size } or null when nothing was uploaded there.
+// options.maxBytes: larger images throw FILE_TOO_LARGE without being downloaded.
+async function readReceiptImage(blobName, options = {}) {
+  return getBackend().readBlob(blobName, options);
+}
+
+// Short-lived, read-only URL of one image. Callers check who may see it
+// (services/receipt-images.js). -> { url, expiresAt }
+async function createReceiptReadUrl(blobName) {
+  const expiresOn = new Date(Date.now() + RECEIPT_READ_URL_TTL_MINUTES * 60 * 1000);
+  const url = await getBackend().createReadUrl(blobName, expiresOn);
+  return { url, expiresAt: expiresOn.toISOString() };
+}
+
+// Writes a personal data export (a ZIP stream) and deletes the user's
+// previous ones. -> { blobName, url, expiresAt }, url being a read-only
+// link that downloads the archive as fileName.
+async function saveUserExport(userId, fileName, stream) {
+  const previous = await getBackend().listBlobs(exportPrefix(userId));
+  const blobName = `${exportPrefix(userId)}${uniqueFileName(fileName)}`;
+  await getBackend().uploadStream(blobName, "application/zip", stream);
+
+  for (const blob of previous) {
+    await deleteReceiptImage(blob.name);
+  }
+
+  const expiresOn = new Date(Date.now() + EXPORT_DOWNLOAD_URL_TTL_HOURS * 60 * 60 * 1000);
+  const url = await getBackend().createReadUrl(blobName, expiresOn, {
+    downloadName: sanitizeFileName(fileName),
   });
+  return { blobName, url, expiresAt: expiresOn.toISOString() };
+}
+
+async function deleteReceiptImage(blobName) {
+  await getBackend().deleteBlob(blobName);
+}
+
+async function listUserBlobs(userId) {
+  return getBackend().listBlobs(userPrefix(userId));
+}
+
+// Deletes every image of the user, direct uploads left behind and data
+// exports included; returns how many blobs were removed.
+async function deleteUserBlobs(userId) {
+  let deleted = 0;
+  const blobs = [
+    ...(await listUserBlobs(userId)),
+    ...(await getBackend().listBlobs(uploadPrefix(userId))),
+    ...(await getBackend().listBlobs(exportPrefix(userId))),
+  ];
+
+  for (const blob of blobs) {
+    await deleteReceiptImage(blob.name);
+    deleted += 1;
+  }
 
-  return blockBlobClient.url;
+  return deleted;
 }
 
 module.exports = {
+  RECEIPT_UPLOAD_URL_TTL_MINUTES,
+  RECEIPT_READ_URL_TTL_MINUTES,
+  EXPORT_DOWNLOAD_URL_TTL_HOURS,
+  isLocalBlobStorage,
+  isBlobStorageConfigured,
+  buildReceiptBlobName,
+  buildUploadBlobName,
+  fileNameFromBlobName,
+  isUserUpload,
   uploadReceiptImage,
+  createReceiptUploadUrl,
+  readReceiptImage,
+  createReceiptReadUrl,
+  saveUserExport,
+  deleteReceiptImage,
+  listUserBlobs,
+  deleteUserBlobs,
 };
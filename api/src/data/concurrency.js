@@ -0,0 +1,55 @@
+// api/src/data/concurrency.js
+// Optimistic concurrency helpers shared by the Cosmos and fake stores.
+// A write that loses a race (ETag mismatch / id collision) throws a conflict,
+// and the whole read-check-write cycle is retried from a fresh read.
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_BASE_DELAY_MS = 25;
+
+function conflictError(message = "Concurrent update detected") {
+  const err = new Error(message);
+  err.code = "CONCURRENCY_CONFLICT";
+  return err;
+}
+
+function isConflict(err) {
+  if (!err) return false;
+  return (
+    err.code === "CONCURRENCY_CONFLICT" ||
+    err.code === 409 ||
+    err.code === 412
+  );
+}
+
+function delay(ms) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function withConflictRetry(operation, options = {}) {
+  const maxAttempts = options.maxAttempts || DEFAULT_MAX_ATTEMPTS;
+  const baseDelayMs =
+    options.baseDelayMs !== undefined ? options.baseDelayMs : DEFAULT_BASE_DELAY_MS;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (err) {
+      if (!isConflict(err)) {
+        throw err;
+      }
+      if (attempt >= maxAttempts) {
+        throw conflictError(
+          `Gave up after ${attempt} attempts because of concurrent updates`
+        );
+      }
+      // small jittered backoff so racing writers don't collide again
+      await delay(baseDelayMs * attempt + Math.floor(Math.random() * baseDelayMs));
+    }
+  }
+}
+
+module.exports = {
+  conflictError,
+  isConflict,
+  withConflictRetry,
+};
@@ -6,22 +6,33 @@ global.crypto = global.crypto || nodeCrypto;
 const crypto = nodeCrypto; // keep reference so bundler doesn't strip it
 
 const { CosmosClient } = require("@azure/cosmos");
+const { getCosmosClientOptions } = require("../config/client-settings");
+
+// One client per process: it keeps its connections and account metadata warm
+// across invocations instead of paying the setup on every container lookup.
+let client = null;
 
 function isCosmosConfigured() {
   return !!process.env.COSMOS_DB_CONNECTION_STRING;
 }
 
 function getClient() {
-  const connStr = process.env.COSMOS_DB_CONNECTION_STRING;
-  if (!connStr) {
-    throw new Error("COSMOS_DB_CONNECTION_STRING is not set");
+  if (!client) {
+    const connStr = process.env.COSMOS_DB_CONNECTION_STRING;
+    if (!connStr) {
+      throw new Error("COSMOS_DB_CONNECTION_STRING is not set");
+    }
+    client = new CosmosClient(getCosmosClientOptions(connStr));
   }
-  return new CosmosClient(connStr);
+  return client;
+}
+
+function getDatabaseName() {
+  return process.env.COSMOS_DB_NAME || "bkloyalty";
 }
 
 function getDatabase() {
-  const dbName = process.env.COSMOS_DB_NAME || "bkloyalty";
-  return getClient().database(dbName);
+  return getClient().database(getDatabaseName());
 }
 
 function getUsersContainer() {
@@ -39,9 +50,26 @@ function getRewardsContainer() {
   return getDatabase().container(name);
 }
 
+// Reward id → owner lookup used by staff scans (partition key: /id).
+function getRewardCodesContainer() {
+  const name = process.env.COSMOS_DB_REWARD_CODES_CONTAINER || "RewardCodes";
+  return getDatabase().container(name);
+}
+
+// One document per receipt image hash (partition key: /id).
+function getFingerprintsContainer() {
+  const name =
+    process.env.COSMOS_DB_FINGERPRINTS_CONTAINER || "ReceiptFingerprints";
+  return getDatabase().container(name);
+}
+
 module.exports = {
   isCosmosConfigured,
+  getClient,
+  getDatabaseName,
   getUsersContainer,
   getReceiptsContainer,
   getRewardsContainer,
+  getRewardCodesContainer,
+  getFingerprintsContainer,
 };
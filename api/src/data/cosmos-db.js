@@ -0,0 +1,1062 @@
+// api/src/data/cosmos-db.js
+// Cosmos DB implementation of the storage repository (see repository.js).
+
+const { randomUUID } = require("crypto");
+const {
+  getUsersContainer,
+  getReceiptsContainer,
+  getRewardsContainer,
+  getRewardCodesContainer,
+  getFingerprintsContainer,
+} = require("./cosmos-client");
+const {
+  LEDGER_KINDS,
+  safeNumber,
+  buildLedgerEntry,
+  needsOpeningEntry,
+  buildOpeningEntry,
+  applyEntries,
+  planOncePerSource,
+} = require("./ledger");
+const {
+  replayBatches,
+  batchLoader,
+  openBatches,
+  spendOldestFirst,
+  planExpiry,
+  earliestExpiry,
+} = require("./point-batches");
+const { conflictError, withConflictRetry } = require("./concurrency");
+const {
+  buildFingerprint,
+  isStaleClaim,
+  duplicateReceiptError,
+  fingerprintIdsForReceipt,
+  completedFingerprint,
+} = require("./fingerprints");
+const {
+  getRewardOwnerId,
+  upgradeDocument,
+  withSchemaVersion,
+} = require("./documents");
+const {
+  anonymizedReceipt,
+  receiptWithPseudonymousDuplicateOf,
+  anonymizedReward,
+} = require("./privacy");
+const {
+  RECEIPT_STATUS,
+  invalidContinuationTokenError,
+  receiptNotFoundError,
+  receiptStatusChangedError,
+} = require("./receipts");
+const { businessDayRange } = require("../config/business-time");
+
+// ---------- USERS & LEDGER ----------
+// The user document is a cached snapshot of the ledger (points, pointBatches
+// + ledgerSeq). Ledger entries live in the same partition of the Users
+// container.
+
+async function readLedgerEntriesAfter(container, userId, seq) {
+  const querySpec = {
+    query:
+      "SELECT * FROM c WHERE c.type = 'ledger' AND c.seq > @seq ORDER BY c.seq ASC",
+    parameters: [{ name: "@seq", value: seq }],
+  };
+
+  const { resources } = await container.items
+    .query(querySpec, { partitionKey: userId })
+    .fetchAll();
+
+  return (resources || []).map((e) => upgradeDocument("ledger", e));
+}
+
+// Reads (or creates) the user snapshot and catches it up with any ledger
+// entries written after it (e.g. a crash between entry and snapshot write).
+// The catch-up write is guarded by the ETag: if another request updated the
+// snapshot meanwhile, it is read again.
+async function readUserSnapshot(userId) {
+  return withConflictRetry(() => readUserSnapshotOnce(userId));
+}
+
+async function readUserSnapshotOnce(userId) {
+  const container = getUsersContainer();
+
+  let doc = null;
+  try {
+    const { resource } = await container.item(userId, userId).read();
+    doc = resource ? upgradeDocument("user", resource) : null;
+  } catch (err) {
+    if (err.code !== 404) {
+      throw err;
+    }
+  }
+
+  if (!doc) {
+    // If not found → create with 0 points
+    const nowIso = new Date().toISOString();
+    try {
+      const { resource: created } = await container.items.create(
+        withSchemaVersion("user", {
+          id: userId,
+          userId,
+          type: "user",
+          email: null,
+          points: 0,
+          ledgerSeq: 0,
+          pointBatches: [],
+          createdAt: nowIso,
+          updatedAt: nowIso,
+        })
+      );
+      return created;
+    } catch (err) {
+      // Another request created it first → use theirs
+      if (err.code !== 409) {
+        throw err;
+      }
+      const { resource } = await container.item(userId, userId).read();
+      return upgradeDocument("user", resource);
+    }
+  }
+
+  // Legacy snapshot without ledger: nothing to catch up yet
+  if (doc.ledgerSeq === undefined || doc.ledgerSeq === null) {
+    return doc;
+  }
+
+  // Snapshots written before pointBatches existed replay the whole ledger once
+  const cached = Array.isArray(doc.pointBatches);
+  const pending = await readLedgerEntriesAfter(
+    container,
+    userId,
+    cached ? safeNumber(doc.ledgerSeq, 0) : 0
+  );
+  if (cached && !pending.length) {
+    return doc;
+  }
+
+  const caughtUp = applyEntries(doc, pending);
+  const { resource: updated } = await container.items.upsert(
+    {
+      ...doc,
+      points: caughtUp.points,
+      ledgerSeq: caughtUp.ledgerSeq,
+      pointBatches: openBatches(replayBatches(pending, cached ? doc.pointBatches : [])),
+      updatedAt: new Date().toISOString(),
+    },
+    { accessCondition: { type: "IfMatch", condition: doc._etag } }
+  );
+  return updated;
+}
+
+function toUserView(doc) {
+  return {
+    userId: doc.userId || doc.id,
+    points: safeNumber(doc.points, 0),
+    pointBatches: Array.isArray(doc.pointBatches) ? doc.pointBatches : [],
+    createdAt: doc.createdAt || null,
+  };
+}
+
+function assertBatchSucceeded(response) {
+  const results = (response && response.result) || [];
+  const failed = results.find((r) => r.statusCode >= 400);
+  if (!failed) {
+    return;
+  }
+
+  // 409 = ledger seq already taken, 412 = snapshot ETag changed → lost the race
+  if (failed.statusCode === 409 || failed.statusCode === 412) {
+    throw conflictError();
+  }
+
+  const err = new Error(`Ledger batch failed with status ${failed.statusCode}`);
+  err.code = failed.statusCode;
+  throw err;
+}
+
+// Writes the ledger entry and the new snapshot in one transactional batch
+// (same partition), guarded by the snapshot ETag.
+// `plan(user, loadEntries, loadBatches)` runs on every attempt, so it always
+// sees the latest committed state; it returns the change to write
+// ({ delta, details }) or null when there is nothing to write. `loadEntries()`
+// returns the user's whole ledger, including the opening entry about to be
+// written for legacy users; `loadBatches()` its open batches, from the
+// snapshot (readUserSnapshot has just caught it up) unless that entry is new.
+async function commitLedgerChange(userId, plan) {
+  const container = getUsersContainer();
+
+  return withConflictRetry(async () => {
+    const snapshot = await readUserSnapshot(userId);
+    const nowIso = new Date().toISOString();
+    const operations = [];
+    let base = snapshot;
+    let opening = null;
+
+    if (needsOpeningEntry(snapshot)) {
+      opening = buildOpeningEntry(userId, snapshot, nowIso);
+      base = { ...snapshot, points: opening.balanceAfter, ledgerSeq: opening.seq };
+    }
+
+    const loadEntries = async () => {
+      const stored = await readLedgerEntriesAfter(container, userId, 0);
+      return opening ? [...stored, opening] : stored;
+    };
+
+    const loadBatches = batchLoader(snapshot, !opening, loadEntries);
+
+    const change = await plan(toUserView(snapshot), loadEntries, loadBatches);
+    if (!change) {
+      return { user: toUserView(snapshot), entry: null };
+    }
+
+    if (opening) {
+      operations.push({ operationType: "Create", resourceBody: opening });
+    }
+
+    const entry = buildLedgerEntry(userId, base, change.delta, change.details, nowIso);
+    operations.push({ operationType: "Create", resourceBody: entry });
+
+    const nextSnapshot = {
+      ...snapshot,
+      id: userId,
+      userId,
+      type: "user",
+      points: entry.balanceAfter,
+      ledgerSeq: entry.seq,
+      pointBatches: openBatches(
+        replayBatches(opening ? [opening, entry] : [entry], snapshot.pointBatches)
+      ),
+      updatedAt: nowIso,
+    };
+    operations.push({
+      operationType: "Replace",
+      id: userId,
+      resourceBody: nextSnapshot,
+      ifMatch: snapshot._etag,
+    });
+
+    const response = await container.items.batch(operations, userId);
+    assertBatchSucceeded(response);
+
+    return {
+      user: toUserView(nextSnapshot),
+      entry,
+    };
+  });
+}
+
+// Fixed delta; `check(user, loadEntries, loadBatches)` may throw to refuse the
+// change or return extra details for the entry (e.g. the batches a reward
+// consumed).
+async function appendLedgerEntry(userId, delta, details = {}, check = null) {
+  return commitLedgerChange(userId, async (user, loadEntries, loadBatches) => {
+    const extra = check ? await check(user, loadEntries, loadBatches) : null;
+    return { delta, details: extra ? { ...details, ...extra } : details };
+  });
+}
+
+async function getUser(userId) {
+  const doc = await readUserSnapshot(userId);
+  return toUserView(doc);
+}
+
+// details: { kind, reason, sourceType, sourceId } recorded on the ledger entry
+async function addPoints(userId, delta, details = {}) {
+  const { user } = await appendLedgerEntry(userId, delta, details);
+  return user;
+}
+
+// Credits a source (e.g. a receipt) at most once: { user, entry | null }.
+async function addPointsOnce(userId, delta, details) {
+  return commitLedgerChange(userId, planOncePerSource(delta, details));
+}
+
+// limit = null → the whole ledger
+async function listLedgerEntries(userId, limit = 50) {
+  const container = getUsersContainer();
+  const querySpec =
+    limit === null
+      ? {
+          query: "SELECT * FROM c WHERE c.type = 'ledger' ORDER BY c.seq DESC",
+        }
+      : {
+          query:
+            "SELECT TOP @limit * FROM c WHERE c.type = 'ledger' ORDER BY c.seq DESC",
+          parameters: [{ name: "@limit", value: limit }],
+        };
+
+  const { resources } = await container.items
+    .query(querySpec, { partitionKey: userId })
+    .fetchAll();
+
+  return (resources || []).map((e) => upgradeDocument("ledger", e));
+}
+
+// Recomputes the snapshot from the full ledger (support / audit tool).
+// Guarded by the snapshot ETag, and started over if a ledger change got in.
+async function rebuildUserBalance(userId) {
+  const container = getUsersContainer();
+
+  return withConflictRetry(async () => {
+    const snapshot = await readUserSnapshot(userId);
+    const entries = await readLedgerEntriesAfter(container, userId, 0);
+
+    if (!entries.length) {
+      return toUserView(snapshot);
+    }
+
+    const rebuilt = applyEntries({ points: 0, ledgerSeq: 0 }, entries);
+    const { resource } = await container.items.upsert(
+      {
+        ...snapshot,
+        points: rebuilt.points,
+        ledgerSeq: rebuilt.ledgerSeq,
+        pointBatches: openBatches(replayBatches(entries)),
+        updatedAt: new Date().toISOString(),
+      },
+      { accessCondition: { type: "IfMatch", condition: snapshot._etag } }
+    );
+
+    return toUserView(resource);
+  });
+}
+
+// Writes off the user's expired batches as one EXPIRE entry.
+// Returns { user, entry } (entry null when nothing had expired).
+async function expirePoints(userId, now = new Date()) {
+  return commitLedgerChange(userId, planExpiry(now));
+}
+
+// Users holding a batch that expires in (from, to]; the expiry job's work list.
+async function listUsersWithPointsExpiringBetween(fromIso, toIso) {
+  const container = getUsersContainer();
+  const querySpec = {
+    query:
+      "SELECT DISTINCT VALUE c.userId FROM c WHERE c.type = 'ledger' AND c.expiresAt > @from AND c.expiresAt <= @to",
+    parameters: [
+      { name: "@from", value: fromIso },
+      { name: "@to", value: toIso },
+    ],
+  };
+
+  const { resources } = await container.items.query(querySpec).fetchAll();
+  return resources || [];
+}
+
+// ---------- RECEIPTS ----------
+
+// Point read that treats "not found" as null, whichever way the SDK reports it.
+async function readItemOrNull(container, id, partitionKey) {
+  try {
+    const { resource } = await container.item(id, partitionKey).read();
+    return resource || null;
+  } catch (err) {
+    if (err.code === 404) {
+      return null;
+    }
+    throw err;
+  }
+}
+
+async function createReceipt(userId, blobUrl, amount, pointsEarned, extras = {}) {
+  const container = getReceiptsContainer();
+  const nowIso = new Date().toISOString();
+
+  const receiptDoc = withSchemaVersion("receipt", {
+    id: randomUUID(),
+    userId,
+    type: "receipt",
+    blobUrl,
+    blobName: null,
+    status: RECEIPT_STATUS.ACCEPTED,
+    amount,
+    pointsEarned,
+    imageHash: null,
+    perceptualHash: null,
+    perceptualBands: [],
+    nearDuplicate: null,
+    merchantName: null,
+    receiptDate: null,
+    rawDateText: null,
+    storeId: null,
+    matchedStoreId: null,
+    ticketNumber: null,
+    transactionTime: null,
+    receiptKey: null,
+    duplicateOf: null,
+    items: [],
+    bonusPoints: 0,
+    bonuses: [],
+    reasons: [],
+    confidences: null,
+    review: null,
+    rejection: null,
+    failure: null,
+    requeueCount: 0,
+    requeuedAt: null,
+    createdAt: nowIso,
+    processedAt: nowIso,
+    ...extras,
+  });
+
+  const { resource } = await container.items.create(receiptDoc);
+  return resource || receiptDoc;
+}
+
+async function getReceipt(userId, receiptId) {
+  const stored = await readItemOrNull(getReceiptsContainer(), receiptId, userId);
+  return stored ? upgradeDocument("receipt", stored) : null;
+}
+
+// Read-merge-replace guarded by the ETag; `changes` is a partial receipt.
+async function updateReceipt(userId, receiptId, changes, { expectedStatus = null } = {}) {
+  const container = getReceiptsContainer();
+
+  return withConflictRetry(async () => {
+    const stored = await readItemOrNull(container, receiptId, userId);
+    if (!stored) {
+      throw receiptNotFoundError(receiptId);
+    }
+
+    // The status read here is the one the ETag below guarantees
+    const current = upgradeDocument("receipt", stored);
+    if (expectedStatus && current.status !== expectedStatus) {
+      throw receiptStatusChangedError(receiptId, current.status);
+    }
+
+    const updated = withSchemaVersion("receipt", {
+      ...current,
+      ...changes,
+    });
+    const { resource } = await container.item(receiptId, userId).replace(updated, {
+      accessCondition: { type: "IfMatch", condition: stored._etag },
+    });
+    return resource || updated;
+  });
+}
+
+async function countReceiptsForUserOnDay(userId, day, { createdBefore = null } = {}) {
+  const container = getReceiptsContainer();
+  // Moroccan day, whatever the host's time zone
+  const { start, end } = businessDayRange(day instanceof Date ? day : new Date(day));
+  const endIso =
+    createdBefore && createdBefore < end.toISOString() ? createdBefore : end.toISOString();
+
+  const querySpec = {
+    query:
+      "SELECT VALUE COUNT(1) FROM c WHERE c.userId = @userId AND c.createdAt >= @start AND c.createdAt < @end AND (NOT IS_DEFINED(c.status) OR c.status IN (@accepted, @pending, @pendingReview))",
+    parameters: [
+      { name: "@userId", value: userId },
+      { name: "@accepted", value: RECEIPT_STATUS.ACCEPTED },
+      { name: "@pending", value: RECEIPT_STATUS.PENDING },
+      { name: "@pendingReview", value: RECEIPT_STATUS.PENDING_REVIEW },
+      { name: "@start", value: start.toISOString() },
+      { name: "@end", value: endIso },
+    ],
+  };
+
+  const { resources } = await container.items
+    .query(querySpec, { partitionKey: userId })
+    .fetchAll();
+
+  const count = resources && resources.length ? resources[0] : 0;
+  return safeNumber(count, 0);
+}
+
+async function findReceiptByImageHash(imageHash) {
+  const container = getReceiptsContainer();
+  const querySpec = {
+    query: "SELECT TOP 1 * FROM c WHERE c.imageHash = @imageHash",
+    parameters: [{ name: "@imageHash", value: imageHash }],
+  };
+
+  const { resources } = await container.items.query(querySpec).fetchAll();
+  return resources && resources.length
+    ? upgradeDocument("receipt", resources[0])
+    : null;
+}
+
+async function listReceiptsForUser(userId) {
+  const container = getReceiptsContainer();
+  const querySpec = {
+    query:
+      "SELECT * FROM c WHERE c.userId = @userId ORDER BY c.createdAt DESC",
+    parameters: [{ name: "@userId", value: userId }],
+  };
+
+  const { resources } = await container.items
+    .query(querySpec, { partitionKey: userId })
+    .fetchAll();
+
+  return (resources || []).map((r) => upgradeDocument("receipt", r));
+}
+
+// One page of the user's receipts, newest first (get-user-receipts).
+async function listReceiptsPageForUser(userId, { continuationToken = null, pageSize = 20 } = {}) {
+  const container = getReceiptsContainer();
+  const querySpec = {
+    query:
+      "SELECT * FROM c WHERE c.userId = @userId ORDER BY c.createdAt DESC",
+    parameters: [{ name: "@userId", value: userId }],
+  };
+
+  let response;
+  try {
+    response = await container.items
+      .query(querySpec, {
+        partitionKey: userId,
+        maxItemCount: pageSize,
+        continuationToken: continuationToken || undefined,
+      })
+      .fetchNext();
+  } catch (err) {
+    // Cosmos answers 400 Bad Request to a token it can't use
+    if (continuationToken && err.code === 400) {
+      throw invalidContinuationTokenError();
+    }
+    throw err;
+  }
+
+  return {
+    receipts: (response.resources || []).map((r) => upgradeDocument("receipt", r)),
+    continuationToken: response.continuationToken || null,
+  };
+}
+
+// Lightweight summaries for the near-duplicate check (services/near-duplicates.js).
+// userId null → every user (cross-partition query).
+const PERCEPTUAL_HASH_FIELDS = "c.id, c.userId, c.status, c.perceptualHash, c.createdAt";
+
+async function listReceiptPerceptualHashes(sinceIso, userId) {
+  const container = getReceiptsContainer();
+  const querySpec = {
+    query:
+      `SELECT ${PERCEPTUAL_HASH_FIELDS} FROM c ` +
+      "WHERE IS_STRING(c.perceptualHash) AND c.createdAt >= @since AND c.userId = @userId " +
+      "ORDER BY c.createdAt DESC",
+    parameters: [
+      { name: "@since", value: sinceIso },
+      { name: "@userId", value: userId },
+    ],
+  };
+
+  const { resources } = await container.items
+    .query(querySpec, { partitionKey: userId })
+    .fetchAll();
+
+  return resources || [];
+}
+
+// Cross-partition, but only the receipts sharing a band are read (an
+// ARRAY_CONTAINS per band, served by the index).
+async function listReceiptPerceptualHashesInBands(sinceIso, bands) {
+  if (!bands || !bands.length) {
+    return [];
+  }
+
+  const container = getReceiptsContainer();
+  const bandFilter = bands
+    .map((band, i) => `ARRAY_CONTAINS(c.perceptualBands, @band${i})`)
+    .join(" OR ");
+  const querySpec = {
+    query:
+      `SELECT ${PERCEPTUAL_HASH_FIELDS} FROM c ` +
+      `WHERE c.createdAt >= @since AND (${bandFilter}) ` +
+      "ORDER BY c.createdAt DESC",
+    parameters: [
+      { name: "@since", value: sinceIso },
+      ...bands.map((band, i) => ({ name: `@band${i}`, value: band })),
+    ],
+  };
+
+  const { resources } = await container.items.query(querySpec).fetchAll();
+
+  return resources || [];
+}
+
+// Review queue (PENDING_REVIEW), oldest first: cross-partition, and only
+// ever a handful of receipts.
+async function listReceiptsByStatus(status, limit = 50) {
+  const container = getReceiptsContainer();
+  const querySpec = {
+    query:
+      "SELECT TOP @limit * FROM c WHERE c.status = @status ORDER BY c.createdAt ASC",
+    parameters: [
+      { name: "@limit", value: limit },
+      { name: "@status", value: status },
+    ],
+  };
+
+  const { resources } = await container.items.query(querySpec).fetchAll();
+
+  return (resources || []).map((r) => upgradeDocument("receipt", r));
+}
+
+async function countReceiptsByStore(fromIso, toIso) {
+  const container = getReceiptsContainer();
+  const querySpec = {
+    query:
+      "SELECT c.matchedStoreId AS storeId, c.status AS status, COUNT(1) AS receipts FROM c WHERE c.createdAt >= @from AND c.createdAt < @to GROUP BY c.matchedStoreId, c.status",
+    parameters: [
+      { name: "@from", value: fromIso },
+      { name: "@to", value: toIso },
+    ],
+  };
+
+  const { resources } = await container.items.query(querySpec).fetchAll();
+
+  // Fields missing on older documents: no restaurant, legacy ACCEPTED
+  return (resources || []).map((r) => ({
+    storeId: r.storeId || null,
+    status: r.status || RECEIPT_STATUS.ACCEPTED,
+    count: r.receipts,
+  }));
+}
+
+// ---------- RECEIPT FINGERPRINTS ----------
+// Point operations on the ReceiptFingerprints container (see fingerprints.js).
+
+async function claimReceiptFingerprint(imageHash, userId) {
+  const container = getFingerprintsContainer();
+
+  return withConflictRetry(async () => {
+    const now = new Date();
+    const claim = buildFingerprint(imageHash, userId, now.toISOString());
+
+    try {
+      const { resource } = await container.items.create(claim);
+      return resource || claim;
+    } catch (err) {
+      if (err.code !== 409) {
+        throw err;
+      }
+    }
+
+    const existing = await readItemOrNull(container, imageHash, imageHash);
+    if (!existing) {
+      // Released between our create and our read: try again
+      throw conflictError("Receipt fingerprint released during claim");
+    }
+    if (!isStaleClaim(existing, now)) {
+      throw duplicateReceiptError(existing);
+    }
+
+    // Abandoned claim: take it over, unless another request just did
+    try {
+      const { resource } = await container.item(imageHash, imageHash).replace(claim, {
+        accessCondition: { type: "IfMatch", condition: existing._etag },
+      });
+      return resource || claim;
+    } catch (err) {
+      if (err.code === 412) {
+        throw duplicateReceiptError(existing);
+      }
+      throw err;
+    }
+  });
+}
+
+async function completeReceiptFingerprint(claim, receiptId) {
+  const container = getFingerprintsContainer();
+  const { _rid, _self, _etag, _attachments, _ts, ...body } = claim;
+  const { resource } = await container.items.upsert(
+    completedFingerprint(body, receiptId, new Date().toISOString())
+  );
+  return resource;
+}
+
+// Gives the image back when the upload ended without a receipt.
+async function releaseReceiptFingerprint(claim) {
+  const container = getFingerprintsContainer();
+  try {
+    await container.item(claim.id, claim.id).delete({
+      accessCondition: { type: "IfMatch", condition: claim._etag },
+    });
+  } catch (err) {
+    // Already gone, or taken over after expiring: not ours to delete anymore
+    if (err.code !== 404 && err.code !== 412) {
+      throw err;
+    }
+  }
+}
+
+// Gives the image back when a saved receipt ends up rejected or failed,
+// unless the fingerprint was reused for another receipt since.
+async function releaseReceiptFingerprintForReceipt(receipt) {
+  const container = getFingerprintsContainer();
+
+  for (const id of fingerprintIdsForReceipt(receipt)) {
+    const fingerprint = await readItemOrNull(container, id, id);
+    if (fingerprint && fingerprint.receiptId === receipt.id) {
+      await releaseReceiptFingerprint(fingerprint);
+    }
+  }
+}
+
+// ---------- REWARD CODES ----------
+// The QR code carries the reward id only (`reward:<id>`). A lookup document
+// keyed by that id gives the owner, i.e. the partition of the reward, so a
+// staff scan is two point reads instead of a cross-partition query.
+//
+// Rewards issued before the lookup existed get theirs from the migration
+// (`npm run migrate -- --apply`, see saveDocument). Meanwhile a scan of an
+// unknown code falls back to a cross-partition query, which writes the
+// missing lookup. Once the migration has run, REWARD_CODES_LEGACY_LOOKUP=false
+// turns the fallback off.
+
+function isLegacyRewardLookupEnabled() {
+  return (process.env.REWARD_CODES_LEGACY_LOOKUP || "").trim().toLowerCase() !== "false";
+}
+
+// voidedAt mirrors the reward's (account deletion, see privacy.js).
+async function saveRewardCode(rewardId, userId, voidedAt = null) {
+  const container = getRewardCodesContainer();
+  await container.items.upsert(
+    withSchemaVersion("rewardCode", {
+      id: rewardId,
+      type: "rewardCode",
+      rewardId,
+      userId,
+      voidedAt,
+      createdAt: new Date().toISOString(),
+    })
+  );
+}
+
+// Returns the reward document exactly as stored (null if unknown).
+async function findStoredReward(rewardId) {
+  const container = getRewardsContainer();
+
+  const code = await readItemOrNull(getRewardCodesContainer(), rewardId, rewardId);
+  if (code && code.userId) {
+    const stored = await readItemOrNull(container, rewardId, code.userId);
+    if (stored) {
+      return stored;
+    }
+  }
+
+  // Rewards issued before the lookup existed (or whose lookup is stale)
+  if (!isLegacyRewardLookupEnabled()) {
+    return null;
+  }
+  const querySpec = {
+    query: "SELECT * FROM c WHERE c.id = @id",
+    parameters: [{ name: "@id", value: rewardId }],
+  };
+  const { resources } = await container.items.query(querySpec).fetchAll();
+  const stored = resources && resources.length ? resources[0] : null;
+
+  // Only index documents that a point read can reach (userId = partition key)
+  if (stored && stored.userId) {
+    await saveRewardCode(rewardId, stored.userId, stored.voidedAt || null);
+  }
+  return stored;
+}
+
+// ---------- REWARDS ----------
+
+async function createReward(userId, name, pointsCost, tier = null) {
+  const rewardsContainer = getRewardsContainer();
+  const rewardId = randomUUID();
+
+  // Balance check + debit are one atomic step (retried on concurrent updates),
+  // so two simultaneous taps can never both spend the same Couronnes.
+  // Only unexpired points count, and the oldest batches are used first.
+  const { user, entry } = await appendLedgerEntry(
+    userId,
+    -pointsCost,
+    {
+      kind: LEDGER_KINDS.BURN,
+      reason: tier || "REWARD",
+      sourceType: "reward",
+      sourceId: rewardId,
+    },
+    spendOldestFirst(pointsCost)
+  );
+
+  // Create reward
+  const rewardDoc = withSchemaVersion("reward", {
+    id: rewardId,
+    userId,
+    type: "reward",
+    name,
+    pointsCost,
+    tier,
+    qrCodeData: null,
+    redeemed: false,
+    createdAt: new Date().toISOString(),
+    redeemedAt: null,
+    voidedAt: null,
+  });
+
+  let rewardResource;
+  try {
+    await saveRewardCode(rewardId, userId);
+    ({ resource: rewardResource } = await rewardsContainer.items.create(rewardDoc));
+  } catch (err) {
+    // The debit is already committed: give the points back before failing
+    await appendLedgerEntry(userId, pointsCost, {
+      kind: LEDGER_KINDS.ADJUST,
+      reason: "REWARD_CREATION_FAILED",
+      sourceType: "reward",
+      sourceId: rewardId,
+      expiresAt: earliestExpiry(entry.consumedBatches),
+    });
+    throw err;
+  }
+
+  return {
+    reward: rewardResource || rewardDoc,
+    user,
+  };
+}
+
+async function redeemReward(rewardId) {
+  const container = getRewardsContainer();
+  const stored = await findStoredReward(rewardId);
+
+  if (!stored) {
+    return { found: false };
+  }
+
+  // Partition key as stored (legacy docs may only have user_id / user)
+  const partitionKey = getRewardOwnerId(stored);
+  const reward = upgradeDocument("reward", stored);
+
+  if (reward.redeemed) {
+    return {
+      found: true,
+      alreadyRedeemed: true,
+      reward,
+    };
+  }
+
+  // Its owner deleted the account before using it (privacy.js)
+  if (reward.voidedAt) {
+    return {
+      found: true,
+      voided: true,
+      reward,
+    };
+  }
+
+  reward.redeemed = true;
+  reward.redeemedAt = new Date().toISOString();
+
+  let resource;
+  try {
+    ({ resource } = await container
+      .item(reward.id, partitionKey)
+      .replace(reward, { accessCondition: { type: "IfMatch", condition: reward._etag } }));
+  } catch (err) {
+    // Another scan redeemed it between our read and our write
+    if (err.code === 412) {
+      return {
+        found: true,
+        alreadyRedeemed: true,
+        reward,
+      };
+    }
+    throw err;
+  }
+
+  return {
+    found: true,
+    alreadyRedeemed: false,
+    reward: upgradeDocument("reward", resource || reward),
+  };
+}
+
+async function listRewardsForUser(userId) {
+  const container = getRewardsContainer();
+  const querySpec = {
+    query:
+      "SELECT * FROM c WHERE c.userId = @userId ORDER BY c.createdAt DESC",
+    parameters: [{ name: "@userId", value: userId }],
+  };
+
+  const { resources } = await container.items
+    .query(querySpec, { partitionKey: userId })
+    .fetchAll();
+
+  return (resources || []).map((r) => upgradeDocument("reward", r));
+}
+
+// ---------- ACCOUNT DELETION (see privacy.js) ----------
+// The owner is the partition key, so anonymized documents are re-created in
+// the pseudonym's partition and the originals deleted. Each document is
+// handled on its own: an interrupted run can simply be started again.
+
+async function listPartition(container, userId) {
+  const { resources } = await container.items
+    .query("SELECT * FROM c", { partitionKey: userId })
+    .fetchAll();
+  return resources || [];
+}
+
+async function anonymizeReceipts(userId, pseudonymId) {
+  const container = getReceiptsContainer();
+  const fingerprints = getFingerprintsContainer();
+  const nowIso = new Date().toISOString();
+  let count = 0;
+
+  for (const receipt of await listPartition(container, userId)) {
+    await container.items.upsert(anonymizedReceipt(receipt, pseudonymId, nowIso));
+    await container.item(receipt.id, userId).delete();
+
+    for (const id of fingerprintIdsForReceipt(receipt)) {
+      const fingerprint = await readItemOrNull(fingerprints, id, id);
+      if (fingerprint && fingerprint.userId === userId) {
+        await fingerprints.item(fingerprint.id, fingerprint.id).replace({
+          ...fingerprint,
+          userId: pseudonymId,
+        });
+      }
+    }
+    count += 1;
+  }
+
+  // Other users' receipts refused as duplicates of this user's tickets
+  // (cross-partition, but only run when an account is deleted)
+  const { resources: duplicates } = await container.items
+    .query({
+      query: "SELECT * FROM c WHERE c.duplicateOf.userId = @userId",
+      parameters: [{ name: "@userId", value: userId }],
+    })
+    .fetchAll();
+  for (const duplicate of duplicates || []) {
+    await container
+      .item(duplicate.id, duplicate.userId)
+      .replace(receiptWithPseudonymousDuplicateOf(duplicate, userId, pseudonymId));
+  }
+
+  return count;
+}
+
+async function anonymizeRewards(userId, pseudonymId) {
+  const container = getRewardsContainer();
+  const nowIso = new Date().toISOString();
+  let count = 0;
+
+  for (const reward of await listPartition(container, userId)) {
+    const anonymized = anonymizedReward(reward, pseudonymId, nowIso);
+    await container.items.upsert(anonymized);
+    await saveRewardCode(reward.id, pseudonymId, anonymized.voidedAt);
+    await container.item(reward.id, userId).delete();
+    count += 1;
+  }
+
+  return count;
+}
+
+// Deletes the user document and the whole points ledger.
+async function deleteUser(userId) {
+  const container = getUsersContainer();
+  let count = 0;
+
+  for (const doc of await listPartition(container, userId)) {
+    await container.item(doc.id, userId).delete();
+    count += 1;
+  }
+
+  return count;
+}
+
+// ---------- RAW DOCUMENTS (migrations) ----------
+
+const CONTAINERS = {
+  users: getUsersContainer,
+  receipts: getReceiptsContainer,
+  rewards: getRewardsContainer,
+};
+
+function getContainerByName(containerName) {
+  const getter = CONTAINERS[containerName];
+  if (!getter) {
+    throw new Error(`Unknown container "${containerName}"`);
+  }
+  return getter();
+}
+
+// Pages through every stored document as-is (no upgrade applied).
+async function listDocuments(containerName, { continuationToken = null, pageSize = 100 } = {}) {
+  const container = getContainerByName(containerName);
+
+  const response = await container.items
+    .query("SELECT * FROM c", {
+      maxItemCount: pageSize,
+      continuationToken: continuationToken || undefined,
+    })
+    .fetchNext();
+
+  return {
+    documents: response.resources || [],
+    continuationToken: response.continuationToken || null,
+  };
+}
+
+// Writes `doc` in place of `original` (as read by listDocuments).
+// If the partition key changed (legacy owner fields), the document is moved.
+async function writeDocument(containerName, doc, original) {
+  const container = getContainerByName(containerName);
+  const previousKey = original && original.userId !== undefined ? original.userId : {};
+
+  if (original && original.userId === doc.userId) {
+    const { resource } = await container.item(original.id, previousKey).replace(doc, {
+      accessCondition: { type: "IfMatch", condition: original._etag },
+    });
+    return resource;
+  }
+
+  const { _rid, _self, _etag, _attachments, _ts, ...body } = doc;
+  const { resource } = await container.items.create(body);
+  if (original) {
+    await container.item(original.id, previousKey).delete();
+  }
+  return resource;
+}
+
+// Rewards also get their RewardCodes lookup: migrating them indexes the ones
+// issued before it existed.
+async function saveDocument(containerName, doc, original) {
+  const saved = await writeDocument(containerName, doc, original);
+  if (containerName === "rewards" && saved && saved.userId) {
+    await saveRewardCode(saved.id, saved.userId, saved.voidedAt || null);
+  }
+  return saved;
+}
+
+module.exports = {
+  getUser,
+  addPoints,
+  addPointsOnce,
+  listLedgerEntries,
+  rebuildUserBalance,
+  expirePoints,
+  listUsersWithPointsExpiringBetween,
+  createReceipt,
+  getReceipt,
+  updateReceipt,
+  createReward,
+  redeemReward,
+  countReceiptsForUserOnDay,
+  findReceiptByImageHash,
+  listReceiptsForUser,
+  listReceiptsPageForUser,
+  listReceiptPerceptualHashes,
+  listReceiptPerceptualHashesInBands,
+  listReceiptsByStatus,
+  countReceiptsByStore,
+  claimReceiptFingerprint,
+  completeReceiptFingerprint,
+  releaseReceiptFingerprint,
+  releaseReceiptFingerprintForReceipt,
+  listRewardsForUser,
+  anonymizeReceipts,
+  anonymizeRewards,
+  deleteUser,
+  listDocuments,
+  saveDocument,
+};
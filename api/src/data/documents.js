@@ -0,0 +1,251 @@
+// api/src/data/documents.js
+// Stored document shapes, shared by every storage backend.
+//
+// Each document type carries a `schemaVersion`. Documents written before
+// versioning existed count as version 1. When a backend reads a document it
+// runs `upgradeDocument`, so the rest of the code only ever sees the current
+// shape; `scripts/migrate.js` rewrites the stored documents for good.
+
+const { perceptualHashBands } = require("./receipts");
+
+const CURRENT_SCHEMA_VERSIONS = {
+  user: 3,
+  ledger: 2,
+  receipt: 14,
+  reward: 3,
+  rewardCode: 1,
+  fingerprint: 1,
+};
+
+// Which document types live in which container.
+// (RewardCodes and ReceiptFingerprints only hold lookups and are not migrated.)
+const CONTAINER_KINDS = {
+  users: ["user", "ledger"],
+  receipts: ["receipt"],
+  rewards: ["reward"],
+};
+
+// Older reward documents were written with different owner field names.
+function getRewardOwnerId(reward) {
+  if (!reward) return null;
+  return reward.userId || reward.user_id || reward.user || null;
+}
+
+// Receipt images are stored as "<userId>/…"; older receipts only kept the URL.
+function blobNameFromUrl(blobUrl, userId) {
+  if (!blobUrl || !userId) return null;
+  try {
+    const pathname = decodeURIComponent(new URL(blobUrl).pathname);
+    const start = pathname.indexOf(`/${userId}/`);
+    return start >= 0 ? pathname.slice(start + 1) : null;
+  } catch {
+    return null;
+  }
+}
+
+function numberOrNull(value) {
+  if (value === null || value === undefined || value === "") return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+// upgrades[kind][n] turns a version-n document into version n+1.
+const upgrades = {
+  user: {
+    // v1 → v2: documents written by the first db.js (no type, no email, and
+    // upserts that dropped createdAt).
+    // ledgerSeq stays absent on pre-ledger users: ledger.js turns their points
+    // into an opening entry on the next write.
+    1: (doc) => ({
+      ...doc,
+      userId: doc.userId || doc.id,
+      type: "user",
+      email: doc.email || null,
+      points: numberOrNull(doc.points) || 0,
+      createdAt: doc.createdAt || doc.updatedAt || null,
+    }),
+    // v2 → v3: open point batches cached next to `points` (point-batches.js).
+    // null until the next read replays the ledger once.
+    2: (doc) => ({
+      ...doc,
+      pointBatches: Array.isArray(doc.pointBatches) ? doc.pointBatches : null,
+    }),
+  },
+  ledger: {
+    // v1 → v2: points expiry. Entries written before it never expire.
+    1: (doc) => ({
+      ...doc,
+      expiresAt: doc.expiresAt || null,
+    }),
+  },
+  receipt: {
+    // v1 → v2: explicit type and numeric fields, optional metadata always present.
+    1: (doc) => ({
+      ...doc,
+      type: "receipt",
+      amount: numberOrNull(doc.amount),
+      pointsEarned: numberOrNull(doc.pointsEarned) || 0,
+      imageHash: doc.imageHash || null,
+      merchantName: doc.merchantName || null,
+      receiptDate: doc.receiptDate || null,
+    }),
+    // v2 → v3: images can be uploaded straight to storage, so receipts keep the
+    // blob name (the URL alone doesn't say which backend or container it is in).
+    2: (doc) => ({
+      ...doc,
+      blobName: doc.blobName || blobNameFromUrl(doc.blobUrl, doc.userId),
+    }),
+    // v3 → v4: asynchronous processing (receipts.js). Older receipts were only
+    // saved once accepted.
+    3: (doc) => ({
+      ...doc,
+      status: doc.status || "ACCEPTED",
+      rawDateText: doc.rawDateText || null,
+      rejection: doc.rejection || null,
+      failure: doc.failure || null,
+      processedAt: doc.processedAt || doc.createdAt || null,
+    }),
+    // v4 → v5: line items matched against the product catalog, and the
+    // product bonuses included in pointsEarned.
+    4: (doc) => ({
+      ...doc,
+      items: Array.isArray(doc.items) ? doc.items : [],
+      bonusPoints: numberOrNull(doc.bonusPoints) || 0,
+      bonuses: Array.isArray(doc.bonuses) ? doc.bonuses : [],
+    }),
+    // v5 → v6: perceptual hash for the near-duplicate check
+    // (services/near-duplicates.js). Older receipts are only caught by imageHash.
+    5: (doc) => ({
+      ...doc,
+      perceptualHash: doc.perceptualHash || null,
+      nearDuplicate: doc.nearDuplicate || null,
+    }),
+    // v6 → v7: ticket identity (services/receipt-key.js) and, on receipts
+    // rejected as DUPLICATE_RECEIPT, the original claim.
+    6: (doc) => ({
+      ...doc,
+      storeId: doc.storeId || null,
+      ticketNumber: doc.ticketNumber || null,
+      transactionTime: doc.transactionTime || null,
+      receiptKey: doc.receiptKey || null,
+      duplicateOf: doc.duplicateOf || null,
+    }),
+    // v7 → v8: non-blocking rule reasons (warnings, review) kept on the
+    // receipt (services/receipt-rules.js).
+    7: (doc) => ({
+      ...doc,
+      reasons: Array.isArray(doc.reasons) ? doc.reasons : [],
+    }),
+    // v8 → v9: manual review of uncertain receipts (PENDING_REVIEW, see
+    // receipts.js). Older receipts were never reviewed.
+    8: (doc) => ({
+      ...doc,
+      review: doc.review || null,
+    }),
+    // v9 → v10: Document Intelligence field confidences (receipt-rules.js
+    // fieldConfidence rules). Unknown for older receipts.
+    9: (doc) => ({
+      ...doc,
+      confidences: doc.confidences || null,
+    }),
+    // v10 → v11: the receipts container is private; raw blob URLs are dropped
+    // (images are reached through signed links, blob-storage.js).
+    10: (doc) => ({
+      ...doc,
+      blobUrl: null,
+    }),
+    // v11 → v12: restaurant of the store registry (store-registry.js). Older
+    // receipts were never matched.
+    11: (doc) => ({
+      ...doc,
+      matchedStoreId: doc.matchedStoreId || null,
+    }),
+    // v12 → v13: PENDING receipts whose queue message was lost are enqueued
+    // again (receipt-processing.js). Older receipts never were.
+    12: (doc) => ({
+      ...doc,
+      requeueCount: doc.requeueCount || 0,
+      requeuedAt: doc.requeuedAt || null,
+    }),
+    // v13 → v14: perceptual hash bands, the index of the near-duplicate
+    // lookup across users (receipts.js).
+    13: (doc) => ({
+      ...doc,
+      perceptualBands: Array.isArray(doc.perceptualBands)
+        ? doc.perceptualBands
+        : perceptualHashBands(doc.perceptualHash),
+    }),
+  },
+  reward: {
+    // v1 → v2: owner always in `userId` (legacy `user_id` / `user`),
+    // redemption fields always present.
+    1: (doc) => {
+      const { user_id, user, ...rest } = doc;
+      return {
+        ...rest,
+        userId: getRewardOwnerId(doc),
+        type: "reward",
+        tier: doc.tier || null,
+        qrCodeData: doc.qrCodeData || null,
+        redeemed: !!doc.redeemed,
+        redeemedAt: doc.redeemedAt || null,
+      };
+    },
+    // v2 → v3: rewards not redeemed when their owner deleted the account are
+    // voided (privacy.js). Older rewards never were.
+    2: (doc) => ({
+      ...doc,
+      voidedAt: doc.voidedAt || null,
+    }),
+  },
+};
+
+function detectKind(containerName, doc) {
+  const kinds = CONTAINER_KINDS[containerName] || [];
+  if (doc && kinds.includes(doc.type)) {
+    return doc.type;
+  }
+  return kinds[0] || null;
+}
+
+function getSchemaVersion(doc) {
+  const v = doc && Number(doc.schemaVersion);
+  return Number.isFinite(v) && v >= 1 ? v : 1;
+}
+
+// Returns the document in its current shape (a new object when it changed).
+function upgradeDocument(kind, doc) {
+  if (!doc || !CURRENT_SCHEMA_VERSIONS[kind]) {
+    return doc;
+  }
+
+  const target = CURRENT_SCHEMA_VERSIONS[kind];
+  let version = getSchemaVersion(doc);
+  let current = doc;
+
+  while (version < target) {
+    const step = upgrades[kind][version];
+    current = step ? step(current) : { ...current };
+    version += 1;
+  }
+
+  if (current.schemaVersion !== version) {
+    current = { ...current, schemaVersion: version };
+  }
+  return current;
+}
+
+// Stamps a freshly written document with the current version.
+function withSchemaVersion(kind, doc) {
+  return { ...doc, schemaVersion: CURRENT_SCHEMA_VERSIONS[kind] };
+}
+
+module.exports = {
+  CURRENT_SCHEMA_VERSIONS,
+  CONTAINER_KINDS,
+  getRewardOwnerId,
+  detectKind,
+  getSchemaVersion,
+  upgradeDocument,
+  withSchemaVersion,
+};
@@ -0,0 +1,66 @@
+// api/src/data/fake-db-file.js
+// Optional JSON-file persistence for the fake (local) store.
+// Set FAKE_DB_FILE=./.local-data/fake-db.json to keep balances, receipts and
+// rewards across `func start` restarts. Without it the fake store is in-memory.
+
+const fs = require("fs");
+const path = require("path");
+
+const STORE_FORMAT_VERSION = 1;
+
+function getStoreFilePath() {
+  const file = process.env.FAKE_DB_FILE;
+  return file ? path.resolve(file) : null;
+}
+
+function emptyState() {
+  return {
+    version: STORE_FORMAT_VERSION,
+    savedAt: null,
+    users: [],
+    ledger: {},
+    receipts: [],
+    rewards: [],
+    fingerprints: [],
+  };
+}
+
+function readStateFile(filePath) {
+  if (!filePath || !fs.existsSync(filePath)) {
+    return null;
+  }
+
+  const raw = fs.readFileSync(filePath, "utf8");
+  if (!raw.trim()) {
+    return null;
+  }
+
+  const parsed = JSON.parse(raw);
+  if (!parsed || typeof parsed !== "object") {
+    throw new Error(`Invalid fake store file: ${filePath}`);
+  }
+
+  return { ...emptyState(), ...parsed };
+}
+
+// Write to a temp file then rename, so a crash never leaves half a JSON file.
+function writeStateFile(filePath, state) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+  const tmpPath = `${filePath}.tmp`;
+  const payload = {
+    ...state,
+    version: STORE_FORMAT_VERSION,
+    savedAt: new Date().toISOString(),
+  };
+
+  fs.writeFileSync(tmpPath, JSON.stringify(payload, null, 2), "utf8");
+  fs.renameSync(tmpPath, filePath);
+}
+
+module.exports = {
+  getStoreFilePath,
+  emptyState,
+  readStateFile,
+  writeStateFile,
+};
@@ -1,54 +1,418 @@
 // api/src/data/fake-db.js
+// In-memory implementation of the storage repository (see repository.js),
+// used for local dev and optionally persisted to a JSON file.
 const { randomUUID } = require("crypto");
+const {
+  LEDGER_KINDS,
+  buildLedgerEntry,
+  needsOpeningEntry,
+  buildOpeningEntry,
+  applyEntries,
+  planOncePerSource,
+} = require("./ledger");
+const {
+  replayBatches,
+  batchLoader,
+  openBatches,
+  spendOldestFirst,
+  planExpiry,
+} = require("./point-batches");
+const { conflictError, withConflictRetry } = require("./concurrency");
+const {
+  buildFingerprint,
+  isStaleClaim,
+  duplicateReceiptError,
+  fingerprintIdsForReceipt,
+  completedFingerprint,
+} = require("./fingerprints");
+const {
+  CONTAINER_KINDS,
+  getRewardOwnerId,
+  upgradeDocument,
+  withSchemaVersion,
+} = require("./documents");
+const {
+  getStoreFilePath,
+  emptyState,
+  readStateFile,
+  writeStateFile,
+} = require("./fake-db-file");
+const {
+  anonymizedReceipt,
+  receiptWithPseudonymousDuplicateOf,
+  anonymizedReward,
+} = require("./privacy");
+const {
+  RECEIPT_STATUS,
+  countsTowardDailyLimit,
+  invalidContinuationTokenError,
+  receiptNotFoundError,
+  receiptStatusChangedError,
+} = require("./receipts");
+const { businessDayRange } = require("../config/business-time");
 
-const users = new Map(); // userId -> { userId, points }
+const users = new Map(); // userId -> { userId, points, ledgerSeq, ... } (ledger snapshot)
+const ledger = new Map(); // userId -> [ledger entries]
 const receipts = new Map(); // receiptId -> { ... }
 const rewards = new Map(); // rewardId -> { ... }
+const fingerprints = new Map(); // imageHash -> fingerprint (unique, like the Cosmos container)
+
+// Artificial delay between "read" and "write" of a ledger update.
+// With a delay > 0, concurrent calls interleave the same way they do against
+// Cosmos, so double-spend protection can be exercised locally.
+let simulatedLatencyMs = Number(process.env.FAKE_DB_LATENCY_MS) || 0;
+let etagCounter = 0;
+
+function nextEtag() {
+  etagCounter += 1;
+  return `"fake-${etagCounter}"`;
+}
+
+// ---------- persistence (FAKE_DB_FILE) ----------
+
+function exportState() {
+  const state = emptyState();
+  state.users = [...users.values()];
+  state.receipts = [...receipts.values()];
+  state.rewards = [...rewards.values()];
+  state.fingerprints = [...fingerprints.values()];
+  for (const [userId, entries] of ledger.entries()) {
+    state.ledger[userId] = entries;
+  }
+  return state;
+}
+
+function importState(state) {
+  users.clear();
+  ledger.clear();
+  receipts.clear();
+  rewards.clear();
+  fingerprints.clear();
+
+  const source = state || emptyState();
+  for (const u of source.users || []) users.set(u.userId || u.id, u);
+  for (const r of source.receipts || []) receipts.set(r.id, r);
+  for (const r of source.rewards || []) rewards.set(r.id, r);
+  for (const f of source.fingerprints || []) fingerprints.set(f.id, f);
+  for (const [userId, entries] of Object.entries(source.ledger || {})) {
+    ledger.set(userId, entries);
+  }
+
+  // keep ETags unique after a reload
+  for (const doc of [...users.values(), ...fingerprints.values()]) {
+    const m = /fake-(\d+)/.exec(doc._etag || "");
+    if (m) etagCounter = Math.max(etagCounter, parseInt(m[1], 10));
+  }
+}
+
+function persist() {
+  const filePath = getStoreFilePath();
+  if (filePath) {
+    writeStateFile(filePath, exportState());
+  }
+}
+
+function loadFromFile() {
+  const filePath = getStoreFilePath();
+  const state = readStateFile(filePath);
+  if (state) {
+    importState(state);
+  }
+}
+
+// Wipes everything (and the backing file when FAKE_DB_FILE is set).
+async function resetStore() {
+  importState(emptyState());
+  persist();
+}
+
+// Returns a copy of the whole store; also writes it to `targetPath` if given.
+async function snapshotStore(targetPath = null) {
+  const state = JSON.parse(JSON.stringify(exportState()));
+  if (targetPath) {
+    writeStateFile(targetPath, state);
+  }
+  return state;
+}
+
+async function restoreStore(sourcePath) {
+  const state = readStateFile(sourcePath);
+  if (!state) {
+    throw new Error(`Snapshot not found or empty: ${sourcePath}`);
+  }
+  importState(state);
+  persist();
+}
+
+function setSimulatedLatency(ms) {
+  simulatedLatencyMs = Number(ms) || 0;
+}
+
+function simulateLatency() {
+  if (!simulatedLatencyMs) return null;
+  return new Promise((resolve) => setTimeout(resolve, simulatedLatencyMs));
+}
 
 function ensureUser(userId) {
   if (!users.has(userId)) {
-    users.set(userId, { userId, points: 0 });
+    const nowIso = new Date().toISOString();
+    users.set(
+      userId,
+      withSchemaVersion("user", {
+        id: userId,
+        userId,
+        type: "user",
+        email: null,
+        points: 0,
+        ledgerSeq: 0,
+        pointBatches: [],
+        createdAt: nowIso,
+        updatedAt: nowIso,
+        _etag: nextEtag(),
+      })
+    );
+    persist();
   }
   return users.get(userId);
 }
 
+// Current-shape copy of the stored user (stored doc is left untouched).
+// Snapshots saved before pointBatches existed get them from the ledger.
+function readUser(userId) {
+  const user = upgradeDocument("user", clone(ensureUser(userId)));
+  if (!Array.isArray(user.pointBatches)) {
+    user.pointBatches = openBatches(replayBatches(ledgerFor(userId)));
+  }
+  return user;
+}
+
+function ledgerFor(userId) {
+  if (!ledger.has(userId)) {
+    ledger.set(userId, []);
+  }
+  return ledger.get(userId);
+}
+
+// Returned documents are copies, like the ones Cosmos hands back.
+function clone(doc) {
+  return doc ? JSON.parse(JSON.stringify(doc)) : doc;
+}
+
+function toUserView(user) {
+  return {
+    userId: user.userId,
+    points: user.points,
+    pointBatches: clone(user.pointBatches || []),
+    createdAt: user.createdAt || null,
+  };
+}
+
+// Same contract as the Cosmos version: read a snapshot, run `plan`, then
+// commit entry + snapshot only if nobody else committed in the meantime.
+async function commitLedgerChange(userId, plan) {
+  return withConflictRetry(async () => {
+    const snapshot = readUser(userId);
+    const nowIso = new Date().toISOString();
+    let base = snapshot;
+    let opening = null;
+
+    if (needsOpeningEntry(snapshot)) {
+      opening = buildOpeningEntry(userId, snapshot, nowIso);
+      base = { ...snapshot, points: opening.balanceAfter, ledgerSeq: opening.seq };
+    }
+
+    const loadEntries = async () => {
+      const stored = ledgerFor(userId).map((e) => upgradeDocument("ledger", clone(e)));
+      return opening ? [...stored, opening] : stored;
+    };
+
+    // The snapshot is caught up when its ledgerSeq is the last entry's
+    const entries = ledgerFor(userId);
+    const lastSeq = entries.reduce((max, e) => Math.max(max, e.seq), 0);
+    const loadBatches = batchLoader(
+      snapshot,
+      !opening && snapshot.ledgerSeq === lastSeq,
+      loadEntries
+    );
+
+    const change = await plan(toUserView(snapshot), loadEntries, loadBatches);
+    if (!change) {
+      return { user: toUserView(snapshot), entry: null };
+    }
+
+    await simulateLatency();
+
+    if (ensureUser(userId)._etag !== snapshot._etag) {
+      throw conflictError();
+    }
+
+    if (opening) {
+      entries.push(opening);
+    }
+
+    const entry = buildLedgerEntry(userId, base, change.delta, change.details, nowIso);
+    entries.push(entry);
+
+    const user = {
+      ...snapshot,
+      points: entry.balanceAfter,
+      ledgerSeq: entry.seq,
+      pointBatches: openBatches(
+        replayBatches(opening ? [opening, entry] : [entry], snapshot.pointBatches)
+      ),
+      updatedAt: nowIso,
+      _etag: nextEtag(),
+    };
+    users.set(userId, user);
+    persist();
+
+    return { user: toUserView(user), entry: clone(entry) };
+  });
+}
+
+async function appendLedgerEntry(userId, delta, details = {}, check = null) {
+  return commitLedgerChange(userId, async (user, loadEntries, loadBatches) => {
+    const extra = check ? await check(user, loadEntries, loadBatches) : null;
+    return { delta, details: extra ? { ...details, ...extra } : details };
+  });
+}
+
 async function getUser(userId) {
-  return ensureUser(userId);
+  return toUserView(readUser(userId));
 }
 
-async function addPoints(userId, delta) {
-  const user = ensureUser(userId);
-  user.points += delta;
-  return { userId, points: user.points };
+async function addPoints(userId, delta, details = {}) {
+  const { user } = await appendLedgerEntry(userId, delta, details);
+  return user;
+}
+
+// Credits a source (e.g. a receipt) at most once: { user, entry | null }.
+async function addPointsOnce(userId, delta, details) {
+  return commitLedgerChange(userId, planOncePerSource(delta, details));
+}
+
+async function listLedgerEntries(userId, limit = 50) {
+  const sorted = [...ledgerFor(userId)].sort((a, b) => b.seq - a.seq);
+  return (limit === null ? sorted : sorted.slice(0, limit))
+    .map((e) => upgradeDocument("ledger", clone(e)));
+}
+
+async function rebuildUserBalance(userId) {
+  let user = readUser(userId);
+  const entries = ledgerFor(userId);
+
+  if (entries.length) {
+    const rebuilt = applyEntries({ points: 0, ledgerSeq: 0 }, entries);
+    user = {
+      ...user,
+      points: rebuilt.points,
+      ledgerSeq: rebuilt.ledgerSeq,
+      pointBatches: openBatches(replayBatches(entries)),
+      updatedAt: new Date().toISOString(),
+      _etag: nextEtag(),
+    };
+    users.set(userId, user);
+    persist();
+  }
+
+  return toUserView(user);
+}
+
+async function expirePoints(userId, now = new Date()) {
+  return commitLedgerChange(userId, planExpiry(now));
+}
+
+async function listUsersWithPointsExpiringBetween(fromIso, toIso) {
+  const userIds = [];
+  for (const [userId, entries] of ledger.entries()) {
+    const expiring = entries.some(
+      (e) => e.expiresAt && e.expiresAt > fromIso && e.expiresAt <= toIso
+    );
+    if (expiring) userIds.push(userId);
+  }
+  return userIds;
 }
 
 async function createReceipt(userId, blobUrl, amount, pointsEarned, extras = {}) {
   const id = "fake-receipt-" + randomUUID();
   const nowIso = new Date().toISOString();
 
-  const receiptDoc = {
+  const receiptDoc = withSchemaVersion("receipt", {
     id,
     userId,
+    type: "receipt",
     blobUrl,
+    blobName: null,
+    status: RECEIPT_STATUS.ACCEPTED,
     amount,
     pointsEarned,
+    imageHash: null,
+    perceptualHash: null,
+    perceptualBands: [],
+    nearDuplicate: null,
+    merchantName: null,
+    receiptDate: null,
+    rawDateText: null,
+    storeId: null,
+    matchedStoreId: null,
+    ticketNumber: null,
+    transactionTime: null,
+    receiptKey: null,
+    duplicateOf: null,
+    items: [],
+    bonusPoints: 0,
+    bonuses: [],
+    reasons: [],
+    confidences: null,
+    review: null,
+    rejection: null,
+    failure: null,
+    requeueCount: 0,
+    requeuedAt: null,
     createdAt: nowIso,
+    processedAt: nowIso,
     ...extras,
-  };
+  });
 
   receipts.set(id, receiptDoc);
-  return receiptDoc;
+  persist();
+  return clone(receiptDoc);
 }
 
-async function countReceiptsForUserOnDay(userId, day) {
-  const d = day instanceof Date ? day : new Date(day);
+async function getReceipt(userId, receiptId) {
+  const r = receipts.get(receiptId);
+  return r && r.userId === userId ? upgradeDocument("receipt", clone(r)) : null;
+}
 
-  const start = new Date(d.getFullYear(), d.getMonth(), d.getDate());
-  const end = new Date(d.getFullYear(), d.getMonth(), d.getDate() + 1);
+// Read-merge-write without yielding, so it is atomic like the Cosmos IfMatch replace.
+async function updateReceipt(userId, receiptId, changes, { expectedStatus = null } = {}) {
+  const stored = receipts.get(receiptId);
+  if (!stored || stored.userId !== userId) {
+    throw receiptNotFoundError(receiptId);
+  }
+
+  const current = upgradeDocument("receipt", clone(stored));
+  if (expectedStatus && current.status !== expectedStatus) {
+    throw receiptStatusChangedError(receiptId, current.status);
+  }
+
+  const updated = withSchemaVersion("receipt", {
+    ...current,
+    ...changes,
+  });
+  receipts.set(receiptId, updated);
+  persist();
+  return clone(updated);
+}
+
+async function countReceiptsForUserOnDay(userId, day, { createdBefore = null } = {}) {
+  // Moroccan day, whatever the host's time zone
+  const { start, end } = businessDayRange(day instanceof Date ? day : new Date(day));
 
   let count = 0;
   for (const r of receipts.values()) {
-    if (r.userId !== userId) continue;
+    if (r.userId !== userId || !countsTowardDailyLimit(r)) continue;
+    if (createdBefore && !(r.createdAt < createdBefore)) continue;
     const created = new Date(r.createdAt);
     if (created >= start && created < end) {
       count += 1;
@@ -61,29 +425,165 @@ async function countReceiptsForUserOnDay(userId, day) {
 async function findReceiptByImageHash(imageHash) {
   for (const r of receipts.values()) {
     if (r.imageHash === imageHash) {
-      return r;
+      return upgradeDocument("receipt", clone(r));
     }
   }
   return null;
 }
 
-async function createReward(userId, name, pointsCost, tier = null) {
-  const user = ensureUser(userId);
+async function listReceiptsForUser(userId) {
+  return [...receipts.values()]
+    .filter((r) => r.userId === userId)
+    .map((r) => upgradeDocument("receipt", clone(r)))
+    .sort((a, b) => (b.createdAt || "").localeCompare(a.createdAt || ""));
+}
 
-  if (user.points < pointsCost) {
-    const err = new Error("Not enough points");
-    err.code = "NOT_ENOUGH_POINTS";
-    throw err;
+// Same paging contract as Cosmos; the continuation token is an offset.
+async function listReceiptsPageForUser(userId, { continuationToken = null, pageSize = 20 } = {}) {
+  const all = await listReceiptsForUser(userId);
+  const valid = /^\d+$/.test(continuationToken || "") && Number(continuationToken) <= all.length;
+  if (continuationToken && !valid) {
+    throw invalidContinuationTokenError();
   }
+  const offset = continuationToken ? Number(continuationToken) : 0;
+  const page = all.slice(offset, offset + pageSize);
+  const next = offset + page.length;
 
-  user.points -= pointsCost;
+  return {
+    receipts: page,
+    continuationToken: next < all.length ? String(next) : null,
+  };
+}
+
+function toPerceptualHashEntry(r) {
+  return {
+    id: r.id,
+    userId: r.userId,
+    status: r.status,
+    perceptualHash: r.perceptualHash,
+    createdAt: r.createdAt,
+  };
+}
+
+function newestFirst(a, b) {
+  return (b.createdAt || "").localeCompare(a.createdAt || "");
+}
+
+async function listReceiptPerceptualHashes(sinceIso, userId) {
+  return [...receipts.values()]
+    .filter(
+      (r) =>
+        typeof r.perceptualHash === "string" &&
+        (r.createdAt || "") >= sinceIso &&
+        r.userId === userId
+    )
+    .map(toPerceptualHashEntry)
+    .sort(newestFirst);
+}
+
+async function listReceiptPerceptualHashesInBands(sinceIso, bands) {
+  const wanted = new Set(bands || []);
+  return [...receipts.values()]
+    .filter(
+      (r) =>
+        (r.createdAt || "") >= sinceIso &&
+        Array.isArray(r.perceptualBands) &&
+        r.perceptualBands.some((band) => wanted.has(band))
+    )
+    .map(toPerceptualHashEntry)
+    .sort(newestFirst);
+}
+
+async function listReceiptsByStatus(status, limit = 50) {
+  return [...receipts.values()]
+    .filter((r) => r.status === status)
+    .map((r) => upgradeDocument("receipt", clone(r)))
+    .sort((a, b) => (a.createdAt || "").localeCompare(b.createdAt || ""))
+    .slice(0, limit);
+}
+
+async function countReceiptsByStore(fromIso, toIso) {
+  const counts = new Map(); // "storeId|status" -> { storeId, status, count }
+
+  for (const stored of receipts.values()) {
+    const r = upgradeDocument("receipt", stored);
+    if (!(r.createdAt >= fromIso && r.createdAt < toIso)) continue;
+
+    const key = `${r.matchedStoreId}|${r.status}`;
+    if (!counts.has(key)) {
+      counts.set(key, { storeId: r.matchedStoreId || null, status: r.status, count: 0 });
+    }
+    counts.get(key).count += 1;
+  }
 
+  return [...counts.values()];
+}
+
+// Same semantics as the Cosmos conditional create: the check and the insert
+// happen without yielding, so only one concurrent claim can win.
+async function claimReceiptFingerprint(imageHash, userId) {
+  const now = new Date();
+  const existing = fingerprints.get(imageHash);
+
+  if (existing && !isStaleClaim(existing, now)) {
+    throw duplicateReceiptError(existing);
+  }
+
+  const claim = { ...buildFingerprint(imageHash, userId, now.toISOString()), _etag: nextEtag() };
+  fingerprints.set(imageHash, claim);
+  persist();
+  return clone(claim);
+}
+
+async function completeReceiptFingerprint(claim, receiptId) {
+  const completed = {
+    ...completedFingerprint(claim, receiptId, new Date().toISOString()),
+    _etag: nextEtag(),
+  };
+  fingerprints.set(claim.id, completed);
+  persist();
+  return clone(completed);
+}
+
+async function releaseReceiptFingerprint(claim) {
+  const current = fingerprints.get(claim.id);
+  if (current && current._etag === claim._etag) {
+    fingerprints.delete(claim.id);
+    persist();
+  }
+}
+
+async function releaseReceiptFingerprintForReceipt(receipt) {
+  for (const id of fingerprintIdsForReceipt(receipt)) {
+    const fingerprint = fingerprints.get(id);
+    if (fingerprint && fingerprint.receiptId === receipt.id) {
+      fingerprints.delete(fingerprint.id);
+      persist();
+    }
+  }
+}
+
+async function createReward(userId, name, pointsCost, tier = null) {
   const id = "fake-reward-" + randomUUID();
+
+  const { user: updatedUser } = await appendLedgerEntry(
+    userId,
+    -pointsCost,
+    {
+      kind: LEDGER_KINDS.BURN,
+      reason: tier || "REWARD",
+      sourceType: "reward",
+      sourceId: id,
+    },
+    spendOldestFirst(pointsCost)
+  );
+
   const nowIso = new Date().toISOString();
 
-  const rewardDoc = {
+  const rewardDoc = withSchemaVersion("reward", {
     id,
     userId,
+    type: "reward",
     name,
     pointsCost,
     tier,
@@ -91,22 +591,27 @@ async function createReward(userId, name, pointsCost, tier = null) {
     redeemed: false,
     createdAt: nowIso,
     redeemedAt: null,
-  };
+    voidedAt: null,
+  });
 
   rewards.set(id, rewardDoc);
+  persist();
 
   return {
-    reward: rewardDoc,
-    user: { userId, points: user.points },
+    reward: clone(rewardDoc),
+    user: updatedUser,
   };
 }
 
+// Rewards are keyed by id here, which is what the Cosmos RewardCodes lookup provides
 async function redeemReward(rewardId) {
-  const reward = rewards.get(rewardId);
-  if (!reward) {
+  const stored = rewards.get(rewardId);
+  if (!stored) {
     return { found: false };
   }
 
+  const reward = upgradeDocument("reward", clone(stored));
+
   if (reward.redeemed) {
     return {
       found: true,
@@ -115,21 +620,32 @@ async function redeemReward(rewardId) {
     };
   }
 
+  // Its owner deleted the account before using it (privacy.js)
+  if (reward.voidedAt) {
+    return {
+      found: true,
+      voided: true,
+      reward,
+    };
+  }
+
   reward.redeemed = true;
   reward.redeemedAt = new Date().toISOString();
+  rewards.set(rewardId, reward);
+  persist();
 
   return {
     found: true,
     alreadyRedeemed: false,
-    reward,
+    reward: clone(reward),
   };
 }
 
 async function listRewardsForUser(userId) {
   const list = [];
   for (const r of rewards.values()) {
-    if (r.userId === userId) {
-      list.push(r);
+    if (getRewardOwnerId(r) === userId) {
+      list.push(upgradeDocument("reward", clone(r)));
     }
   }
 
@@ -142,13 +658,156 @@ async function listRewardsForUser(userId) {
   return list;
 }
 
+// ---------- ACCOUNT DELETION (see privacy.js) ----------
+
+async function anonymizeReceipts(userId, pseudonymId) {
+  const nowIso = new Date().toISOString();
+  let count = 0;
+
+  for (const receipt of [...receipts.values()]) {
+    if (receipt.userId !== userId) continue;
+    receipts.set(receipt.id, anonymizedReceipt(receipt, pseudonymId, nowIso));
+
+    for (const id of fingerprintIdsForReceipt(receipt)) {
+      const fingerprint = fingerprints.get(id);
+      if (fingerprint && fingerprint.userId === userId) {
+        fingerprints.set(fingerprint.id, { ...fingerprint, userId: pseudonymId });
+      }
+    }
+    count += 1;
+  }
+
+  for (const receipt of [...receipts.values()]) {
+    if (receipt.duplicateOf && receipt.duplicateOf.userId === userId) {
+      receipts.set(receipt.id, receiptWithPseudonymousDuplicateOf(receipt, userId, pseudonymId));
+    }
+  }
+
+  persist();
+  return count;
+}
+
+async function anonymizeRewards(userId, pseudonymId) {
+  const nowIso = new Date().toISOString();
+  let count = 0;
+
+  for (const reward of [...rewards.values()]) {
+    if (getRewardOwnerId(reward) !== userId) continue;
+    const { user_id, user, ...rest } = reward;
+    rewards.set(reward.id, anonymizedReward(rest, pseudonymId, nowIso));
+    count += 1;
+  }
+
+  persist();
+  return count;
+}
+
+async function deleteUser(userId) {
+  const count = (users.has(userId) ? 1 : 0) + (ledger.get(userId) || []).length;
+  users.delete(userId);
+  ledger.delete(userId);
+  persist();
+  return count;
+}
+
+// ---------- RAW DOCUMENTS (migrations) ----------
+
+function documentsIn(containerName) {
+  switch (containerName) {
+    case "users": {
+      const all = [...users.values()];
+      for (const entries of ledger.values()) all.push(...entries);
+      return all;
+    }
+    case "receipts":
+      return [...receipts.values()];
+    case "rewards":
+      return [...rewards.values()];
+    default:
+      throw new Error(`Unknown container "${containerName}"`);
+  }
+}
+
+// Same paging contract as Cosmos; the continuation token is an offset.
+async function listDocuments(containerName, { continuationToken = null, pageSize = 100 } = {}) {
+  const all = documentsIn(containerName);
+  const offset = continuationToken ? parseInt(continuationToken, 10) || 0 : 0;
+  const page = all.slice(offset, offset + pageSize).map(clone);
+  const next = offset + page.length;
+
+  return {
+    documents: page,
+    continuationToken: next < all.length ? String(next) : null,
+  };
+}
+
+async function saveDocument(containerName, doc, original) {
+  if (!CONTAINER_KINDS[containerName]) {
+    throw new Error(`Unknown container "${containerName}"`);
+  }
+
+  const saved = clone(doc);
+
+  if (containerName === "users" && saved.type === "ledger") {
+    const entries = ledgerFor(saved.userId);
+    const index = entries.findIndex((e) => e.id === (original || saved).id);
+    if (index >= 0) entries[index] = saved;
+    else entries.push(saved);
+  } else if (containerName === "users") {
+    const current = users.get(original ? original.userId || original.id : saved.userId);
+    if (original && current && current._etag !== original._etag) {
+      throw conflictError();
+    }
+    if (original && (original.userId || original.id) !== saved.userId) {
+      users.delete(original.userId || original.id);
+    }
+    saved._etag = nextEtag();
+    users.set(saved.userId, saved);
+  } else if (containerName === "receipts") {
+    receipts.set(saved.id, saved);
+  } else {
+    rewards.set(saved.id, saved);
+  }
+
+  persist();
+  return clone(saved);
+}
+
+loadFromFile();
+
 module.exports = {
+  resetStore,
+  snapshotStore,
+  restoreStore,
+  setSimulatedLatency,
   getUser,
   addPoints,
+  addPointsOnce,
+  listLedgerEntries,
+  rebuildUserBalance,
+  expirePoints,
+  listUsersWithPointsExpiringBetween,
   createReceipt,
+  getReceipt,
+  updateReceipt,
   createReward,
   redeemReward,
   countReceiptsForUserOnDay,
   findReceiptByImageHash,
+  listReceiptsForUser,
+  listReceiptsPageForUser,
+  listReceiptPerceptualHashes,
+  listReceiptPerceptualHashesInBands,
+  listReceiptsByStatus,
+  countReceiptsByStore,
+  claimReceiptFingerprint,
+  completeReceiptFingerprint,
+  releaseReceiptFingerprint,
+  releaseReceiptFingerprintForReceipt,
   listRewardsForUser,
+  anonymizeReceipts,
+  anonymizeRewards,
+  deleteUser,
+  listDocuments,
+  saveDocument,
 };
@@ -0,0 +1,85 @@
+// api/src/data/fingerprints.js
+// Receipt fingerprints: one document per image hash, created with a
+// conditional create before a receipt is processed. Whoever creates it owns
+// the image; every other upload of the same file gets DUPLICATE_RECEIPT, even
+// when both requests arrive at the same time. The canonical key of the paper
+// ticket (services/receipt-key.js) is claimed the same way, under
+// "ticket-<sha256 of the key>", once the receipt has been analyzed.
+//
+// Lifecycle: PENDING (claimed, upload in progress) → COMPLETED (receipt saved),
+// or deleted when the upload ends without a receipt. A PENDING claim older than
+// RECEIPT_FINGERPRINT_CLAIM_TTL_SECONDS (default 300) was left by a crashed
+// request and can be taken over.
+
+const crypto = require("crypto");
+const { withSchemaVersion } = require("./documents");
+
+const FINGERPRINT_STATUS = {
+  PENDING: "PENDING",
+  COMPLETED: "COMPLETED",
+};
+
+const CLAIM_TTL_MS =
+  (Number(process.env.RECEIPT_FINGERPRINT_CLAIM_TTL_SECONDS) || 300) * 1000;
+
+function buildFingerprint(imageHash, userId, nowIso) {
+  return withSchemaVersion("fingerprint", {
+    id: imageHash,
+    type: "fingerprint",
+    userId,
+    receiptId: null,
+    status: FINGERPRINT_STATUS.PENDING,
+    claimedAt: nowIso,
+    completedAt: null,
+  });
+}
+
+function isStaleClaim(fingerprint, now = new Date()) {
+  if (!fingerprint || fingerprint.status !== FINGERPRINT_STATUS.PENDING) {
+    return false;
+  }
+  const claimedAt = new Date(fingerprint.claimedAt).getTime();
+  return !Number.isFinite(claimedAt) || now.getTime() - claimedAt > CLAIM_TTL_MS;
+}
+
+// Carries the original claim, recorded on rejected receipts for fraud review.
+function duplicateReceiptError(existing) {
+  const err = new Error("This receipt has already been used.");
+  err.code = "DUPLICATE_RECEIPT";
+  err.receiptId = (existing && existing.receiptId) || null;
+  err.userId = (existing && existing.userId) || null;
+  err.claimedAt = (existing && existing.claimedAt) || null;
+  return err;
+}
+
+function receiptKeyFingerprintId(receiptKey) {
+  return `ticket-${crypto.createHash("sha256").update(receiptKey).digest("hex")}`;
+}
+
+// Every fingerprint a receipt may hold: its image hash and its ticket key.
+function fingerprintIdsForReceipt(receipt) {
+  if (!receipt) return [];
+  return [
+    receipt.imageHash || null,
+    receipt.receiptKey ? receiptKeyFingerprintId(receipt.receiptKey) : null,
+  ].filter(Boolean);
+}
+
+function completedFingerprint(claim, receiptId, nowIso) {
+  return {
+    ...claim,
+    receiptId,
+    status: FINGERPRINT_STATUS.COMPLETED,
+    completedAt: nowIso,
+  };
+}
+
+module.exports = {
+  FINGERPRINT_STATUS,
+  buildFingerprint,
+  isStaleClaim,
+  duplicateReceiptError,
+  receiptKeyFingerprintId,
+  fingerprintIdsForReceipt,
+  completedFingerprint,
+};
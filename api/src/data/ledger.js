@@ -0,0 +1,180 @@
+// api/src/data/ledger.js
+// Shared helpers for the points ledger.
+// Every balance change (earn, burn, adjustment) is written as an immutable entry
+// in the user's partition. The user document only keeps a cached snapshot
+// (`points` + `ledgerSeq`) that can always be rebuilt from the entries.
+//
+// Earned points expire POINTS_EXPIRY_DAYS (default 365) after they were
+// credited; see point-batches.js for how they are consumed and expired.
+
+const { CURRENT_SCHEMA_VERSIONS } = require("./documents");
+
+const LEDGER_KINDS = {
+  EARN: "EARN", // points credited for a receipt
+  BURN: "BURN", // points spent on a reward
+  ADJUST: "ADJUST", // manual correction / opening balance
+  EXPIRE: "EXPIRE", // points written off by the expiry job
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function safeNumber(value, fallback = 0) {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+function positiveNumberFromEnv(name, fallback) {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+const POINTS_EXPIRY_DAYS = positiveNumberFromEnv("POINTS_EXPIRY_DAYS", 365);
+
+function toIso(value) {
+  if (!value) return new Date().toISOString();
+  return value instanceof Date ? value.toISOString() : new Date(value).toISOString();
+}
+
+function addDays(iso, days) {
+  return new Date(new Date(iso).getTime() + days * DAY_MS).toISOString();
+}
+
+// Expiry date of points credited at `earnedAt`.
+function computePointsExpiry(earnedAt) {
+  return addDays(toIso(earnedAt), POINTS_EXPIRY_DAYS);
+}
+
+// Earned points and the opening balance expire; refunds pass their own date.
+function defaultExpiry(kind, delta, createdAt) {
+  if (delta <= 0) return null;
+  if (kind === LEDGER_KINDS.EARN) return computePointsExpiry(createdAt);
+  return null;
+}
+
+// Entry ids are derived from the sequence number, so two writers racing for the
+// same seq collide on the id instead of silently forking the ledger.
+function ledgerEntryId(seq) {
+  return `ledger-${String(seq).padStart(8, "0")}`;
+}
+
+function defaultKindForDelta(delta) {
+  return delta >= 0 ? LEDGER_KINDS.EARN : LEDGER_KINDS.ADJUST;
+}
+
+function buildLedgerEntry(userId, snapshot, delta, details = {}, nowIso) {
+  const previousSeq = safeNumber(snapshot && snapshot.ledgerSeq, 0);
+  const balanceBefore = safeNumber(snapshot && snapshot.points, 0);
+  const seq = previousSeq + 1;
+  const kind = details.kind || defaultKindForDelta(delta);
+  const createdAt = nowIso || new Date().toISOString();
+
+  const entry = {
+    id: ledgerEntryId(seq),
+    userId,
+    type: "ledger",
+    schemaVersion: CURRENT_SCHEMA_VERSIONS.ledger,
+    seq,
+    kind,
+    delta,
+    reason: details.reason || null,
+    sourceType: details.sourceType || null,
+    sourceId: details.sourceId || null,
+    expiresAt:
+      details.expiresAt !== undefined
+        ? details.expiresAt
+        : defaultExpiry(kind, delta, createdAt),
+    balanceBefore,
+    balanceAfter: balanceBefore + delta,
+    createdAt,
+  };
+
+  // Which batches a debit used up (BURN) or wrote off (EXPIRE)
+  if (details.consumedBatches) entry.consumedBatches = details.consumedBatches;
+  if (details.expiredBatches) entry.expiredBatches = details.expiredBatches;
+
+  return entry;
+}
+
+// Legacy users have a `points` field but no ledger yet. Their current balance
+// becomes an opening ADJUST entry the first time the ledger is written.
+function needsOpeningEntry(snapshot) {
+  if (!snapshot) return false;
+  const hasSeq = snapshot.ledgerSeq !== undefined && snapshot.ledgerSeq !== null;
+  return !hasSeq && safeNumber(snapshot.points, 0) !== 0;
+}
+
+function buildOpeningEntry(userId, snapshot, nowIso) {
+  const points = safeNumber(snapshot && snapshot.points, 0);
+  return buildLedgerEntry(
+    userId,
+    { points: 0, ledgerSeq: 0 },
+    points,
+    {
+      kind: LEDGER_KINDS.ADJUST,
+      reason: "OPENING_BALANCE",
+      sourceType: "migration",
+      // the legacy balance starts its validity when it enters the ledger
+      expiresAt: computePointsExpiry(nowIso),
+    },
+    nowIso
+  );
+}
+
+// Applies entries (sorted by seq) on top of a snapshot.
+function applyEntries(snapshot, entries) {
+  let points = safeNumber(snapshot && snapshot.points, 0);
+  let ledgerSeq = safeNumber(snapshot && snapshot.ledgerSeq, 0);
+
+  const sorted = [...(entries || [])].sort((a, b) => a.seq - b.seq);
+  for (const entry of sorted) {
+    if (entry.seq <= ledgerSeq) continue;
+    points += safeNumber(entry.delta, 0);
+    ledgerSeq = entry.seq;
+  }
+
+  return { points, ledgerSeq };
+}
+
+function toLedgerView(entry) {
+  return {
+    id: entry.id,
+    seq: entry.seq,
+    kind: entry.kind,
+    delta: entry.delta,
+    reason: entry.reason || null,
+    sourceType: entry.sourceType || null,
+    sourceId: entry.sourceId || null,
+    expiresAt: entry.expiresAt || null,
+    balanceAfter: entry.balanceAfter,
+    createdAt: entry.createdAt || null,
+  };
+}
+
+// Ledger change that is skipped when the ledger already has an entry for the
+// same source (queue messages can be delivered more than once).
+function planOncePerSource(delta, details) {
+  return async (user, loadEntries) => {
+    const entries = await loadEntries();
+    const recorded = entries.some(
+      (e) => e.sourceType === details.sourceType && e.sourceId === details.sourceId
+    );
+    return recorded ? null : { delta, details };
+  };
+}
+
+module.exports = {
+  LEDGER_KINDS,
+  POINTS_EXPIRY_DAYS,
+  safeNumber,
+  positiveNumberFromEnv,
+  toIso,
+  addDays,
+  computePointsExpiry,
+  ledgerEntryId,
+  buildLedgerEntry,
+  needsOpeningEntry,
+  buildOpeningEntry,
+  applyEntries,
+  toLedgerView,
+  planOncePerSource,
+};
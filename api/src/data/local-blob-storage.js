@@ -0,0 +1,234 @@
+// api/src/data/local-blob-storage.js
+// Filesystem stand-in for Blob Storage, for local development without Azure
+// or Azurite. Set RECEIPTS_STORAGE_LOCAL_DIR=./.local-data/receipts.
+//
+// Each image is a file under the directory (same "<userId>/…" names as in
+// Azure) with a ".meta.json" sidecar holding its content type. Direct uploads
+// go to the local-receipt-upload function and images are read through
+// local-receipt-image, with HMAC-signed URLs playing the role of SAS tokens.
+
+const fs = require("fs");
+const path = require("path");
+const crypto = require("crypto");
+const { pipeline } = require("stream/promises");
+
+const META_SUFFIX = ".meta.json";
+
+// Signs local upload / read URLs. Without LOCAL_UPLOAD_SECRET the URLs are only valid
+// for the lifetime of the `func start` process.
+const uploadSecret =
+  process.env.LOCAL_UPLOAD_SECRET || crypto.randomBytes(32).toString("hex");
+
+function getRootDir() {
+  const dir = process.env.RECEIPTS_STORAGE_LOCAL_DIR;
+  return dir ? path.resolve(dir) : null;
+}
+
+function isBlobStorageConfigured() {
+  return !!getRootDir();
+}
+
+// Maps a blob name to a file path, refusing anything outside the directory.
+function resolveBlobPath(blobName) {
+  const root = getRootDir();
+  if (!root) {
+    throw new Error("No RECEIPTS_STORAGE_LOCAL_DIR configured.");
+  }
+
+  const filePath = path.resolve(root, blobName);
+  if (!filePath.startsWith(root + path.sep) || filePath.endsWith(META_SUFFIX)) {
+    const err = new Error(`Invalid blob name: ${blobName}`);
+    err.code = "INVALID_BLOB_NAME";
+    throw err;
+  }
+  return filePath;
+}
+
+async function uploadBlob(blobName, contentType, buffer) {
+  const filePath = resolveBlobPath(blobName);
+
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.promises.writeFile(filePath, buffer);
+  await fs.promises.writeFile(
+    filePath + META_SUFFIX,
+    JSON.stringify({ contentType: contentType || null }, null, 2)
+  );
+
+  return getBlobUrl(blobName);
+}
+
+// Writes the stream to the file as it comes (large blobs, e.g. data exports).
+async function uploadStream(blobName, contentType, stream) {
+  const filePath = resolveBlobPath(blobName);
+
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  await pipeline(stream, fs.createWriteStream(filePath));
+  await fs.promises.writeFile(
+    filePath + META_SUFFIX,
+    JSON.stringify({ contentType: contentType || null }, null, 2)
+  );
+
+  return getBlobUrl(blobName);
+}
+
+// purpose ("upload" | "read") keeps one kind of URL from being used as the other
+function sign(purpose, blobName, contentType, expires) {
+  return crypto
+    .createHmac("sha256", uploadSecret)
+    .update(`${purpose}\n${blobName}\n${contentType || ""}\n${expires}`)
+    .digest("hex");
+}
+
+function verifySignature(purpose, { blobName, contentType, expires, sig }) {
+  const expected = sign(purpose, blobName, contentType, expires);
+  const valid =
+    typeof sig === "string" &&
+    sig.length === expected.length &&
+    crypto.timingSafeEqual(Buffer.from(sig), Buffer.from(expected));
+
+  if (!valid) {
+    const err = new Error(`Invalid ${purpose} signature`);
+    err.code = purpose === "upload" ? "INVALID_UPLOAD_SIGNATURE" : "INVALID_READ_SIGNATURE";
+    throw err;
+  }
+  if (!(Number(expires) > Date.now())) {
+    const err = new Error(`${purpose === "upload" ? "Upload" : "Read"} URL expired`);
+    err.code = purpose === "upload" ? "UPLOAD_URL_EXPIRED" : "READ_URL_EXPIRED";
+    throw err;
+  }
+
+  resolveBlobPath(blobName);
+}
+
+// Relative URL: the app reaches it through the same /api proxy as every call.
+async function createUploadUrl(blobName, contentType, expiresOn) {
+  resolveBlobPath(blobName);
+
+  const expires = String(expiresOn.getTime());
+  const params = new URLSearchParams({
+    blobName,
+    contentType: contentType || "",
+    expires,
+    sig: sign("upload", blobName, contentType, expires),
+  });
+  return `/api/local-receipt-upload?${params.toString()}`;
+}
+
+// Checks a local upload URL; returns { blobName, contentType } or throws.
+function verifyUploadUrl({ blobName, contentType, expires, sig }) {
+  verifySignature("upload", { blobName, contentType, expires, sig });
+  return { blobName, contentType: contentType || null };
+}
+
+// Read-only URL served by local-receipt-image (relative, like upload URLs).
+async function createReadUrl(blobName, expiresOn) {
+  resolveBlobPath(blobName);
+
+  const expires = String(expiresOn.getTime());
+  const params = new URLSearchParams({
+    blobName,
+    expires,
+    sig: sign("read", blobName, null, expires),
+  });
+  return `/api/local-receipt-image?${params.toString()}`;
+}
+
+// Checks a local read URL; returns { blobName } or throws.
+function verifyReadUrl({ blobName, expires, sig }) {
+  verifySignature("read", { blobName, contentType: null, expires, sig });
+  return { blobName };
+}
+
+async function readMeta(filePath) {
+  try {
+    return JSON.parse(await fs.promises.readFile(filePath + META_SUFFIX, "utf8"));
+  } catch {
+    return {};
+  }
+}
+
+// Returns { buffer, contentType, size } or null if the file does not exist.
+// maxBytes: a larger file is refused (FILE_TOO_LARGE) before it is read.
+async function readBlob(blobName, { maxBytes = null } = {}) {
+  const filePath = resolveBlobPath(blobName);
+
+  let buffer;
+  try {
+    const stat = await fs.promises.stat(filePath);
+    if (maxBytes !== null && stat.size > maxBytes) {
+      const err = new Error(`Blob ${blobName} is ${stat.size} bytes (max ${maxBytes}).`);
+      err.code = "FILE_TOO_LARGE";
+      throw err;
+    }
+    buffer = await fs.promises.readFile(filePath);
+  } catch (err) {
+    if (err.code === "ENOENT") {
+      return null;
+    }
+    throw err;
+  }
+
+  const meta = await readMeta(filePath);
+  return {
+    buffer,
+    contentType: meta.contentType || null,
+    size: buffer.length,
+  };
+}
+
+function getBlobUrl(blobName) {
+  return `file://${resolveBlobPath(blobName)}`;
+}
+
+async function deleteBlob(blobName) {
+  const filePath = resolveBlobPath(blobName);
+  await fs.promises.rm(filePath, { force: true });
+  await fs.promises.rm(filePath + META_SUFFIX, { force: true });
+}
+
+async function listBlobs(prefix) {
+  const root = getRootDir();
+  const dir = path.join(root, prefix);
+  const blobs = [];
+
+  let names;
+  try {
+    names = await fs.promises.readdir(dir);
+  } catch (err) {
+    if (err.code === "ENOENT") {
+      return blobs;
+    }
+    throw err;
+  }
+
+  for (const name of names) {
+    if (name.endsWith(META_SUFFIX)) continue;
+
+    const filePath = path.join(dir, name);
+    const stat = await fs.promises.stat(filePath);
+    if (!stat.isFile()) continue;
+
+    const meta = await readMeta(filePath);
+    blobs.push({
+      name: `${prefix}${name}`,
+      size: stat.size,
+      contentType: meta.contentType || null,
+    });
+  }
+
+  return blobs;
+}
+
+module.exports = {
+  isBlobStorageConfigured,
+  uploadBlob,
+  uploadStream,
+  createUploadUrl,
+  verifyUploadUrl,
+  createReadUrl,
+  verifyReadUrl,
+  readBlob,
+  getBlobUrl,
+  deleteBlob,
+  listBlobs,
+};
@@ -0,0 +1,111 @@
+// api/src/data/migrations.js
+// Walks the Users, Receipts and Rewards containers and rewrites every
+// document that is behind its current schemaVersion (see documents.js).
+// Works against any storage backend through listDocuments / saveDocument.
+
+const {
+  CONTAINER_KINDS,
+  detectKind,
+  getSchemaVersion,
+  upgradeDocument,
+} = require("./documents");
+
+function isSystemProperty(key) {
+  return key.startsWith("_");
+}
+
+// Short human-readable list of what the upgrade changes: +added -removed ~changed
+function describeChanges(before, after) {
+  const changes = [];
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  for (const key of keys) {
+    if (isSystemProperty(key)) continue;
+
+    const inBefore = Object.prototype.hasOwnProperty.call(before, key);
+    const inAfter = Object.prototype.hasOwnProperty.call(after, key);
+
+    if (!inBefore) {
+      changes.push(`+${key}`);
+    } else if (!inAfter) {
+      changes.push(`-${key}`);
+    } else if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changes.push(`~${key}`);
+    }
+  }
+
+  return changes;
+}
+
+async function migrateContainer(
+  repository,
+  containerName,
+  { dryRun = true, pageSize = 100, log = console.log } = {}
+) {
+  const summary = {
+    container: containerName,
+    scanned: 0,
+    upgraded: 0,
+    upToDate: 0,
+    failed: 0,
+  };
+  const prefix = dryRun ? "[dry-run] " : "";
+
+  let continuationToken = null;
+  do {
+    const page = await repository.listDocuments(containerName, {
+      continuationToken,
+      pageSize,
+    });
+
+    for (const doc of page.documents) {
+      summary.scanned += 1;
+
+      const kind = detectKind(containerName, doc);
+      const upgraded = upgradeDocument(kind, doc);
+      const changes = describeChanges(doc, upgraded);
+
+      if (!changes.length) {
+        summary.upToDate += 1;
+        continue;
+      }
+
+      log(
+        `${prefix}${containerName}/${doc.id} ${kind} v${getSchemaVersion(doc)} → v${upgraded.schemaVersion}: ${changes.join(" ")}`
+      );
+
+      if (!dryRun) {
+        try {
+          await repository.saveDocument(containerName, upgraded, doc);
+        } catch (err) {
+          summary.failed += 1;
+          log(`  ✗ ${containerName}/${doc.id}: ${err && err.message ? err.message : err}`);
+          continue;
+        }
+      }
+
+      summary.upgraded += 1;
+    }
+
+    continuationToken = page.continuationToken;
+  } while (continuationToken);
+
+  return summary;
+}
+
+async function runMigrations(repository, options = {}) {
+  const containers = options.containers || Object.keys(CONTAINER_KINDS);
+  const summaries = [];
+
+  for (const containerName of containers) {
+    summaries.push(await migrateContainer(repository, containerName, options));
+  }
+
+  return summaries;
+}
+
+module.exports = {
+  describeChanges,
+  migrateContainer,
+  runMigrations,
+};
@@ -0,0 +1,223 @@
+// api/src/data/point-batches.js
+// Points expiry: every credit in the ledger is a "batch" of Couronnes with its
+// own expiry date. Spending consumes the oldest batches first (FIFO) and the
+// expiry job writes an EXPIRE entry for whatever is left of old batches.
+//
+// Batches are never stored on their own: the user snapshot caches the ones
+// still holding points (`pointBatches`), updated in the same write as `points`
+// from the entries it applies, and always rebuildable by replaying the ledger.
+//
+// Config (app settings):
+//   POINTS_EXPIRING_SOON_DAYS  window of the "expiring soon" warning (default 30)
+// (the validity itself, POINTS_EXPIRY_DAYS, is applied in ledger.js)
+
+const {
+  LEDGER_KINDS,
+  safeNumber,
+  positiveNumberFromEnv,
+  toIso,
+  addDays,
+} = require("./ledger");
+
+const POINTS_EXPIRING_SOON_DAYS = positiveNumberFromEnv(
+  "POINTS_EXPIRING_SOON_DAYS",
+  30
+);
+
+function isExpiredAt(batch, atIso) {
+  return !!batch.expiresAt && batch.expiresAt <= atIso;
+}
+
+// Takes `amount` points from the batches that are still valid at `atIso`,
+// oldest first. Returns the allocations and what could not be covered.
+function allocateOldestFirst(batches, amount, atIso) {
+  const allocations = [];
+  let missing = amount;
+
+  for (const batch of batches) {
+    if (missing <= 0) break;
+    if (batch.remaining <= 0 || isExpiredAt(batch, atIso)) continue;
+
+    const points = Math.min(batch.remaining, missing);
+    allocations.push({
+      entryId: batch.entryId,
+      points,
+      expiresAt: batch.expiresAt,
+    });
+    missing -= points;
+  }
+
+  return { allocations, missing };
+}
+
+function applyAllocations(batches, allocations) {
+  for (const allocation of allocations || []) {
+    const batch = batches.find((b) => b.entryId === allocation.entryId);
+    if (batch) {
+      batch.remaining -= safeNumber(allocation.points, 0);
+    }
+  }
+}
+
+// Applies one ledger entry to `batches` (in place); entries go in seq order.
+// Debits that predate expiry tracking (or plain negative adjustments) carry no
+// allocation: they are replayed FIFO as of their own date.
+function applyEntryToBatches(batches, entry) {
+  const delta = safeNumber(entry.delta, 0);
+
+  if (delta > 0) {
+    batches.push({
+      entryId: entry.id,
+      earnedAt: entry.createdAt || null,
+      expiresAt: entry.expiresAt || null,
+      amount: delta,
+      remaining: delta,
+    });
+    return;
+  }
+
+  if (delta < 0) {
+    const recorded = entry.expiredBatches || entry.consumedBatches;
+    const allocations = recorded
+      ? recorded
+      : allocateOldestFirst(batches, -delta, entry.createdAt || toIso()).allocations;
+    applyAllocations(batches, allocations);
+  }
+}
+
+// Replays ledger entries (any order) into batches, in earning order, on top
+// of `batches` (e.g. the snapshot's pointBatches) when given.
+function replayBatches(entries, batches = []) {
+  const replayed = (batches || []).map((batch) => ({ ...batch }));
+  const sorted = [...(entries || [])].sort((a, b) => a.seq - b.seq);
+
+  for (const entry of sorted) {
+    applyEntryToBatches(replayed, entry);
+  }
+
+  return replayed;
+}
+
+// The batches a ledger change works on, for plans that take
+// (user, loadEntries, loadBatches): the snapshot's cached pointBatches when
+// it is caught up with the ledger (its ledgerSeq is the last entry's seq),
+// otherwise a replay of the whole ledger (legacy snapshot, opening entry
+// about to be written).
+function batchLoader(snapshot, caughtUp, loadEntries) {
+  return async () =>
+    caughtUp && Array.isArray(snapshot.pointBatches)
+      ? snapshot.pointBatches.map((batch) => ({ ...batch }))
+      : replayBatches(await loadEntries());
+}
+
+// What the user snapshot keeps: batches used up or written off can no longer
+// change the balance.
+function openBatches(batches) {
+  return (batches || []).filter((batch) => batch.remaining > 0);
+}
+
+// Balance breakdown of `batches` at `now`:
+//   expired       points past their expiry the job hasn't written off yet
+//   expiringSoon  valid points expiring within the warning window
+function summarizeBatches(batches, now = new Date(), soonDays = POINTS_EXPIRING_SOON_DAYS) {
+  const nowIso = toIso(now);
+  const soonIso = addDays(nowIso, soonDays);
+
+  let expired = 0;
+  const expiringSoon = [];
+
+  for (const batch of batches || []) {
+    if (batch.remaining <= 0 || !batch.expiresAt) continue;
+
+    if (batch.expiresAt <= nowIso) {
+      expired += batch.remaining;
+    } else if (batch.expiresAt <= soonIso) {
+      expiringSoon.push({ points: batch.remaining, expiresAt: batch.expiresAt });
+    }
+  }
+
+  return {
+    expired,
+    expiringSoon: {
+      days: soonDays,
+      points: expiringSoon.reduce((sum, b) => sum + b.points, 0),
+      batches: expiringSoon,
+    },
+  };
+}
+
+// Balance of a user snapshot (getUser) at `now`: points past their expiry
+// are not spendable, even before the expiry job writes them off.
+// -> { points, expiringSoon }
+function summarizeBalance(user, now = new Date()) {
+  const { expired, expiringSoon } = summarizeBatches(user.pointBatches, now);
+  return {
+    points: Math.max(0, safeNumber(user.points, 0) - expired),
+    expiringSoon,
+  };
+}
+
+// Reward check: only points that are still valid can be spent, oldest first.
+// Returns the allocation so the BURN entry records which batches it used.
+function spendOldestFirst(pointsCost, now = null) {
+  return async (user, loadEntries, loadBatches) => {
+    const atIso = toIso(now);
+    const batches = await loadBatches();
+    const { allocations, missing } = allocateOldestFirst(batches, pointsCost, atIso);
+
+    if (missing > 0) {
+      const err = new Error("Not enough points");
+      err.code = "NOT_ENOUGH_POINTS";
+      throw err;
+    }
+
+    return { consumedBatches: allocations };
+  };
+}
+
+// Ledger change that writes off every expired batch (null when nothing expired).
+function planExpiry(now = null) {
+  return async (user, loadEntries, loadBatches) => {
+    const atIso = toIso(now);
+    const expiredBatches = (await loadBatches())
+      .filter((batch) => batch.remaining > 0 && isExpiredAt(batch, atIso))
+      .map((batch) => ({
+        entryId: batch.entryId,
+        points: batch.remaining,
+        expiresAt: batch.expiresAt,
+      }));
+
+    if (!expiredBatches.length) {
+      return null;
+    }
+
+    const total = expiredBatches.reduce((sum, b) => sum + b.points, 0);
+    return {
+      delta: -total,
+      details: {
+        kind: LEDGER_KINDS.EXPIRE,
+        reason: "POINTS_EXPIRED",
+        sourceType: "expiry",
+        expiredBatches,
+      },
+    };
+  };
+}
+
+// Earliest expiry among allocations (used when giving points back).
+function earliestExpiry(allocations) {
+  const dates = (allocations || []).map((a) => a.expiresAt).filter(Boolean).sort();
+  return dates.length ? dates[0] : null;
+}
+
+module.exports = {
+  POINTS_EXPIRING_SOON_DAYS,
+  replayBatches,
+  batchLoader,
+  openBatches,
+  summarizeBatches,
+  summarizeBalance,
+  spendOldestFirst,
+  planExpiry,
+  earliestExpiry,
+};
@@ -0,0 +1,48 @@
+// api/src/data/points-expiry.js
+// Daily expiry job: writes off the Couronnes whose validity ended.
+// Used by the `expire-points` function (timer / operations endpoint) and
+// `npm run expire-points`.
+//
+// Only users holding a batch that expired in the last POINTS_EXPIRY_LOOKBACK_DAYS
+// (default 7) are visited, so a few missed runs are caught up without scanning
+// every user. Expiring twice is harmless: the second run finds nothing left.
+
+const { positiveNumberFromEnv, addDays, toIso } = require("./ledger");
+
+const POINTS_EXPIRY_LOOKBACK_DAYS = positiveNumberFromEnv(
+  "POINTS_EXPIRY_LOOKBACK_DAYS",
+  7
+);
+
+async function runPointsExpiry(
+  repository,
+  { now = new Date(), lookbackDays = POINTS_EXPIRY_LOOKBACK_DAYS, log = console.log } = {}
+) {
+  const nowIso = toIso(now);
+  const fromIso = addDays(nowIso, -lookbackDays);
+  const userIds = await repository.listUsersWithPointsExpiringBetween(fromIso, nowIso);
+
+  const summary = { users: userIds.length, expiredUsers: 0, expiredPoints: 0, errors: 0 };
+
+  for (const userId of userIds) {
+    try {
+      const { entry } = await repository.expirePoints(userId, nowIso);
+      if (entry) {
+        summary.expiredUsers += 1;
+        summary.expiredPoints += -entry.delta;
+        log(`expired ${-entry.delta} points for ${userId}`);
+      }
+    } catch (err) {
+      // One broken user must not stop the whole run; it is retried tomorrow
+      summary.errors += 1;
+      log(`failed to expire points for ${userId}: ${err && err.message ? err.message : err}`);
+    }
+  }
+
+  return summary;
+}
+
+module.exports = {
+  POINTS_EXPIRY_LOOKBACK_DAYS,
+  runPointsExpiry,
+};
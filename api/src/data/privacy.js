@@ -0,0 +1,76 @@
+// api/src/data/privacy.js
+// Anonymized shapes used when a customer deletes their account (law 09-08 /
+// CNDP requests). Receipts, rewards and fingerprints are kept for anti-fraud
+// and store reconciliation, but moved to a pseudonymous owner and stripped of
+// anything that points back to the person (image URL, QR data). Rewards not
+// redeemed yet are voided: a screenshot of the QR code no longer works.
+//
+// The pseudonym is an HMAC of the user id keyed by PRIVACY_PSEUDONYM_SECRET, so
+// re-running an interrupted deletion lands on the same pseudonym, and other
+// users' receipts pointing at the deleted one (duplicateOf) get the same
+// pseudonym too. Without the secret, deletion refuses to start.
+
+const crypto = require("crypto");
+
+const PSEUDONYM_PREFIX = "deleted-";
+
+function pseudonymFor(userId) {
+  const secret = process.env.PRIVACY_PSEUDONYM_SECRET;
+  if (!secret) {
+    const err = new Error("PRIVACY_PSEUDONYM_SECRET is not configured");
+    err.code = "PSEUDONYM_SECRET_MISSING";
+    throw err;
+  }
+  const digest = crypto.createHmac("sha256", secret).update(userId).digest("hex");
+  return `${PSEUDONYM_PREFIX}${digest.slice(0, 32)}`;
+}
+
+function withoutSystemProperties(doc) {
+  const { _rid, _self, _etag, _attachments, _ts, ...body } = doc;
+  return body;
+}
+
+// The original claim of a duplicate, with the deleted owner replaced.
+function pseudonymousDuplicateOf(duplicateOf, userId, pseudonymId) {
+  if (!duplicateOf || duplicateOf.userId !== userId) {
+    return duplicateOf || null;
+  }
+  return { ...duplicateOf, userId: pseudonymId };
+}
+
+function anonymizedReceipt(receipt, pseudonymId, nowIso) {
+  return {
+    ...withoutSystemProperties(receipt),
+    userId: pseudonymId,
+    blobUrl: null,
+    blobName: null,
+    duplicateOf: pseudonymousDuplicateOf(receipt.duplicateOf, receipt.userId, pseudonymId),
+    anonymizedAt: nowIso,
+  };
+}
+
+// Receipt of another user whose duplicateOf points at the deleted one.
+function receiptWithPseudonymousDuplicateOf(receipt, userId, pseudonymId) {
+  return {
+    ...withoutSystemProperties(receipt),
+    duplicateOf: pseudonymousDuplicateOf(receipt.duplicateOf, userId, pseudonymId),
+  };
+}
+
+function anonymizedReward(reward, pseudonymId, nowIso) {
+  return {
+    ...withoutSystemProperties(reward),
+    userId: pseudonymId,
+    qrCodeData: null,
+    voidedAt: reward.voidedAt || (reward.redeemed ? null : nowIso),
+    anonymizedAt: nowIso,
+  };
+}
+
+module.exports = {
+  pseudonymFor,
+  withoutSystemProperties,
+  anonymizedReceipt,
+  receiptWithPseudonymousDuplicateOf,
+  anonymizedReward,
+};
@@ -0,0 +1,84 @@
+// api/src/data/receipts.js
+// Receipt lifecycle. An upload is saved right away as PENDING and processed
+// by the receipt queue (services/receipt-queue.js):
+//   PENDING → ACCEPTED        points credited
+//           → REJECTED        business rule (reason codes in `error` / `reasons`)
+//           → FAILED          processing kept failing (poison message)
+//           → PENDING_REVIEW  uncertain (amount or merchant not read, near-duplicate):
+//                             parked with its image until a reviewer approves it
+//                             (→ ACCEPTED, points credited then) or rejects it
+// Receipts written before asynchronous processing are ACCEPTED.
+
+const RECEIPT_STATUS = {
+  PENDING: "PENDING",
+  ACCEPTED: "ACCEPTED",
+  REJECTED: "REJECTED",
+  FAILED: "FAILED",
+  PENDING_REVIEW: "PENDING_REVIEW",
+};
+
+const REVIEW_DECISIONS = {
+  APPROVED: "APPROVED",
+  REJECTED: "REJECTED",
+};
+
+// Accepted receipts count toward the daily limit, and the ones that may still
+// be accepted: waiting for processing or for a review.
+function countsTowardDailyLimit(receipt) {
+  const status = (receipt && (receipt.status || RECEIPT_STATUS.ACCEPTED)) || null;
+  return (
+    status === RECEIPT_STATUS.ACCEPTED ||
+    status === RECEIPT_STATUS.PENDING ||
+    status === RECEIPT_STATUS.PENDING_REVIEW
+  );
+}
+
+function receiptNotFoundError(receiptId) {
+  const err = new Error(`Receipt not found: ${receiptId}`);
+  err.code = "RECEIPT_NOT_FOUND";
+  return err;
+}
+
+// updateReceipt with expectedStatus: someone else moved the receipt first
+// (e.g. two reviewers deciding at the same time).
+function receiptStatusChangedError(receiptId, status) {
+  const err = new Error(`Receipt ${receiptId} is ${status} now.`);
+  err.code = "RECEIPT_STATUS_CHANGED";
+  err.status = status;
+  return err;
+}
+
+// listReceiptsPageForUser: a token that is malformed, expired or from
+// another query.
+function invalidContinuationTokenError() {
+  const err = new Error("The continuation token is invalid or has expired.");
+  err.code = "INVALID_CONTINUATION_TOKEN";
+  return err;
+}
+
+// The 256-bit perceptual hash (services/perceptual-hash.js) cut into its 16
+// rows of 16 bits, stored as "<row>:<4 hex digits>". Other users' receipts
+// are looked up by band instead of scanned (services/near-duplicates.js).
+const PERCEPTUAL_BAND_HEX_DIGITS = 4;
+
+function perceptualHashBands(perceptualHash) {
+  if (typeof perceptualHash !== "string") {
+    return [];
+  }
+  const bands = [];
+  for (let i = 0; i * PERCEPTUAL_BAND_HEX_DIGITS < perceptualHash.length; i += 1) {
+    const start = i * PERCEPTUAL_BAND_HEX_DIGITS;
+    bands.push(`${i}:${perceptualHash.slice(start, start + PERCEPTUAL_BAND_HEX_DIGITS)}`);
+  }
+  return bands;
+}
+
+module.exports = {
+  RECEIPT_STATUS,
+  REVIEW_DECISIONS,
+  countsTowardDailyLimit,
+  perceptualHashBands,
+  invalidContinuationTokenError,
+  receiptNotFoundError,
+  receiptStatusChangedError,
+};
@@ -0,0 +1,698 @@
+// api/src/data/repository-conformance.js
+// Behavioural checks every storage backend must pass, so the in-memory store
+// and Cosmos stay equivalent. Run with `npm run check:repositories`; `npm test`
+// runs them against the in-memory store (test/repository-conformance.test.js).
+//
+// Each case works on fresh, randomly named users, so it is safe to run against
+// a real (dev) Cosmos account.
+
+const assert = require("assert/strict");
+const { randomUUID } = require("crypto");
+const { CURRENT_SCHEMA_VERSIONS } = require("./documents");
+const { receiptKeyFingerprintId } = require("./fingerprints");
+const { perceptualHashBands } = require("./receipts");
+
+function newUserId() {
+  return `conformance-${randomUUID()}`;
+}
+
+const cases = [
+  {
+    name: "getUser creates a user with 0 points and a createdAt",
+    run: async (repo) => {
+      const userId = newUserId();
+      const user = await repo.getUser(userId);
+
+      assert.equal(user.userId, userId);
+      assert.equal(user.points, 0);
+      assert.ok(user.createdAt, "createdAt should be set");
+
+      const again = await repo.getUser(userId);
+      assert.equal(again.createdAt, user.createdAt);
+    },
+  },
+  {
+    name: "addPoints credits the balance and writes a ledger entry",
+    run: async (repo) => {
+      const userId = newUserId();
+      const user = await repo.addPoints(userId, 12, {
+        kind: "EARN",
+        reason: "RECEIPT",
+        sourceType: "receipt",
+        sourceId: "receipt-1",
+      });
+      assert.equal(user.points, 12);
+
+      await repo.addPoints(userId, -2, { reason: "SUPPORT_CORRECTION" });
+      assert.equal((await repo.getUser(userId)).points, 10);
+
+      const entries = await repo.listLedgerEntries(userId);
+      assert.equal(entries.length, 2);
+      assert.deepEqual(entries.map((e) => e.seq), [2, 1]);
+      assert.equal(entries[1].kind, "EARN");
+      assert.equal(entries[1].sourceId, "receipt-1");
+      assert.equal(entries[1].balanceAfter, 12);
+      assert.equal(entries[0].kind, "ADJUST");
+      assert.equal(entries[0].delta, -2);
+      assert.equal(entries[0].balanceAfter, 10);
+    },
+  },
+  {
+    name: "rebuildUserBalance matches the ledger",
+    run: async (repo) => {
+      const userId = newUserId();
+      await repo.addPoints(userId, 30);
+      await repo.addPoints(userId, 5);
+
+      const rebuilt = await repo.rebuildUserBalance(userId);
+      assert.equal(rebuilt.points, 35);
+      assert.deepEqual(rebuilt.pointBatches.map((b) => b.remaining), [30, 5]);
+    },
+  },
+  {
+    name: "createReward debits points and records a BURN entry",
+    run: async (repo) => {
+      const userId = newUserId();
+      await repo.addPoints(userId, 50);
+
+      const { reward, user } = await repo.createReward(userId, "Sundae", 40, "CROWN_40");
+      assert.equal(user.points, 10);
+      assert.equal(reward.userId, userId);
+      assert.equal(reward.name, "Sundae");
+      assert.equal(reward.pointsCost, 40);
+      assert.equal(reward.tier, "CROWN_40");
+      assert.equal(reward.redeemed, false);
+      assert.equal(reward.redeemedAt, null);
+      assert.ok(reward.createdAt);
+
+      const [latest] = await repo.listLedgerEntries(userId, 1);
+      assert.equal(latest.kind, "BURN");
+      assert.equal(latest.delta, -40);
+      assert.equal(latest.sourceId, reward.id);
+    },
+  },
+  {
+    name: "createReward refuses without debiting when points are missing",
+    run: async (repo) => {
+      const userId = newUserId();
+      await repo.addPoints(userId, 10);
+
+      await assert.rejects(
+        () => repo.createReward(userId, "Menu", 40),
+        (err) => err.code === "NOT_ENOUGH_POINTS"
+      );
+      assert.equal((await repo.getUser(userId)).points, 10);
+      assert.equal((await repo.listRewardsForUser(userId)).length, 0);
+    },
+  },
+  {
+    name: "concurrent createReward calls never overspend",
+    run: async (repo) => {
+      const userId = newUserId();
+      await repo.addPoints(userId, 100);
+
+      const results = await Promise.allSettled(
+        [1, 2, 3].map(() => repo.createReward(userId, "Burger", 40))
+      );
+      const succeeded = results.filter((r) => r.status === "fulfilled").length;
+
+      assert.equal(succeeded, 2);
+      assert.equal((await repo.getUser(userId)).points, 20);
+      assert.equal((await repo.listRewardsForUser(userId)).length, 2);
+    },
+  },
+  {
+    name: "earned points expire and rewards spend the oldest batches first",
+    run: async (repo) => {
+      const userId = newUserId();
+      await repo.addPoints(userId, 30, { kind: "EARN", reason: "RECEIPT" });
+      await repo.addPoints(userId, 30, { kind: "EARN", reason: "RECEIPT" });
+
+      const [earned] = await repo.listLedgerEntries(userId, 1);
+      assert.ok(earned.expiresAt > earned.createdAt, "EARN entries should expire");
+
+      await repo.createReward(userId, "Sundae", 40);
+      const [burn] = await repo.listLedgerEntries(userId, 1);
+      assert.deepEqual(
+        burn.consumedBatches.map((b) => [b.entryId, b.points]),
+        [
+          ["ledger-00000001", 30],
+          ["ledger-00000002", 10],
+        ]
+      );
+
+      // The snapshot keeps what is left, without reading the ledger
+      const { pointBatches } = await repo.getUser(userId);
+      assert.deepEqual(
+        pointBatches.map((b) => [b.entryId, b.remaining]),
+        [["ledger-00000002", 20]]
+      );
+    },
+  },
+  {
+    name: "expired points can't be spent and are written off once",
+    run: async (repo) => {
+      const userId = newUserId();
+      const now = new Date();
+      const yesterday = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+      const lastWeek = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
+
+      await repo.addPoints(userId, 50, { kind: "EARN", expiresAt: yesterday.toISOString() });
+      await repo.addPoints(userId, 10, { kind: "EARN" });
+
+      await assert.rejects(
+        () => repo.createReward(userId, "Menu", 40),
+        (err) => err.code === "NOT_ENOUGH_POINTS"
+      );
+      const before = await repo.getUser(userId);
+      assert.deepEqual(
+        before.pointBatches.map((b) => [b.remaining, b.expiresAt]),
+        [
+          [50, yesterday.toISOString()],
+          [10, before.pointBatches[1].expiresAt],
+        ]
+      );
+
+      const due = await repo.listUsersWithPointsExpiringBetween(
+        lastWeek.toISOString(),
+        now.toISOString()
+      );
+      assert.ok(due.includes(userId));
+
+      const { user, entry } = await repo.expirePoints(userId, now);
+      assert.equal(entry.kind, "EXPIRE");
+      assert.equal(entry.delta, -50);
+      assert.equal(user.points, 10);
+
+      assert.deepEqual(user.pointBatches.map((b) => b.remaining), [10]);
+
+      const again = await repo.expirePoints(userId, now);
+      assert.equal(again.entry, null);
+      assert.equal((await repo.getUser(userId)).points, 10);
+    },
+  },
+  {
+    name: "redeemReward marks a reward once",
+    run: async (repo) => {
+      const userId = newUserId();
+      await repo.addPoints(userId, 40);
+      const { reward } = await repo.createReward(userId, "Fries", 40);
+
+      const first = await repo.redeemReward(reward.id);
+      assert.equal(first.found, true);
+      assert.equal(first.alreadyRedeemed, false);
+      assert.equal(first.reward.userId, userId);
+      assert.ok(first.reward.redeemedAt);
+
+      const second = await repo.redeemReward(reward.id);
+      assert.equal(second.found, true);
+      assert.equal(second.alreadyRedeemed, true);
+
+      const missing = await repo.redeemReward(`missing-${randomUUID()}`);
+      assert.equal(missing.found, false);
+    },
+  },
+  {
+    name: "listRewardsForUser is scoped to the user, newest first",
+    run: async (repo) => {
+      const userId = newUserId();
+      const otherId = newUserId();
+      await repo.addPoints(userId, 80);
+      await repo.addPoints(otherId, 40);
+
+      const { reward: older } = await repo.createReward(userId, "A", 40);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      const { reward: newer } = await repo.createReward(userId, "B", 40);
+      await repo.createReward(otherId, "C", 40);
+
+      const list = await repo.listRewardsForUser(userId);
+      assert.deepEqual(list.map((r) => r.id), [newer.id, older.id]);
+    },
+  },
+  {
+    name: "receipts are counted per user and day and found by image hash",
+    run: async (repo) => {
+      const userId = newUserId();
+      const imageHash = `hash-${randomUUID()}`;
+
+      const receipt = await repo.createReceipt(userId, "blob://receipt", 120, 12, {
+        imageHash,
+        merchantName: "Burger King",
+      });
+      assert.equal(receipt.userId, userId);
+      assert.equal(receipt.amount, 120);
+      assert.equal(receipt.pointsEarned, 12);
+      assert.equal(receipt.merchantName, "Burger King");
+      assert.ok(receipt.id);
+      assert.ok(receipt.createdAt);
+
+      await repo.createReceipt(userId, "blob://receipt-2", 50, 5, {});
+
+      assert.equal(await repo.countReceiptsForUserOnDay(userId, new Date()), 2);
+      assert.equal(await repo.countReceiptsForUserOnDay(newUserId(), new Date()), 0);
+      // the day before (a Moroccan day, see config/business-time.js)
+      assert.equal(
+        await repo.countReceiptsForUserOnDay(userId, new Date(Date.now() - 24 * 60 * 60 * 1000)),
+        0
+      );
+
+      const found = await repo.findReceiptByImageHash(imageHash);
+      assert.equal(found && found.id, receipt.id);
+      assert.equal(await repo.findReceiptByImageHash(`hash-${randomUUID()}`), null);
+    },
+  },
+  {
+    name: "pending receipts are updated in place and count toward the daily limit",
+    run: async (repo) => {
+      const userId = newUserId();
+      const imageHash = `hash-${randomUUID()}`;
+
+      const pending = await repo.createReceipt(userId, "blob://pending", null, 0, {
+        status: "PENDING",
+        imageHash,
+        processedAt: null,
+      });
+      const claim = await repo.claimReceiptFingerprint(imageHash, userId);
+      await repo.completeReceiptFingerprint(claim, pending.id);
+
+      assert.equal((await repo.getReceipt(userId, pending.id)).status, "PENDING");
+      assert.equal(await repo.getReceipt(newUserId(), pending.id), null);
+      assert.equal(await repo.countReceiptsForUserOnDay(userId, new Date()), 1);
+      // receipts sent before this one
+      assert.equal(
+        await repo.countReceiptsForUserOnDay(userId, new Date(), { createdBefore: pending.createdAt }),
+        0
+      );
+      const later = new Date(Date.parse(pending.createdAt) + 1).toISOString();
+      assert.equal(
+        await repo.countReceiptsForUserOnDay(userId, new Date(), { createdBefore: later }),
+        1
+      );
+
+      const accepted = await repo.updateReceipt(userId, pending.id, {
+        status: "ACCEPTED",
+        amount: 80,
+        pointsEarned: 8,
+      });
+      assert.equal(accepted.status, "ACCEPTED");
+      assert.equal(accepted.imageHash, imageHash);
+      assert.equal(await repo.countReceiptsForUserOnDay(userId, new Date()), 1);
+
+      await assert.rejects(
+        () => repo.updateReceipt(userId, `missing-${randomUUID()}`, { status: "FAILED" }),
+        (err) => err.code === "RECEIPT_NOT_FOUND"
+      );
+
+      // Conditional transition: written only from the expected status
+      await assert.rejects(
+        () =>
+          repo.updateReceipt(userId, pending.id, { status: "REJECTED" }, { expectedStatus: "PENDING" }),
+        (err) => err.code === "RECEIPT_STATUS_CHANGED" && err.status === "ACCEPTED"
+      );
+      assert.equal((await repo.getReceipt(userId, pending.id)).status, "ACCEPTED");
+      const corrected = await repo.updateReceipt(
+        userId,
+        pending.id,
+        { amount: 90 },
+        { expectedStatus: "ACCEPTED" }
+      );
+      assert.equal(corrected.amount, 90);
+
+      // A rejected receipt gives its image back
+      await repo.releaseReceiptFingerprintForReceipt({ ...accepted, id: "other-receipt" });
+      await assert.rejects(() => repo.claimReceiptFingerprint(imageHash, userId));
+      await repo.releaseReceiptFingerprintForReceipt(accepted);
+      await repo.claimReceiptFingerprint(imageHash, userId);
+    },
+  },
+  {
+    name: "perceptual hashes are listed per user, or for everyone by band",
+    run: async (repo) => {
+      const userId = newUserId();
+      const otherUserId = newUserId();
+      const since = new Date(Date.now() - 60 * 1000).toISOString();
+      const hash = randomUUID().replace(/-/g, "").repeat(2);
+      const bands = perceptualHashBands(hash);
+      // Every bit flipped: no band in common
+      const unrelated = [...hash].map((c) => (15 - parseInt(c, 16)).toString(16)).join("");
+
+      const first = await repo.createReceipt(userId, "blob://a", 50, 5, {
+        perceptualHash: hash,
+        perceptualBands: bands,
+      });
+      await repo.createReceipt(userId, "blob://b", 50, 5, {});
+      const other = await repo.createReceipt(otherUserId, "blob://c", 50, 5, {
+        status: "PENDING",
+        perceptualHash: hash,
+        perceptualBands: bands,
+      });
+      await repo.createReceipt(otherUserId, "blob://d", 50, 5, {
+        perceptualHash: unrelated,
+        perceptualBands: perceptualHashBands(unrelated),
+      });
+
+      const own = await repo.listReceiptPerceptualHashes(since, userId);
+      assert.deepEqual(own.map((r) => r.id), [first.id]);
+      assert.equal(own[0].perceptualHash, hash);
+      assert.equal(own[0].userId, userId);
+
+      // Sharing a single band is enough
+      const everyone = await repo.listReceiptPerceptualHashesInBands(since, [bands[3]]);
+      assert.deepEqual(
+        everyone.map((r) => r.id).sort(),
+        [first.id, other.id].sort()
+      );
+      assert.equal(everyone.find((r) => r.id === other.id).status, "PENDING");
+      assert.deepEqual(await repo.listReceiptPerceptualHashesInBands(since, []), []);
+
+      const future = new Date(Date.now() + 60 * 1000).toISOString();
+      assert.equal((await repo.listReceiptPerceptualHashes(future, userId)).length, 0);
+      assert.equal((await repo.listReceiptPerceptualHashesInBands(future, bands)).length, 0);
+    },
+  },
+  {
+    name: "a user's receipts are paged newest first",
+    run: async (repo) => {
+      const userId = newUserId();
+      const created = [];
+      for (const status of ["ACCEPTED", "REJECTED", "PENDING"]) {
+        created.push(await repo.createReceipt(userId, null, null, 0, { status }));
+        await new Promise((resolve) => setTimeout(resolve, 5));
+      }
+      await repo.createReceipt(newUserId(), null, null, 0, {});
+
+      const first = await repo.listReceiptsPageForUser(userId, { pageSize: 2 });
+      assert.equal(first.receipts.length, 2);
+      assert.ok(first.continuationToken);
+
+      const second = await repo.listReceiptsPageForUser(userId, {
+        pageSize: 2,
+        continuationToken: first.continuationToken,
+      });
+      assert.equal(second.continuationToken, null);
+      assert.deepEqual(
+        [...first.receipts, ...second.receipts].map((r) => r.id),
+        created.map((r) => r.id).reverse()
+      );
+
+      await assert.rejects(
+        repo.listReceiptsPageForUser(userId, { pageSize: 2, continuationToken: "not-a-token" }),
+        { code: "INVALID_CONTINUATION_TOKEN" }
+      );
+    },
+  },
+  {
+    name: "receipts waiting for a review are listed oldest first and count toward the day",
+    run: async (repo) => {
+      const userId = newUserId();
+      const otherUserId = newUserId();
+
+      const first = await repo.createReceipt(userId, "blob://review-1", null, 0, {
+        status: "PENDING_REVIEW",
+      });
+      await repo.createReceipt(userId, "blob://pending", null, 0, { status: "PENDING" });
+      const second = await repo.createReceipt(otherUserId, "blob://review-2", 40, 0, {
+        status: "PENDING_REVIEW",
+      });
+
+      const ids = (await repo.listReceiptsByStatus("PENDING_REVIEW", 1000)).map((r) => r.id);
+      assert.ok(ids.includes(first.id) && ids.includes(second.id));
+      assert.ok(ids.indexOf(first.id) < ids.indexOf(second.id));
+      // the PENDING one counts too
+      assert.equal(await repo.countReceiptsForUserOnDay(userId, new Date()), 2);
+
+      await repo.updateReceipt(userId, first.id, { status: "REJECTED" });
+      const remaining = await repo.listReceiptsByStatus("PENDING_REVIEW", 1000);
+      assert.ok(!remaining.some((r) => r.id === first.id));
+      assert.equal(await repo.countReceiptsForUserOnDay(userId, new Date()), 1);
+    },
+  },
+  {
+    name: "receipts are counted per matched store and status over a period",
+    run: async (repo) => {
+      const userId = newUserId();
+      const storeId = `store-${randomUUID()}`;
+      const from = new Date(Date.now() - 60 * 1000).toISOString();
+      const to = new Date(Date.now() + 60 * 1000).toISOString();
+
+      for (const status of ["ACCEPTED", "ACCEPTED", "REJECTED"]) {
+        await repo.createReceipt(userId, null, 50, 5, { status, matchedStoreId: storeId });
+      }
+      await repo.createReceipt(newUserId(), null, 50, 5, { status: "ACCEPTED" });
+
+      const counts = (await repo.countReceiptsByStore(from, to)).filter(
+        (c) => c.storeId === storeId
+      );
+      assert.deepEqual(
+        counts.map((c) => `${c.status}:${c.count}`).sort(),
+        ["ACCEPTED:2", "REJECTED:1"]
+      );
+      assert.ok((await repo.countReceiptsByStore(from, to)).some((c) => c.storeId === null));
+
+      const later = await repo.countReceiptsByStore(to, new Date(Date.now() + 120 * 1000).toISOString());
+      assert.ok(!later.some((c) => c.storeId === storeId));
+    },
+  },
+  {
+    name: "addPointsOnce credits a source only once",
+    run: async (repo) => {
+      const userId = newUserId();
+      const details = {
+        kind: "EARN",
+        reason: "RECEIPT",
+        sourceType: "receipt",
+        sourceId: `receipt-${randomUUID()}`,
+      };
+
+      const first = await repo.addPointsOnce(userId, 7, details);
+      const again = await repo.addPointsOnce(userId, 7, details);
+
+      assert.ok(first.entry);
+      assert.equal(again.entry, null);
+      assert.equal(again.user.points, 7);
+      assert.equal((await repo.listLedgerEntries(userId)).length, 1);
+    },
+  },
+  {
+    name: "receipt fingerprints can only be claimed once, even concurrently",
+    run: async (repo) => {
+      const imageHash = `hash-${randomUUID()}`;
+      const userId = newUserId();
+
+      const results = await Promise.allSettled(
+        [1, 2, 3].map(() => repo.claimReceiptFingerprint(imageHash, userId))
+      );
+      const claims = results.filter((r) => r.status === "fulfilled");
+      const refused = results.filter((r) => r.status === "rejected");
+      assert.equal(claims.length, 1);
+      assert.ok(refused.every((r) => r.reason.code === "DUPLICATE_RECEIPT"));
+
+      // A released claim frees the image, a completed one keeps it
+      await repo.releaseReceiptFingerprint(claims[0].value);
+      const claim = await repo.claimReceiptFingerprint(imageHash, userId);
+      await repo.completeReceiptFingerprint(claim, "receipt-1");
+
+      await assert.rejects(
+        () => repo.claimReceiptFingerprint(imageHash, newUserId()),
+        (err) =>
+          err.code === "DUPLICATE_RECEIPT" &&
+          err.receiptId === "receipt-1" &&
+          err.userId === userId &&
+          !!err.claimedAt
+      );
+    },
+  },
+  {
+    name: "a ticket key is claimed across users and released with its receipt",
+    run: async (repo) => {
+      const userId = newUserId();
+      const receiptKey = `bk|214|2026-10-19|12:31|${randomUUID()}|8550`;
+      const keyId = receiptKeyFingerprintId(receiptKey);
+
+      const receipt = await repo.createReceipt(userId, "blob://ticket", 85.5, 8, {
+        imageHash: `hash-${randomUUID()}`,
+        receiptKey,
+      });
+      const claim = await repo.claimReceiptFingerprint(keyId, userId);
+      await repo.completeReceiptFingerprint(claim, receipt.id);
+
+      await assert.rejects(
+        () => repo.claimReceiptFingerprint(keyId, newUserId()),
+        (err) => err.code === "DUPLICATE_RECEIPT" && err.receiptId === receipt.id
+      );
+
+      await repo.releaseReceiptFingerprintForReceipt(receipt);
+      await repo.claimReceiptFingerprint(keyId, newUserId());
+    },
+  },
+  {
+    name: "account deletion anonymizes receipts and rewards and removes the user",
+    run: async (repo) => {
+      const userId = newUserId();
+      const otherUserId = newUserId();
+      const pseudonymId = `deleted-${randomUUID()}`;
+      const imageHash = `hash-${randomUUID()}`;
+
+      const claim = await repo.claimReceiptFingerprint(imageHash, userId);
+      const receipt = await repo.createReceipt(userId, "blob://private", 400, 40, { imageHash });
+      await repo.completeReceiptFingerprint(claim, receipt.id);
+      await repo.addPoints(userId, 80, { kind: "EARN", sourceId: receipt.id });
+      const { reward: usedReward } = await repo.createReward(userId, "Cone", 40);
+      await repo.redeemReward(usedReward.id);
+      const { reward } = await repo.createReward(userId, "Sundae", 40);
+      const duplicate = await repo.createReceipt(otherUserId, "blob://other", 400, 0, {
+        status: "REJECTED",
+        duplicateOf: { receiptId: receipt.id, userId, claimedAt: receipt.createdAt },
+      });
+
+      assert.equal((await repo.listReceiptsForUser(userId)).length, 1);
+
+      assert.equal(await repo.anonymizeReceipts(userId, pseudonymId), 1);
+      assert.equal(await repo.anonymizeRewards(userId, pseudonymId), 2);
+      assert.ok((await repo.deleteUser(userId)) >= 3, "user doc + 2 ledger entries");
+
+      assert.equal((await repo.listReceiptsForUser(userId)).length, 0);
+      assert.equal((await repo.listRewardsForUser(userId)).length, 0);
+      assert.equal((await repo.listLedgerEntries(userId)).length, 0);
+
+      const [moved] = await repo.listReceiptsForUser(pseudonymId);
+      assert.equal(moved.id, receipt.id);
+      assert.equal(moved.blobUrl, null);
+      assert.equal(moved.amount, 400);
+
+      // Other users' duplicates point at the pseudonym
+      const otherReceipt = await repo.getReceipt(otherUserId, duplicate.id);
+      assert.equal(otherReceipt.duplicateOf.userId, pseudonymId);
+      assert.equal(otherReceipt.duplicateOf.receiptId, receipt.id);
+
+      // Kept for anti-fraud and store reconciliation, but no longer usable
+      const voided = await repo.redeemReward(reward.id);
+      assert.equal(voided.found, true);
+      assert.equal(voided.voided, true);
+      assert.equal(voided.reward.userId, pseudonymId);
+      assert.equal(voided.reward.redeemed, false);
+      assert.ok(voided.reward.voidedAt);
+
+      const used = await repo.redeemReward(usedReward.id);
+      assert.equal(used.alreadyRedeemed, true);
+      assert.equal(used.reward.voidedAt, null);
+      await assert.rejects(
+        () => repo.claimReceiptFingerprint(imageHash, newUserId()),
+        (err) => err.code === "DUPLICATE_RECEIPT"
+      );
+    },
+  },
+  {
+    name: "new documents carry the current schemaVersion",
+    run: async (repo) => {
+      const userId = newUserId();
+      await repo.addPoints(userId, 40);
+      const receipt = await repo.createReceipt(userId, "blob://r", 10, 1, {});
+      const { reward } = await repo.createReward(userId, "Cone", 40);
+      const [entry] = await repo.listLedgerEntries(userId, 1);
+
+      assert.equal(receipt.schemaVersion, CURRENT_SCHEMA_VERSIONS.receipt);
+      assert.equal(reward.schemaVersion, CURRENT_SCHEMA_VERSIONS.reward);
+      assert.equal(entry.schemaVersion, CURRENT_SCHEMA_VERSIONS.ledger);
+    },
+  },
+  {
+    name: "a snapshot saved before pointBatches gets them from the ledger",
+    run: async (repo) => {
+      const userId = newUserId();
+      const createdAt = new Date().toISOString();
+      const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+
+      await repo.saveDocument(
+        "users",
+        {
+          id: "ledger-00000001",
+          userId,
+          type: "ledger",
+          schemaVersion: 2,
+          seq: 1,
+          kind: "EARN",
+          delta: 30,
+          expiresAt,
+          balanceBefore: 0,
+          balanceAfter: 30,
+          createdAt,
+        },
+        null
+      );
+      await repo.saveDocument(
+        "users",
+        { id: userId, userId, type: "user", schemaVersion: 2, points: 30, ledgerSeq: 1, createdAt },
+        null
+      );
+
+      const user = await repo.getUser(userId);
+      assert.equal(user.points, 30);
+      assert.deepEqual(
+        user.pointBatches.map((b) => [b.entryId, b.remaining, b.expiresAt]),
+        [["ledger-00000001", 30, expiresAt]]
+      );
+    },
+  },
+  {
+    name: "legacy documents are upgraded when read",
+    run: async (repo) => {
+      const userId = newUserId();
+      const rewardId = `legacy-${randomUUID()}`;
+
+      // Shape written by the first version of createReward
+      await repo.saveDocument(
+        "rewards",
+        {
+          id: rewardId,
+          userId,
+          name: "Old reward",
+          pointsCost: 40,
+          tier: null,
+          qrCodeData: null,
+          redeemed: false,
+          createdAt: new Date().toISOString(),
+        },
+        null
+      );
+
+      const [listed] = await repo.listRewardsForUser(userId);
+      assert.equal(listed.id, rewardId);
+      assert.equal(listed.type, "reward");
+      assert.equal(listed.redeemedAt, null);
+      assert.equal(listed.schemaVersion, CURRENT_SCHEMA_VERSIONS.reward);
+
+      const redeemed = await repo.redeemReward(rewardId);
+      assert.equal(redeemed.alreadyRedeemed, false);
+      assert.equal(redeemed.reward.userId, userId);
+      assert.equal(redeemed.reward.schemaVersion, CURRENT_SCHEMA_VERSIONS.reward);
+    },
+  },
+];
+
+// Runs every case against `repository`; never throws, returns a summary.
+async function runConformanceSuite(repository, { log = console.log } = {}) {
+  const failures = [];
+
+  for (const testCase of cases) {
+    try {
+      await testCase.run(repository);
+      log(`  ✓ ${testCase.name}`);
+    } catch (err) {
+      failures.push({ name: testCase.name, error: err });
+      log(`  ✗ ${testCase.name}`);
+      log(`      ${err && err.message ? err.message : err}`);
+    }
+  }
+
+  return {
+    total: cases.length,
+    passed: cases.length - failures.length,
+    failures,
+  };
+}
+
+module.exports = {
+  conformanceCases: cases,
+  runConformanceSuite,
+};
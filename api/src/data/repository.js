@@ -0,0 +1,180 @@
+// api/src/data/repository.js
+// Storage repository contract + backend registry.
+//
+// Every backend (Cosmos, in-memory fake, …) exposes the same async methods.
+// The backend is picked by DATA_BACKEND ("cosmos" | "memory"); when it is not
+// set we keep the historical behaviour: Cosmos if a connection string exists,
+// otherwise the in-memory store.
+//
+// Contract (all methods async):
+//   USERS & LEDGER
+//   - getUser(userId) -> { userId, points, pointBatches, createdAt } (creates the
+//       user with 0 points); pointBatches: the batches still holding points, as
+//       of the same ledger entry as `points` (point-batches.js)
+//   - addPoints(userId, delta, details?) -> { userId, points, pointBatches, createdAt }
+//   - addPointsOnce(userId, delta, details) -> { user, entry | null }
+//       no-op when the ledger already has an entry for details.sourceType/sourceId
+//   - listLedgerEntries(userId, limit?) -> ledger entries, newest first
+//       (limit null → the whole ledger)
+//   - rebuildUserBalance(userId) -> { userId, points, pointBatches, createdAt }
+//   - expirePoints(userId, now?) -> { user, entry | null }
+//       writes one EXPIRE entry for the batches expired at `now` (point-batches.js)
+//   - listUsersWithPointsExpiringBetween(fromIso, toIso) -> userIds
+//   RECEIPTS
+//   - createReceipt(userId, blobUrl, amount, pointsEarned, extras?) -> receipt doc
+//       (status ACCEPTED unless extras say otherwise, see receipts.js)
+//   - getReceipt(userId, receiptId) -> receipt doc | null
+//   - updateReceipt(userId, receiptId, changes, { expectedStatus? }) -> receipt doc
+//       throws { code: "RECEIPT_NOT_FOUND" }; with expectedStatus, the change
+//       is only written if the stored receipt still has that status, checked
+//       in the same write, else throws { code: "RECEIPT_STATUS_CHANGED", status }
+//   - countReceiptsForUserOnDay(userId, day, { createdBefore? }) -> number of
+//       ACCEPTED, PENDING and PENDING_REVIEW receipts created on that Moroccan
+//       day (config/business-time.js), only those created before createdBefore
+//       (ISO) when given
+//   - findReceiptByImageHash(imageHash) -> receipt doc | null
+//   - listReceiptsForUser(userId) -> receipt docs, newest first
+//   - listReceiptsPageForUser(userId, { continuationToken?, pageSize? })
+//       -> { receipts, continuationToken } newest first; the token is opaque
+//       (null on the last page); throws { code: "INVALID_CONTINUATION_TOKEN" }
+//       for a token it didn't hand out (or no longer accepts)
+//   - listReceiptPerceptualHashes(sinceIso, userId) ->
+//       [{ id, userId, status, perceptualHash, createdAt }], newest first, for
+//       the user's receipts created since sinceIso that have a perceptual hash
+//   - listReceiptPerceptualHashesInBands(sinceIso, bands) -> same shape, for
+//       every user's receipts created since sinceIso that share at least one
+//       of the perceptual hash bands (receipts.js); never a full scan
+//   - listReceiptsByStatus(status, limit?) -> receipt docs of every user with
+//       that status, oldest first (the review queue)
+//   - countReceiptsByStore(fromIso, toIso) -> [{ storeId, status, count }] for
+//       receipts created in [fromIso, toIso), every user (storeId: matchedStoreId,
+//       null when no restaurant was matched)
+//   - claimReceiptFingerprint(fingerprintId, userId) -> claim
+//       unique per id (image hash or ticket key); throws { code: "DUPLICATE_RECEIPT",
+//       receiptId, userId, claimedAt } (see fingerprints.js)
+//   - completeReceiptFingerprint(claim, receiptId) -> fingerprint
+//   - releaseReceiptFingerprint(claim) -> void (no-op if the claim is not ours anymore)
+//   - releaseReceiptFingerprintForReceipt(receipt) -> void
+//       frees the image hash and ticket key of a rejected / failed receipt
+//       (no-op for the ones reused since)
+//   REWARDS
+//   - createReward(userId, name, pointsCost, tier?) -> { reward, user }
+//       spends unexpired points, oldest batches first;
+//       throws { code: "NOT_ENOUGH_POINTS" } without debiting
+//   - redeemReward(rewardId) -> { found, alreadyRedeemed?, voided?, reward? }
+//       voided: the owner deleted the account before using it (never redeemed)
+//       rewardId is the code from the QR payload; resolving it must not need a
+//       cross-partition query (Cosmos keeps a RewardCodes lookup; a reward
+//       older than it is found once by query, until the migration has run)
+//   - listRewardsForUser(userId) -> reward docs, newest first
+//   ACCOUNT DELETION (see privacy.js)
+//   - anonymizeReceipts(userId, pseudonymId) -> number of receipts moved to the
+//       pseudonym (image URL dropped, fingerprints re-owned); duplicateOf of
+//       every receipt, other users' included, points at the pseudonym instead
+//   - anonymizeRewards(userId, pseudonymId) -> number of rewards moved; the
+//       ones not redeemed yet are voided
+//   - deleteUser(userId) -> number of documents deleted (user doc + ledger)
+//   RAW DOCUMENTS (used by the migration runner, see documents.js)
+//   - listDocuments(container, { continuationToken?, pageSize? })
+//       -> { documents, continuationToken } with documents exactly as stored
+//   - saveDocument(container, doc, original) -> saved doc (a saved reward
+//       gets its RewardCodes lookup too)
+//   container is one of "users" | "receipts" | "rewards".
+//
+// Documents returned by the non-raw methods are always upgraded to the
+// current schemaVersion.
+//
+// repository-conformance.js checks the behaviour of every backend.
+
+const { isCosmosConfigured } = require("./cosmos-client");
+
+const REPOSITORY_METHODS = [
+  "getUser",
+  "addPoints",
+  "addPointsOnce",
+  "listLedgerEntries",
+  "rebuildUserBalance",
+  "expirePoints",
+  "listUsersWithPointsExpiringBetween",
+  "createReceipt",
+  "getReceipt",
+  "updateReceipt",
+  "countReceiptsForUserOnDay",
+  "findReceiptByImageHash",
+  "listReceiptsForUser",
+  "listReceiptsPageForUser",
+  "listReceiptPerceptualHashes",
+  "listReceiptPerceptualHashesInBands",
+  "listReceiptsByStatus",
+  "countReceiptsByStore",
+  "claimReceiptFingerprint",
+  "completeReceiptFingerprint",
+  "releaseReceiptFingerprint",
+  "releaseReceiptFingerprintForReceipt",
+  "createReward",
+  "redeemReward",
+  "listRewardsForUser",
+  "anonymizeReceipts",
+  "anonymizeRewards",
+  "deleteUser",
+  "listDocuments",
+  "saveDocument",
+];
+
+const factories = new Map(); // backend name -> () => repository
+const instances = new Map(); // backend name -> repository
+
+function assertRepository(repository, name) {
+  const missing = REPOSITORY_METHODS.filter(
+    (method) => !repository || typeof repository[method] !== "function"
+  );
+  if (missing.length) {
+    throw new Error(
+      `Storage backend "${name}" is missing: ${missing.join(", ")}`
+    );
+  }
+  return repository;
+}
+
+function registerBackend(name, factory) {
+  factories.set(name, factory);
+  instances.delete(name);
+}
+
+function listBackends() {
+  return [...factories.keys()];
+}
+
+function getConfiguredBackendName() {
+  const configured = (process.env.DATA_BACKEND || "").trim().toLowerCase();
+  if (configured) {
+    return configured;
+  }
+  return isCosmosConfigured() ? "cosmos" : "memory";
+}
+
+function getRepository(name = getConfiguredBackendName()) {
+  if (!instances.has(name)) {
+    const factory = factories.get(name);
+    if (!factory) {
+      throw new Error(
+        `Unknown DATA_BACKEND "${name}" (available: ${listBackends().join(", ")})`
+      );
+    }
+    instances.set(name, assertRepository(factory(), name));
+  }
+  return instances.get(name);
+}
+
+// Built-in backends, only loaded when selected.
+registerBackend("cosmos", () => require("./cosmos-db"));
+registerBackend("memory", () => require("./fake-db"));
+
+module.exports = {
+  REPOSITORY_METHODS,
+  assertRepository,
+  registerBackend,
+  listBackends,
+  getConfiguredBackendName,
+  getRepository,
+};
@@ -0,0 +1,96 @@
+// api/src/functions/approve-receipt.js
+// Reviewer decision on a PENDING_REVIEW receipt: accepted and points credited.
+// POST { userId, receiptId, amount?, note? }; amount corrects the one that was
+// read (required when none could be read).
+const { app } = require("@azure/functions");
+const { getUserId, isReceiptReviewer } = require("../auth/client-principal");
+const {
+  approveReviewedReceipt,
+  toReceiptStatusResponse,
+} = require("../services/receipt-processing");
+
+const ERROR_STATUS = {
+  RECEIPT_NOT_FOUND: 404,
+  RECEIPT_NOT_IN_REVIEW: 409,
+  SELF_REVIEW_FORBIDDEN: 403,
+  AMOUNT_REQUIRED: 400,
+};
+
+app.http("approve-receipt", {
+  methods: ["POST"],
+  authLevel: "anonymous",
+  handler: async (request, context) => {
+    try {
+      const reviewerId = getUserId(request);
+
+      if (!reviewerId) {
+        return {
+          status: 401,
+          jsonBody: { error: "UNAUTHENTICATED" },
+        };
+      }
+      if (!isReceiptReviewer(request)) {
+        return {
+          status: 403,
+          jsonBody: { error: "FORBIDDEN" },
+        };
+      }
+
+      let body;
+      try {
+        body = await request.json();
+      } catch {
+        body = {};
+      }
+
+      const { userId, receiptId, note } = body || {};
+      if (!userId || !receiptId) {
+        return {
+          status: 400,
+          jsonBody: { error: "userId and receiptId required for approve-receipt" },
+        };
+      }
+
+      let amount = null;
+      if (body.amount !== undefined && body.amount !== null && body.amount !== "") {
+        amount = Number(body.amount);
+        if (!Number.isFinite(amount) || amount <= 0) {
+          return {
+            status: 400,
+            jsonBody: { error: "INVALID_AMOUNT", message: "amount must be a positive number" },
+          };
+        }
+      }
+
+      try {
+        const receipt = await approveReviewedReceipt({
+          userId,
+          receiptId,
+          amount,
+          reviewerId,
+          note: typeof note === "string" && note.trim() ? note.trim() : null,
+          log: (...args) => context.log(...args),
+        });
+        context.log(`receipt ${receiptId}: approved by ${reviewerId}`);
+        return { jsonBody: toReceiptStatusResponse(receipt) };
+      } catch (err) {
+        if (!ERROR_STATUS[err.code]) {
+          throw err;
+        }
+        return {
+          status: ERROR_STATUS[err.code],
+          jsonBody: { error: err.code, message: err.message },
+        };
+      }
+    } catch (err) {
+      context.log("approve-receipt error:", err);
+      return {
+        status: 500,
+        jsonBody: {
+          error: "INTERNAL_ERROR",
+          message: err && err.message ? err.message : "Unknown error",
+        },
+      };
+    }
+  },
+});
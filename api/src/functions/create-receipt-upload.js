@@ -0,0 +1,81 @@
+// api/src/functions/create-receipt-upload.js
+// Step 1 of the direct upload: returns a short-lived, write-only URL for one
+// new blob in the user's upload folder ("uploads/<userId>/…", never where
+// receipt images are kept). The app PUTs the image there, then calls
+// process-receipt with the returned blobName (which copies the image for the
+// receipt and deletes that blob).
+const { app } = require("@azure/functions");
+const { getUserId } = require("../auth/client-principal");
+const {
+  isBlobStorageConfigured,
+  createReceiptUploadUrl,
+} = require("../data/blob-storage");
+const {
+  getMaxUploadBytes,
+  isAcceptedContentType,
+} = require("../services/upload-validation");
+
+app.http("create-receipt-upload", {
+  methods: ["POST"],
+  authLevel: "anonymous",
+  handler: async (request, context) => {
+    try {
+      const userId = getUserId(request);
+
+      if (!userId) {
+        return {
+          status: 401,
+          jsonBody: { error: "UNAUTHENTICATED" },
+        };
+      }
+
+      if (!isBlobStorageConfigured()) {
+        return {
+          status: 503,
+          jsonBody: {
+            error: "DIRECT_UPLOAD_UNAVAILABLE",
+            message: "Direct upload is not available, use upload-receipt.",
+          },
+        };
+      }
+
+      let body;
+      try {
+        body = await request.json();
+      } catch {
+        body = null;
+      }
+
+      const fileName = body && typeof body.fileName === "string" ? body.fileName : null;
+      const contentType =
+        body && typeof body.contentType === "string" ? body.contentType : null;
+
+      // Obviously wrong files are refused here; the content is checked anyway
+      // by process-receipt
+      if (contentType && !isAcceptedContentType(contentType)) {
+        return {
+          status: 415,
+          jsonBody: {
+            error: "UNSUPPORTED_FILE_TYPE",
+            message: "Only JPEG, PNG, HEIC photos and PDF files are accepted.",
+          },
+        };
+      }
+
+      const upload = await createReceiptUploadUrl(userId, fileName, contentType);
+
+      return {
+        jsonBody: { ...upload, maxBytes: getMaxUploadBytes() },
+      };
+    } catch (err) {
+      context.log("create-receipt-upload error:", err);
+      return {
+        status: 500,
+        jsonBody: {
+          error: "INTERNAL_ERROR",
+          message: err && err.message ? err.message : "Unknown error",
+        },
+      };
+    }
+  },
+});
@@ -0,0 +1,75 @@
+// api/src/functions/delete-user-account.js
+// Deletes the signed-in customer's account (images, profile, points ledger)
+// and anonymizes their receipts and rewards. Irreversible, so the body must
+// contain { "confirm": "DELETE_MY_ACCOUNT" }.
+const { app } = require("@azure/functions");
+const { getUserId } = require("../auth/client-principal");
+const { deleteUserData } = require("../services/user-data");
+
+const CONFIRMATION = "DELETE_MY_ACCOUNT";
+
+app.http("delete-user-account", {
+  methods: ["POST"],
+  authLevel: "anonymous",
+  handler: async (request, context) => {
+    try {
+      const userId = getUserId(request);
+
+      if (!userId) {
+        return {
+          status: 401,
+          jsonBody: { error: "UNAUTHENTICATED" },
+        };
+      }
+
+      let body;
+      try {
+        body = await request.json();
+      } catch {
+        body = null;
+      }
+
+      if (!body || body.confirm !== CONFIRMATION) {
+        return {
+          status: 400,
+          jsonBody: {
+            error: "CONFIRMATION_REQUIRED",
+            message: `Send { "confirm": "${CONFIRMATION}" } to delete the account.`,
+          },
+        };
+      }
+
+      const summary = await deleteUserData(userId, {
+        log: (message) => context.log(message),
+      });
+
+      return {
+        jsonBody: {
+          deleted: true,
+          summary,
+        },
+      };
+    } catch (err) {
+      // Refused before anything was deleted (data/privacy.js)
+      if (err && err.code === "PSEUDONYM_SECRET_MISSING") {
+        context.log("delete-user-account refused:", err.message);
+        return {
+          status: 503,
+          jsonBody: {
+            error: "ACCOUNT_DELETION_UNAVAILABLE",
+            message: "Account deletion is not configured on this server.",
+          },
+        };
+      }
+
+      context.log("delete-user-account error:", err);
+      return {
+        status: 500,
+        jsonBody: {
+          error: "INTERNAL_ERROR",
+          message: err && err.message ? err.message : "Unknown error",
+        },
+      };
+    }
+  },
+});
@@ -0,0 +1,63 @@
+// api/src/functions/expire-points.js
+// Nightly job writing off expired Couronnes (see data/points-expiry.js):
+//   - POST expire-points       operations role; for the Static Web Apps managed
+//     API (HTTP functions only), called once a day by an external scheduler,
+//     like `npm run expire-points`
+//   - expire-points-timer      every day at 02:30 UTC, registered only next to
+//     the queue trigger, in the API's own Function App (receipt-queue.js)
+// Either way, expired points are never spendable and are left out of
+// get-user-balance, even before the job runs.
+const { app } = require("@azure/functions");
+const db = require("../data/db");
+const { getUserId, isOperationsStaff } = require("../auth/client-principal");
+const { runPointsExpiry } = require("../data/points-expiry");
+const { usesStorageQueue } = require("../services/receipt-queue");
+
+async function expirePoints(context) {
+  const summary = await runPointsExpiry(db, {
+    log: (message) => context.log(message),
+  });
+  context.log("expire-points summary:", summary);
+  return summary;
+}
+
+app.http("expire-points", {
+  methods: ["POST"],
+  authLevel: "anonymous",
+  handler: async (request, context) => {
+    try {
+      if (!getUserId(request)) {
+        return {
+          status: 401,
+          jsonBody: { error: "UNAUTHENTICATED" },
+        };
+      }
+      if (!isOperationsStaff(request)) {
+        return {
+          status: 403,
+          jsonBody: { error: "FORBIDDEN" },
+        };
+      }
+
+      return { jsonBody: await expirePoints(context) };
+    } catch (err) {
+      context.log("expire-points error:", err);
+      return {
+        status: 500,
+        jsonBody: {
+          error: "INTERNAL_ERROR",
+          message: err && err.message ? err.message : "Unknown error",
+        },
+      };
+    }
+  },
+});
+
+if (usesStorageQueue()) {
+  app.timer("expire-points-timer", {
+    schedule: "0 30 2 * * *", // every day at 02:30 UTC
+    handler: async (timer, context) => {
+      await expirePoints(context);
+    },
+  });
+}
@@ -0,0 +1,58 @@
+// api/src/functions/export-user-data.js
+// Exports everything we hold about the signed-in customer, receipt photos
+// included, as a ZIP archive in Blob Storage; answers with a short-lived
+// download link to it.
+const { app } = require("@azure/functions");
+const { getUserId } = require("../auth/client-principal");
+const { exportUserData } = require("../services/user-data");
+
+app.http("export-user-data", {
+  methods: ["POST"],
+  authLevel: "anonymous",
+  handler: async (request, context) => {
+    try {
+      const userId = getUserId(request);
+
+      if (!userId) {
+        return {
+          status: 401,
+          jsonBody: { error: "UNAUTHENTICATED" },
+        };
+      }
+
+      const { fileName, url, expiresAt, summary } = await exportUserData(userId, {
+        log: (message) => context.log(message),
+      });
+
+      return {
+        headers: { "Cache-Control": "no-store" },
+        jsonBody: {
+          fileName,
+          downloadUrl: url,
+          expiresAt,
+          summary,
+        },
+      };
+    } catch (err) {
+      if (err && err.code === "EXPORT_STORAGE_MISSING") {
+        context.log("export-user-data refused:", err.message);
+        return {
+          status: 503,
+          jsonBody: {
+            error: "EXPORT_UNAVAILABLE",
+            message: "Data export is not configured on this server.",
+          },
+        };
+      }
+
+      context.log("export-user-data error:", err);
+      return {
+        status: 500,
+        jsonBody: {
+          error: "INTERNAL_ERROR",
+          message: err && err.message ? err.message : "Unknown error",
+        },
+      };
+    }
+  },
+});
@@ -0,0 +1,57 @@
+// api/src/functions/get-receipt-image.js
+// Fresh signed link to a receipt image (?receiptId=…), e.g. once the one in
+// get-user-receipts has expired. Own receipts only; reviewers add ?userId=.
+const { app } = require("@azure/functions");
+const { getReceipt } = require("../data/db");
+const { resolveReceiptOwner, receiptImageLink } = require("../services/receipt-images");
+
+app.http("get-receipt-image", {
+  methods: ["GET"],
+  authLevel: "anonymous",
+  handler: async (request, context) => {
+    try {
+      const owner = resolveReceiptOwner(request);
+      if (owner.error) {
+        return owner.error;
+      }
+
+      const receiptId = request.query.get("receiptId");
+      if (!receiptId) {
+        return {
+          status: 400,
+          jsonBody: { error: "receiptId required for get-receipt-image" },
+        };
+      }
+
+      const receipt = await getReceipt(owner.userId, receiptId);
+      if (!receipt) {
+        return {
+          status: 404,
+          jsonBody: { error: "RECEIPT_NOT_FOUND" },
+        };
+      }
+
+      const link = await receiptImageLink(receipt);
+      if (!link.imageUrl) {
+        return {
+          status: 404,
+          jsonBody: { error: "IMAGE_NOT_AVAILABLE" },
+        };
+      }
+
+      return {
+        headers: { "Cache-Control": "no-store" },
+        jsonBody: { receiptId: receipt.id, ...link },
+      };
+    } catch (err) {
+      context.log("get-receipt-image error:", err);
+      return {
+        status: 500,
+        jsonBody: {
+          error: "INTERNAL_ERROR",
+          message: err && err.message ? err.message : "Unknown error",
+        },
+      };
+    }
+  },
+});
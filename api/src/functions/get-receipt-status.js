@@ -0,0 +1,71 @@
+// api/src/functions/get-receipt-status.js
+// Status of one of the user's receipts (?receiptId=…), polled by the app after
+// an upload: PENDING, then ACCEPTED, REJECTED (same error / reasons codes as
+// before), FAILED or PENDING_REVIEW (reasons it was flagged; settled later by
+// a reviewer). With a signed, short-lived link to the image while it is kept.
+// A receipt PENDING for too long is enqueued again (restartStaleReceipt).
+const { app } = require("@azure/functions");
+const { getUserId } = require("../auth/client-principal");
+const { getReceipt } = require("../data/db");
+const {
+  restartStaleReceipt,
+  toReceiptStatusResponse,
+} = require("../services/receipt-processing");
+const { withImageLink } = require("../services/receipt-images");
+const { receiptQueueOutputs, enqueueReceipt } = require("../services/receipt-queue");
+
+app.http("get-receipt-status", {
+  methods: ["GET"],
+  authLevel: "anonymous",
+  extraOutputs: receiptQueueOutputs(),
+  handler: async (request, context) => {
+    try {
+      const userId = getUserId(request);
+
+      if (!userId) {
+        return {
+          status: 401,
+          jsonBody: { error: "UNAUTHENTICATED" },
+        };
+      }
+
+      const receiptId = request.query.get("receiptId");
+      if (!receiptId) {
+        return {
+          status: 400,
+          jsonBody: { error: "receiptId required for get-receipt-status" },
+        };
+      }
+
+      // Scoped to the user's partition: other users' receipts are "not found"
+      const stored = await getReceipt(userId, receiptId);
+      if (!stored) {
+        return {
+          status: 404,
+          jsonBody: { error: "RECEIPT_NOT_FOUND" },
+        };
+      }
+
+      const { receipt, requeue } = await restartStaleReceipt(stored, {
+        log: (...args) => context.log(...args),
+      });
+      if (requeue) {
+        enqueueReceipt(context, receipt);
+      }
+
+      return {
+        headers: { "Cache-Control": "no-store" },
+        jsonBody: await withImageLink(toReceiptStatusResponse(receipt), receipt),
+      };
+    } catch (err) {
+      context.log("get-receipt-status error:", err);
+      return {
+        status: 500,
+        jsonBody: {
+          error: "INTERNAL_ERROR",
+          message: err && err.message ? err.message : "Unknown error",
+        },
+      };
+    }
+  },
+});
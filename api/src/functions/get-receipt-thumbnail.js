@@ -0,0 +1,65 @@
+// api/src/functions/get-receipt-thumbnail.js
+// Preview of one of the user's receipt images (?receiptId=…), the
+// `thumbnailUrl` of get-user-receipts. JPEG, at most 240 px wide.
+// Own receipts only; reviewers add ?userId=.
+const { app } = require("@azure/functions");
+const { getReceipt } = require("../data/db");
+const { readReceiptImage } = require("../data/blob-storage");
+const { createThumbnail } = require("../services/receipt-thumbnails");
+const { resolveReceiptOwner } = require("../services/receipt-images");
+
+app.http("get-receipt-thumbnail", {
+  methods: ["GET"],
+  authLevel: "anonymous",
+  handler: async (request, context) => {
+    try {
+      const owner = resolveReceiptOwner(request);
+      if (owner.error) {
+        return owner.error;
+      }
+
+      const receiptId = request.query.get("receiptId");
+      if (!receiptId) {
+        return {
+          status: 400,
+          jsonBody: { error: "receiptId required for get-receipt-thumbnail" },
+        };
+      }
+
+      // Scoped to the owner's partition: other users' receipts are "not found"
+      const receipt = await getReceipt(owner.userId, receiptId);
+      if (!receipt) {
+        return {
+          status: 404,
+          jsonBody: { error: "RECEIPT_NOT_FOUND" },
+        };
+      }
+
+      const image = receipt.blobName ? await readReceiptImage(receipt.blobName) : null;
+      const thumbnail = image ? await createThumbnail(image.buffer) : null;
+      if (!thumbnail) {
+        return {
+          status: 404,
+          jsonBody: { error: "THUMBNAIL_NOT_AVAILABLE" },
+        };
+      }
+
+      return {
+        headers: {
+          "Content-Type": thumbnail.contentType,
+          "Cache-Control": "private, max-age=86400",
+        },
+        body: thumbnail.buffer,
+      };
+    } catch (err) {
+      context.log("get-receipt-thumbnail error:", err);
+      return {
+        status: 500,
+        jsonBody: {
+          error: "INTERNAL_ERROR",
+          message: err && err.message ? err.message : "Unknown error",
+        },
+      };
+    }
+  },
+});
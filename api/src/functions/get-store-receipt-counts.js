@@ -0,0 +1,80 @@
+// api/src/functions/get-store-receipt-counts.js
+// Receipts per restaurant of the store registry, by status, for operations
+// (operations role). ?from=YYYY-MM-DD&to=YYYY-MM-DD: Moroccan days, both
+// included (default: the last 7 days, today included; at most 92 days).
+const { app } = require("@azure/functions");
+const { getUserId, isOperationsStaff } = require("../auth/client-principal");
+const { countReceiptsByStore } = require("../data/db");
+const {
+  businessDay,
+  businessDateTime,
+  businessDaysBetween,
+  addDays,
+  getBusinessTimeZone,
+} = require("../config/business-time");
+const { summarizeStoreCounts } = require("../services/store-registry");
+
+const DEFAULT_DAYS = 7;
+const MAX_DAYS = 92;
+
+function invalidPeriod(message) {
+  return {
+    status: 400,
+    jsonBody: { error: "INVALID_PERIOD", message },
+  };
+}
+
+app.http("get-store-receipt-counts", {
+  methods: ["GET"],
+  authLevel: "anonymous",
+  handler: async (request, context) => {
+    try {
+      if (!getUserId(request)) {
+        return {
+          status: 401,
+          jsonBody: { error: "UNAUTHENTICATED" },
+        };
+      }
+      if (!isOperationsStaff(request)) {
+        return {
+          status: 403,
+          jsonBody: { error: "FORBIDDEN" },
+        };
+      }
+
+      const to = request.query.get("to") || businessDay(new Date());
+      const from = request.query.get("from") || addDays(to, -(DEFAULT_DAYS - 1));
+      const start = businessDateTime(from);
+      const end = businessDateTime(addDays(to, 1));
+
+      if (!start || !end) {
+        return invalidPeriod("from and to must be days (YYYY-MM-DD).");
+      }
+      const days = businessDaysBetween(start, businessDateTime(to)) + 1;
+      if (days < 1 || days > MAX_DAYS) {
+        return invalidPeriod(`The period must last between 1 and ${MAX_DAYS} days.`);
+      }
+
+      const rows = await countReceiptsByStore(start.toISOString(), end.toISOString());
+
+      return {
+        headers: { "Cache-Control": "no-store" },
+        jsonBody: {
+          from,
+          to,
+          timeZone: getBusinessTimeZone(),
+          ...summarizeStoreCounts(rows),
+        },
+      };
+    } catch (err) {
+      context.log("get-store-receipt-counts error:", err);
+      return {
+        status: 500,
+        jsonBody: {
+          error: "INTERNAL_ERROR",
+          message: err && err.message ? err.message : "Unknown error",
+        },
+      };
+    }
+  },
+});
@@ -1,5 +1,6 @@
 const { app } = require("@azure/functions");
 const { getUser } = require("../data/db");
+const { summarizeBalance } = require("../data/point-batches");
 const { getUserId } = require("../auth/client-principal");
 
 app.http("get-user-balance", {
@@ -16,12 +17,19 @@ app.http("get-user-balance", {
         };
       }
 
+      // Snapshot of the points ledger (caught up with any newer entries):
+      // the history itself is only read page by page, by get-user-ledger.
       const user = await getUser(userId);
 
+      // Points past their expiry are not spendable, even if the nightly
+      // expiry job has not written them off yet.
+      const { points, expiringSoon } = summarizeBalance(user);
+
       return {
         jsonBody: {
           userId: user.userId,
-          points: user.points,
+          points,
+          expiringSoon,
         },
       };
     } catch (err) {
@@ -0,0 +1,48 @@
+// api/src/functions/get-user-ledger.js
+const { app } = require("@azure/functions");
+const { getUserId } = require("../auth/client-principal");
+const { listLedgerEntries } = require("../data/db");
+const { toLedgerView } = require("../data/ledger");
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+app.http("get-user-ledger", {
+  methods: ["GET"],
+  authLevel: "anonymous",
+  handler: async (request, context) => {
+    try {
+      const userId = getUserId(request);
+
+      if (!userId) {
+        return {
+          status: 401,
+          jsonBody: { error: "UNAUTHENTICATED" },
+        };
+      }
+
+      const requested = parseInt(request.query.get("limit") || "", 10);
+      const limit = Number.isFinite(requested) && requested > 0
+        ? Math.min(requested, MAX_LIMIT)
+        : DEFAULT_LIMIT;
+
+      const entries = await listLedgerEntries(userId, limit);
+
+      return {
+        jsonBody: {
+          userId,
+          entries: (entries || []).map(toLedgerView),
+        },
+      };
+    } catch (err) {
+      context.log("get-user-ledger error:", err);
+      return {
+        status: 500,
+        jsonBody: {
+          error: "INTERNAL_ERROR",
+          message: err && err.message ? err.message : "Unknown error",
+        },
+      };
+    }
+  },
+});
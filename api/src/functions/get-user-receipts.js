@@ -0,0 +1,69 @@
+// api/src/functions/get-user-receipts.js
+// The user's receipt history, newest first, accepted as well as refused ones:
+// date, amount, merchant, Couronnes earned, status, reasons, a thumbnail link and
+// a signed, short-lived link to the image.
+// ?limit= (default 20, max 50) and ?continuationToken= from the previous page.
+const { app } = require("@azure/functions");
+const { getUserId } = require("../auth/client-principal");
+const { listReceiptsPageForUser } = require("../data/db");
+const { toReceiptHistoryItem } = require("../services/receipt-processing");
+const { withImageLink } = require("../services/receipt-images");
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+app.http("get-user-receipts", {
+  methods: ["GET"],
+  authLevel: "anonymous",
+  handler: async (request, context) => {
+    try {
+      const userId = getUserId(request);
+
+      if (!userId) {
+        return {
+          status: 401,
+          jsonBody: { error: "UNAUTHENTICATED" },
+        };
+      }
+
+      const requested = parseInt(request.query.get("limit") || "", 10);
+      const limit = Number.isFinite(requested) && requested > 0
+        ? Math.min(requested, MAX_LIMIT)
+        : DEFAULT_LIMIT;
+
+      const page = await listReceiptsPageForUser(userId, {
+        pageSize: limit,
+        continuationToken: request.query.get("continuationToken") || null,
+      });
+
+      return {
+        headers: { "Cache-Control": "no-store" },
+        jsonBody: {
+          receipts: await Promise.all(
+            page.receipts.map((r) => withImageLink(toReceiptHistoryItem(r), r))
+          ),
+          continuationToken: page.continuationToken,
+        },
+      };
+    } catch (err) {
+      if (err && err.code === "INVALID_CONTINUATION_TOKEN") {
+        return {
+          status: 400,
+          jsonBody: {
+            error: "INVALID_CONTINUATION_TOKEN",
+            message: "The continuation token is invalid or has expired, start again from the first page.",
+          },
+        };
+      }
+
+      context.log("get-user-receipts error:", err);
+      return {
+        status: 500,
+        jsonBody: {
+          error: "INTERNAL_ERROR",
+          message: err && err.message ? err.message : "Unknown error",
+        },
+      };
+    }
+  },
+});
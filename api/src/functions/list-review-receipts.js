@@ -0,0 +1,54 @@
+// api/src/functions/list-review-receipts.js
+// Review queue for staff (reviewer role): receipts parked in PENDING_REVIEW,
+// oldest first, with the image, the extracted fields and why they were flagged.
+// ?limit= (default 50, max 200)
+const { app } = require("@azure/functions");
+const { getUserId, isReceiptReviewer } = require("../auth/client-principal");
+const { listReceiptsByStatus } = require("../data/db");
+const { RECEIPT_STATUS } = require("../data/receipts");
+const { toReviewQueueItem } = require("../services/receipt-processing");
+const { withImageLink } = require("../services/receipt-images");
+
+app.http("list-review-receipts", {
+  methods: ["GET"],
+  authLevel: "anonymous",
+  handler: async (request, context) => {
+    try {
+      if (!getUserId(request)) {
+        return {
+          status: 401,
+          jsonBody: { error: "UNAUTHENTICATED" },
+        };
+      }
+      if (!isReceiptReviewer(request)) {
+        return {
+          status: 403,
+          jsonBody: { error: "FORBIDDEN" },
+        };
+      }
+
+      const requested = parseInt(request.query.get("limit") || "50", 10);
+      const limit = Number.isFinite(requested) ? Math.min(Math.max(requested, 1), 200) : 50;
+
+      const receipts = await listReceiptsByStatus(RECEIPT_STATUS.PENDING_REVIEW, limit);
+
+      return {
+        headers: { "Cache-Control": "no-store" },
+        jsonBody: {
+          receipts: await Promise.all(
+            receipts.map((r) => withImageLink(toReviewQueueItem(r), r))
+          ),
+        },
+      };
+    } catch (err) {
+      context.log("list-review-receipts error:", err);
+      return {
+        status: 500,
+        jsonBody: {
+          error: "INTERNAL_ERROR",
+          message: err && err.message ? err.message : "Unknown error",
+        },
+      };
+    }
+  },
+});
@@ -0,0 +1,57 @@
+// api/src/functions/local-receipt-image.js
+// Local development only (RECEIPTS_STORAGE_LOCAL_DIR): serves the image behind
+// a signed read URL, as Blob Storage does with a read SAS. The signed query
+// string comes from createReceiptReadUrl. Answers 404 everywhere else.
+const { app } = require("@azure/functions");
+const { isLocalBlobStorage } = require("../data/blob-storage");
+
+app.http("local-receipt-image", {
+  methods: ["GET"],
+  authLevel: "anonymous",
+  handler: async (request, context) => {
+    if (!isLocalBlobStorage()) {
+      return { status: 404 };
+    }
+
+    try {
+      const localStorage = require("../data/local-blob-storage");
+      const query = request.query;
+
+      let read;
+      try {
+        read = localStorage.verifyReadUrl({
+          blobName: query.get("blobName"),
+          expires: query.get("expires"),
+          sig: query.get("sig"),
+        });
+      } catch (verifyErr) {
+        return {
+          status: 403,
+          jsonBody: { error: verifyErr.code || "FORBIDDEN", message: verifyErr.message },
+        };
+      }
+
+      const image = await localStorage.readBlob(read.blobName);
+      if (!image) {
+        return { status: 404 };
+      }
+
+      return {
+        headers: {
+          "Content-Type": image.contentType || "application/octet-stream",
+          "Cache-Control": "private, no-store",
+        },
+        body: image.buffer,
+      };
+    } catch (err) {
+      context.log("local-receipt-image error:", err);
+      return {
+        status: 500,
+        jsonBody: {
+          error: "INTERNAL_ERROR",
+          message: err && err.message ? err.message : "Unknown error",
+        },
+      };
+    }
+  },
+});
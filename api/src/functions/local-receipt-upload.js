@@ -0,0 +1,50 @@
+// api/src/functions/local-receipt-upload.js
+// Local development only (RECEIPTS_STORAGE_LOCAL_DIR): receives the PUT that
+// would go to Blob Storage with a SAS URL. The signed query string comes from
+// create-receipt-upload. Answers 404 everywhere else.
+const { app } = require("@azure/functions");
+const { isLocalBlobStorage } = require("../data/blob-storage");
+
+app.http("local-receipt-upload", {
+  methods: ["PUT"],
+  authLevel: "anonymous",
+  handler: async (request, context) => {
+    if (!isLocalBlobStorage()) {
+      return { status: 404 };
+    }
+
+    try {
+      const localStorage = require("../data/local-blob-storage");
+      const query = request.query;
+
+      let upload;
+      try {
+        upload = localStorage.verifyUploadUrl({
+          blobName: query.get("blobName"),
+          contentType: query.get("contentType"),
+          expires: query.get("expires"),
+          sig: query.get("sig"),
+        });
+      } catch (verifyErr) {
+        return {
+          status: 403,
+          jsonBody: { error: verifyErr.code || "FORBIDDEN", message: verifyErr.message },
+        };
+      }
+
+      const buffer = Buffer.from(await request.arrayBuffer());
+      await localStorage.uploadBlob(upload.blobName, upload.contentType, buffer);
+
+      return { status: 201 };
+    } catch (err) {
+      context.log("local-receipt-upload error:", err);
+      return {
+        status: 500,
+        jsonBody: {
+          error: "INTERNAL_ERROR",
+          message: err && err.message ? err.message : "Unknown error",
+        },
+      };
+    }
+  },
+});
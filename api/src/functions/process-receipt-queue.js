@@ -0,0 +1,57 @@
+// api/src/functions/process-receipt-queue.js
+// Receipt queue worker (see services/receipt-queue.js):
+//   - process-receipt-queue   analysis + points for a PENDING receipt; a thrown
+//                             error makes the runtime retry the message
+//   - receipt-queue-poison    the message failed maxDequeueCount times (host.json):
+//                             the receipt becomes FAILED
+// Without a storage queue, the same handlers run on the in-process stand-in.
+const { app } = require("@azure/functions");
+const {
+  RECEIPT_QUEUE_CONNECTION_SETTING,
+  RECEIPT_QUEUE_NAME,
+  RECEIPT_POISON_QUEUE_NAME,
+  usesStorageQueue,
+  onReceiptMessage,
+  onPoisonReceiptMessage,
+} = require("../services/receipt-queue");
+const {
+  processQueuedReceipt,
+  failQueuedReceipt,
+} = require("../services/receipt-processing");
+
+async function handleMessage(message, { dequeueCount, log }) {
+  const receipt = await processQueuedReceipt(message, { dequeueCount, log });
+  if (receipt) {
+    log(`receipt ${receipt.id}: ${receipt.status} (attempt ${dequeueCount})`);
+  }
+}
+
+async function handlePoisonMessage(message, { dequeueCount, log }) {
+  await failQueuedReceipt(message, { dequeueCount, log });
+}
+
+if (usesStorageQueue()) {
+  app.storageQueue("process-receipt-queue", {
+    queueName: RECEIPT_QUEUE_NAME,
+    connection: RECEIPT_QUEUE_CONNECTION_SETTING,
+    handler: (message, context) =>
+      handleMessage(message, {
+        dequeueCount: context.triggerMetadata.dequeueCount,
+        log: (...args) => context.log(...args),
+      }),
+  });
+
+  app.storageQueue("receipt-queue-poison", {
+    queueName: RECEIPT_POISON_QUEUE_NAME,
+    connection: RECEIPT_QUEUE_CONNECTION_SETTING,
+    // dequeueCount counts poison-queue deliveries, not the failed attempts
+    handler: (message, context) =>
+      handlePoisonMessage(message, {
+        dequeueCount: null,
+        log: (...args) => context.log(...args),
+      }),
+  });
+} else {
+  onReceiptMessage(handleMessage);
+  onPoisonReceiptMessage(handlePoisonMessage);
+}
@@ -0,0 +1,119 @@
+// api/src/functions/process-receipt.js
+// Step 2 of the direct upload: { "blobName": "uploads/<userId>/…" } from
+// create-receipt-upload, once the image has been PUT there. Same responses as
+// upload-receipt (202 + receiptId to poll).
+//
+// The uploaded blob is only a drop box: the upload URL can still write it, so
+// the receipt gets its own copy of the checked bytes (submitReceipt) and the
+// upload is deleted, accepted or not.
+const { app } = require("@azure/functions");
+const { getUserId } = require("../auth/client-principal");
+const {
+  isUserUpload,
+  fileNameFromBlobName,
+  readReceiptImage,
+  deleteReceiptImage,
+} = require("../data/blob-storage");
+const { submitReceipt, toSubmitResponse } = require("../services/receipt-processing");
+const { getMaxUploadBytes, fileTooLargeError } = require("../services/upload-validation");
+const { receiptQueueOutputs, enqueueReceipt } = require("../services/receipt-queue");
+
+app.http("process-receipt", {
+  methods: ["POST"],
+  authLevel: "anonymous",
+  extraOutputs: receiptQueueOutputs(),
+  handler: async (request, context) => {
+    try {
+      const userId = getUserId(request);
+
+      if (!userId) {
+        return {
+          status: 401,
+          jsonBody: { error: "UNAUTHENTICATED" },
+        };
+      }
+
+      let body;
+      try {
+        body = await request.json();
+      } catch {
+        body = null;
+      }
+
+      const blobName = body && body.blobName;
+
+      if (!blobName) {
+        return {
+          status: 400,
+          jsonBody: { error: "blobName required for process-receipt" },
+        };
+      }
+
+      // Only the user's own uploads: the blob is deleted below, so a stored
+      // receipt image must never get this far
+      if (!isUserUpload(userId, blobName)) {
+        return {
+          status: 403,
+          jsonBody: {
+            error: "FORBIDDEN",
+            message: "This upload does not belong to the current user.",
+          },
+        };
+      }
+
+      try {
+        // The upload URL can't limit the size: an oversized blob is refused
+        // from its properties, without downloading it
+        let image;
+        try {
+          image = await readReceiptImage(blobName, { maxBytes: getMaxUploadBytes() });
+        } catch (readErr) {
+          if (readErr.code !== "FILE_TOO_LARGE") {
+            throw readErr;
+          }
+          const tooLarge = fileTooLargeError();
+          return toSubmitResponse({
+            queued: false,
+            error: tooLarge.code,
+            rejection: { error: tooLarge.code, message: tooLarge.message },
+          });
+        }
+        if (!image) {
+          return {
+            status: 404,
+            jsonBody: {
+              error: "UPLOAD_NOT_FOUND",
+              message: "No image was uploaded for this blobName.",
+            },
+          };
+        }
+
+        const outcome = await submitReceipt({
+          userId,
+          buffer: image.buffer,
+          fileName: fileNameFromBlobName(blobName),
+          log: (...args) => context.log(...args),
+        });
+
+        if (outcome.queued) {
+          enqueueReceipt(context, outcome.receipt);
+        }
+
+        return toSubmitResponse(outcome);
+      } finally {
+        await deleteReceiptImage(blobName).catch((deleteErr) =>
+          context.log("Could not delete direct upload", deleteErr)
+        );
+      }
+    } catch (err) {
+      context.log("process-receipt error:", err);
+      return {
+        status: 500,
+        jsonBody: {
+          error: "INTERNAL_ERROR",
+          message: err && err.message ? err.message : "Unknown error",
+        },
+      };
+    }
+  },
+});
@@ -1,5 +1,6 @@
 const { app } = require("@azure/functions");
 const { createReward } = require("../data/db");
+const { summarizeBalance } = require("../data/point-batches");
 const { getUserId } = require("../auth/client-principal");
 
 // Programme BK Maroc – paliers en Couronnes
@@ -81,12 +82,15 @@ app.http("redeem-reward", {
 
       const qrPayload = `reward:${reward.id}`;
 
+      // Same balance as get-user-balance (expired points left out)
+      const { points: newBalance } = summarizeBalance(user);
+
       return {
         jsonBody: {
           rewardId: reward.id,
           rewardName: reward.name,
           pointsCost: reward.pointsCost,
-          newBalance: user.points,
+          newBalance,
           qrPayload,
           tier: reward.tier || tier || null,
         },
@@ -102,6 +106,16 @@ app.http("redeem-reward", {
         };
       }
 
+      if (err && err.code === "CONCURRENCY_CONFLICT") {
+        return {
+          status: 409,
+          jsonBody: {
+            error: "CONCURRENCY_CONFLICT",
+            message: "Your balance is being updated, please try again.",
+          },
+        };
+      }
+
       context.log("redeem-reward error:", err);
       return {
         status: 500,
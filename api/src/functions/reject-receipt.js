@@ -0,0 +1,84 @@
+// api/src/functions/reject-receipt.js
+// Reviewer decision on a PENDING_REVIEW receipt: rejected, no points. The
+// reason is shown to the customer; the image is deleted and can be sent again.
+// POST { userId, receiptId, reason }
+const { app } = require("@azure/functions");
+const { getUserId, isReceiptReviewer } = require("../auth/client-principal");
+const {
+  rejectReviewedReceipt,
+  toReceiptStatusResponse,
+} = require("../services/receipt-processing");
+
+const ERROR_STATUS = {
+  RECEIPT_NOT_FOUND: 404,
+  RECEIPT_NOT_IN_REVIEW: 409,
+  SELF_REVIEW_FORBIDDEN: 403,
+  REASON_REQUIRED: 400,
+};
+
+app.http("reject-receipt", {
+  methods: ["POST"],
+  authLevel: "anonymous",
+  handler: async (request, context) => {
+    try {
+      const reviewerId = getUserId(request);
+
+      if (!reviewerId) {
+        return {
+          status: 401,
+          jsonBody: { error: "UNAUTHENTICATED" },
+        };
+      }
+      if (!isReceiptReviewer(request)) {
+        return {
+          status: 403,
+          jsonBody: { error: "FORBIDDEN" },
+        };
+      }
+
+      let body;
+      try {
+        body = await request.json();
+      } catch {
+        body = {};
+      }
+
+      const { userId, receiptId, reason } = body || {};
+      if (!userId || !receiptId) {
+        return {
+          status: 400,
+          jsonBody: { error: "userId and receiptId required for reject-receipt" },
+        };
+      }
+
+      try {
+        const receipt = await rejectReviewedReceipt({
+          userId,
+          receiptId,
+          reason,
+          reviewerId,
+          log: (...args) => context.log(...args),
+        });
+        context.log(`receipt ${receiptId}: rejected by ${reviewerId}`);
+        return { jsonBody: toReceiptStatusResponse(receipt) };
+      } catch (err) {
+        if (!ERROR_STATUS[err.code]) {
+          throw err;
+        }
+        return {
+          status: ERROR_STATUS[err.code],
+          jsonBody: { error: err.code, message: err.message },
+        };
+      }
+    } catch (err) {
+      context.log("reject-receipt error:", err);
+      return {
+        status: 500,
+        jsonBody: {
+          error: "INTERNAL_ERROR",
+          message: err && err.message ? err.message : "Unknown error",
+        },
+      };
+    }
+  },
+});
@@ -0,0 +1,82 @@
+// api/src/functions/sweep-pending-receipts.js
+// Receipts left PENDING because their queue message was lost are enqueued
+// again, or FAILED after a few tries (restartStaleReceipt in
+// services/receipt-processing.js):
+//   - POST sweep-pending-receipts   operations role; for the Static Web Apps
+//     managed API (HTTP functions only), called by an external scheduler or
+//     by hand. ?limit= PENDING receipts looked at (default 100, max 500).
+//   - sweep-pending-receipts-timer  every 10 minutes, registered only next to
+//     the queue trigger, in the API's own Function App (receipt-queue.js)
+const { app } = require("@azure/functions");
+const { getUserId, isOperationsStaff } = require("../auth/client-principal");
+const { sweepStalePendingReceipts } = require("../services/receipt-processing");
+const {
+  usesStorageQueue,
+  receiptQueueOutputs,
+  enqueueReceipt,
+} = require("../services/receipt-queue");
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+
+async function sweep(context, limit = DEFAULT_LIMIT) {
+  const { checked, requeued, failed } = await sweepStalePendingReceipts({
+    limit,
+    log: (...args) => context.log(...args),
+  });
+  for (const receipt of requeued) {
+    enqueueReceipt(context, receipt);
+  }
+  return { checked, requeued: requeued.length, failed };
+}
+
+app.http("sweep-pending-receipts", {
+  methods: ["POST"],
+  authLevel: "anonymous",
+  extraOutputs: receiptQueueOutputs(),
+  handler: async (request, context) => {
+    try {
+      if (!getUserId(request)) {
+        return {
+          status: 401,
+          jsonBody: { error: "UNAUTHENTICATED" },
+        };
+      }
+      if (!isOperationsStaff(request)) {
+        return {
+          status: 403,
+          jsonBody: { error: "FORBIDDEN" },
+        };
+      }
+
+      const requested = Number(request.query.get("limit"));
+      const limit =
+        Number.isInteger(requested) && requested > 0
+          ? Math.min(requested, MAX_LIMIT)
+          : DEFAULT_LIMIT;
+
+      const summary = await sweep(context, limit);
+      context.log("sweep-pending-receipts summary:", summary);
+      return { jsonBody: summary };
+    } catch (err) {
+      context.log("sweep-pending-receipts error:", err);
+      return {
+        status: 500,
+        jsonBody: {
+          error: "INTERNAL_ERROR",
+          message: err && err.message ? err.message : "Unknown error",
+        },
+      };
+    }
+  },
+});
+
+if (usesStorageQueue()) {
+  app.timer("sweep-pending-receipts-timer", {
+    schedule: "0 */10 * * * *",
+    extraOutputs: receiptQueueOutputs(),
+    handler: async (timer, context) => {
+      context.log("sweep-pending-receipts summary:", await sweep(context));
+    },
+  });
+}
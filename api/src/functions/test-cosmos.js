@@ -1,25 +1,17 @@
 const { app } = require("@azure/functions");
-
-// 🔧 Ensure 'crypto' exists for the Cosmos SDK / worker bundle
-// (SWA worker bundle sometimes expects a global 'crypto' variable)
-const nodeCrypto = require("crypto");
-global.crypto = global.crypto || nodeCrypto; // define global.crypto
-// also keep a local variable so bundler definitely keeps it:
-const crypto = nodeCrypto;
+// cosmos-client also installs the global 'crypto' polyfill the SWA worker needs
+const {
+  isCosmosConfigured,
+  getDatabaseName,
+  getUsersContainer,
+} = require("../data/cosmos-client");
 
 app.http("test-cosmos", {
   methods: ["GET"],
   authLevel: "anonymous",
   handler: async (request, context) => {
     try {
-      const { CosmosClient } = require("@azure/cosmos");
-
-      const connStr = process.env.COSMOS_DB_CONNECTION_STRING;
-      const dbName = process.env.COSMOS_DB_NAME || "bkloyalty";
-      const usersContainerName =
-        process.env.COSMOS_DB_USERS_CONTAINER || "Users";
-
-      if (!connStr) {
+      if (!isCosmosConfigured()) {
         return {
           status: 500,
           jsonBody: {
@@ -29,9 +21,10 @@ app.http("test-cosmos", {
         };
       }
 
-      const client = new CosmosClient(connStr);
-      const db = client.database(dbName);
-      const container = db.container(usersContainerName);
+      // Shared client: this also checks the settings the other functions use
+      const dbName = getDatabaseName();
+      const container = getUsersContainer();
+      const usersContainerName = container.id;
 
       const { resources } = await container.items
         .query("SELECT TOP 5 * FROM c")
@@ -1,6 +1,16 @@
 const { app } = require("@azure/functions");
 const { redeemReward } = require("../data/db");
 
+const QR_PREFIX = "reward:";
+
+// Accepts the reward id or the raw QR payload ("reward:<id>").
+function toRewardId(value) {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  const id = trimmed.startsWith(QR_PREFIX) ? trimmed.slice(QR_PREFIX.length) : trimmed;
+  return id || null;
+}
+
 app.http("validate-reward", {
   methods: ["POST", "GET"],
   authLevel: "anonymous",
@@ -15,7 +25,7 @@ app.http("validate-reward", {
       bodyId = null;
     }
 
-    const rewardId = bodyId || urlId;
+    const rewardId = toRewardId(bodyId || urlId);
 
     if (!rewardId) {
       return {
@@ -44,6 +54,17 @@ app.http("validate-reward", {
       };
     }
 
+    if (result.voided) {
+      return {
+        status: 410,
+        jsonBody: {
+          valid: false,
+          reason: "VOIDED",
+          rewardName: result.reward.name,
+        },
+      };
+    }
+
     return {
       jsonBody: {
         valid: true,
@@ -0,0 +1,38 @@
+// api/src/models/ledger-entry.js
+const { CURRENT_SCHEMA_VERSIONS } = require("../data/documents");
+
+module.exports = class LedgerEntry {
+  constructor({
+    id,
+    userId,
+    seq,
+    kind,
+    delta,
+    reason = null,
+    sourceType = null,
+    sourceId = null,
+    expiresAt = null,
+    consumedBatches,
+    expiredBatches,
+    balanceBefore,
+    balanceAfter,
+    createdAt = new Date().toISOString(),
+  }) {
+    this.id = id;                   // "ledger-<seq>", unique inside the user partition
+    this.userId = userId;           // partition key /userId (same as the user doc)
+    this.seq = seq;                 // 1, 2, 3… per user
+    this.kind = kind;               // EARN | BURN | ADJUST | EXPIRE
+    this.delta = delta;             // +7 for a receipt, -40 for a reward
+    this.reason = reason;           // e.g. "RECEIPT", "CROWN_40", "OPENING_BALANCE"
+    this.sourceType = sourceType;   // "receipt" | "reward" | "manual" | "migration" | "expiry"
+    this.sourceId = sourceId;       // id of the receipt / reward document
+    this.expiresAt = expiresAt;     // credits only: when the remaining points expire
+    if (consumedBatches) this.consumedBatches = consumedBatches; // BURN: [{ entryId, points, expiresAt }]
+    if (expiredBatches) this.expiredBatches = expiredBatches;    // EXPIRE: same shape
+    this.balanceBefore = balanceBefore;
+    this.balanceAfter = balanceAfter;
+    this.createdAt = createdAt;
+    this.type = "ledger";
+    this.schemaVersion = CURRENT_SCHEMA_VERSIONS.ledger;
+  }
+};
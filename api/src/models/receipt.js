@@ -1,18 +1,73 @@
+const { CURRENT_SCHEMA_VERSIONS } = require("../data/documents");
+
 module.exports = class Receipt {
   constructor({
     id,
     userId,
     blobUrl,
+    blobName = null,
     amount,
     pointsEarned,
-    createdAt = new Date().toISOString()
+    imageHash = null,
+    perceptualHash = null,
+    perceptualBands = [],
+    nearDuplicate = null,
+    merchantName = null,
+    receiptDate = null,
+    rawDateText = null,
+    storeId = null,
+    matchedStoreId = null,
+    ticketNumber = null,
+    transactionTime = null,
+    receiptKey = null,
+    duplicateOf = null,
+    items = [],
+    bonusPoints = 0,
+    bonuses = [],
+    status = "ACCEPTED",
+    reasons = [],
+    confidences = null,
+    review = null,
+    rejection = null,
+    failure = null,
+    requeueCount = 0,
+    requeuedAt = null,
+    createdAt = new Date().toISOString(),
+    processedAt = createdAt
   }) {
     this.id = id;
     this.userId = userId;
-    this.blobUrl = blobUrl; // link to Blob Storage file
+    this.blobUrl = blobUrl; // legacy raw blob URL, no longer stored (private container, signed links)
+    this.blobName = blobName; // "<userId>/…" name inside the receipts container
     this.amount = amount; // parsed by Document Intelligence
-    this.pointsEarned = pointsEarned; // e.g. 1€ = 10 points
+    this.pointsEarned = pointsEarned; // 10 MAD = 1 Couronne
+    this.imageHash = imageHash; // sha256 of the uploaded image (anti-fraud)
+    this.perceptualHash = perceptualHash; // dHash, survives re-shots / crops (services/perceptual-hash.js)
+    this.perceptualBands = perceptualBands; // its 16 rows, looked up by near-duplicates.js (data/receipts.js)
+    this.nearDuplicate = nearDuplicate; // { receiptId, sameUser, distance } closest earlier match
+    this.merchantName = merchantName;
+    this.receiptDate = receiptDate; // date printed on the receipt (ISO)
+    this.rawDateText = rawDateText;
+    this.storeId = storeId; // restaurant number printed on the ticket (or "tel:<phone>")
+    this.matchedStoreId = matchedStoreId; // restaurant of the store registry (services/store-registry.js)
+    this.ticketNumber = ticketNumber;
+    this.transactionTime = transactionTime; // "HH:MM" printed on the ticket
+    this.receiptKey = receiptKey; // canonical ticket key, unique across users (services/receipt-key.js)
+    this.duplicateOf = duplicateOf; // { receiptId, userId, claimedAt } original claim, for fraud review
+    this.items = items; // line items (services/product-catalog.js)
+    this.bonusPoints = bonusPoints; // part of pointsEarned from product bonuses
+    this.bonuses = bonuses; // [{ bonusId, label, points, quantity }]
+    this.status = status; // PENDING | ACCEPTED | REJECTED | FAILED | PENDING_REVIEW (data/receipts.js)
+    this.reasons = reasons; // non-blocking rule reasons (warning / review)
+    this.confidences = confidences; // { amount, transactionDate, merchantName } read confidences (0–1)
+    this.review = review; // { reasons, flaggedAt, decision, reviewedBy, reviewedAt, note, detectedAmount } manual review
+    this.rejection = rejection; // { error, reasons, ... } when REJECTED
+    this.failure = failure; // { error, message, attempts } when FAILED
+    this.requeueCount = requeueCount; // times a stale PENDING receipt was enqueued again
+    this.requeuedAt = requeuedAt; // last time it was
     this.createdAt = createdAt;
+    this.processedAt = processedAt;
     this.type = "receipt";
+    this.schemaVersion = CURRENT_SCHEMA_VERSIONS.receipt;
   }
 };
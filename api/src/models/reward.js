@@ -1,3 +1,5 @@
+const { CURRENT_SCHEMA_VERSIONS } = require("../data/documents");
+
 module.exports = class Reward {
   constructor({
     id,
@@ -8,6 +10,7 @@ module.exports = class Reward {
     redeemed = false,
     createdAt = new Date().toISOString(),
     redeemedAt = null,
+    voidedAt = null,
     tier = null,
   }) {
     this.id = id;
@@ -18,7 +21,9 @@ module.exports = class Reward {
     this.redeemed = redeemed;
     this.createdAt = createdAt;
     this.redeemedAt = redeemedAt;
+    this.voidedAt = voidedAt; // set when the owner deleted the account before redeeming it
     this.tier = tier; // e.g. "FREE_SIDE"
     this.type = "reward";
+    this.schemaVersion = CURRENT_SCHEMA_VERSIONS.reward;
   }
 };
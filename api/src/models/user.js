@@ -1,17 +1,25 @@
 // api/src/models/user.js
+const { CURRENT_SCHEMA_VERSIONS } = require("../data/documents");
 
 module.exports = class User {
   constructor({
     id,
-    email,
+    email = null,
     points = 0,
+    ledgerSeq = 0,
+    pointBatches = [],
     createdAt = new Date().toISOString(),
+    updatedAt = createdAt,
   }) {
     this.id = id;           // Cosmos "id"
     this.userId = id;       // IMPORTANT: matches partition key /userId
     this.email = email;
-    this.points = points;
+    this.points = points;   // cached snapshot of the ledger balance
+    this.ledgerSeq = ledgerSeq; // seq of the last ledger entry applied to `points`
+    this.pointBatches = pointBatches; // batches still holding points, same seq (point-batches.js)
     this.createdAt = createdAt;
+    this.updatedAt = updatedAt;
     this.type = "user";
+    this.schemaVersion = CURRENT_SCHEMA_VERSIONS.user;
   }
 };
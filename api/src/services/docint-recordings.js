@@ -0,0 +1,178 @@
+// api/src/services/docint-recordings.js
+// Regression corpus for the receipt extraction heuristics in
+// document-intelligence.js. A recording is the raw prebuilt-receipt result of
+// one real receipt, plus the fields we expect to extract from it:
+//
+//   <DOCINT_RECORDINGS_DIR>/<sha256 of the image>.json
+//   { formatVersion, model, recordedAt, imageHash, fileName, expected, result }
+//
+// `expected` starts as what the extraction returned when recording; correct it
+// by hand when it was wrong. `npm run docint:replay` runs every recording back
+// through extractReceiptInfo (no network) and reports field-by-field diffs.
+//
+// Config (app settings):
+//   DOCINT_RECORD            "true" → every Azure analysis is recorded
+//   DOCINT_RECORDINGS_DIR    default api/fixtures/docint
+
+const fs = require("fs");
+const path = require("path");
+const crypto = require("crypto");
+const { businessDay } = require("../config/business-time");
+
+const FORMAT_VERSION = 1;
+const MODEL_ID = "prebuilt-receipt";
+const COMPARED_FIELDS = [
+  "amount",
+  "merchantName",
+  "transactionDate",
+  "rawDateText",
+  "hasBurgerKing",
+  "items",
+  "transactionTime",
+  "ticketNumber",
+  "storeId",
+  "merchantAddress",
+  "merchantPhone",
+  "confidences",
+];
+const AMOUNT_TOLERANCE = 0.005;
+
+function getRecordingsDir() {
+  const dir = process.env.DOCINT_RECORDINGS_DIR;
+  return dir ? path.resolve(dir) : path.join(__dirname, "..", "..", "fixtures", "docint");
+}
+
+function isRecordingEnabled() {
+  const flag = (process.env.DOCINT_RECORD || "").trim().toLowerCase();
+  return flag === "true" || flag === "1";
+}
+
+function imageHashOf(buffer) {
+  return crypto.createHash("sha256").update(buffer).digest("hex");
+}
+
+// The SDK returns Date objects (date fields); keep them Dates on replay.
+function encodeDates(key, value) {
+  const raw = this[key];
+  return raw instanceof Date ? { $date: raw.toISOString() } : value;
+}
+
+function decodeDates(key, value) {
+  if (value && typeof value === "object" && typeof value.$date === "string") {
+    const keys = Object.keys(value);
+    if (keys.length === 1) return new Date(value.$date);
+  }
+  return value;
+}
+
+// Extraction output in the JSON shape stored under `expected`.
+function toExpected(info) {
+  return {
+    amount: info.amount,
+    merchantName: info.merchantName,
+    // business day: receipts are compared on the day, not the instant
+    transactionDate: businessDay(info.transactionDate),
+    rawDateText: info.rawDateText,
+    hasBurgerKing: info.hasBurgerKing,
+    items: (info.items || []).map((item) => ({
+      description: item.description,
+      quantity: item.quantity,
+      totalPrice: item.totalPrice,
+    })),
+    transactionTime: info.transactionTime,
+    ticketNumber: info.ticketNumber,
+    storeId: info.storeId,
+    merchantAddress: info.merchantAddress,
+    merchantPhone: info.merchantPhone,
+    confidences: info.confidences || null,
+  };
+}
+
+function sameValue(field, expected, actual) {
+  if (field === "amount" && typeof expected === "number" && typeof actual === "number") {
+    return Math.abs(expected - actual) < AMOUNT_TOLERANCE;
+  }
+  if (field === "items" || field === "confidences") {
+    return JSON.stringify(expected) === JSON.stringify(actual);
+  }
+  return expected === actual;
+}
+
+// Fields missing from `expected` are not checked, so a recording can pin
+// only the fields someone verified.
+function diffExpected(expected, info) {
+  const actual = toExpected(info);
+  const diffs = [];
+
+  for (const field of COMPARED_FIELDS) {
+    if (!expected || !(field in expected)) continue;
+    if (!sameValue(field, expected[field], actual[field])) {
+      diffs.push({ field, expected: expected[field], actual: actual[field] });
+    }
+  }
+
+  return diffs;
+}
+
+function recordingPath(imageHash, dir = getRecordingsDir()) {
+  return path.join(dir, `${imageHash}.json`);
+}
+
+function readRecording(filePath) {
+  return JSON.parse(fs.readFileSync(filePath, "utf8"), decodeDates);
+}
+
+function writeRecording(filePath, recording) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(recording, encodeDates, 2) + "\n", "utf8");
+}
+
+// Existing recordings are kept (their `expected` may have been corrected by
+// hand) unless `force` is set. Returns { filePath, created }.
+function saveRecording({ buffer, fileName = null, result, extracted, force = false }) {
+  const imageHash = imageHashOf(buffer);
+  const filePath = recordingPath(imageHash);
+
+  if (!force && fs.existsSync(filePath)) {
+    return { filePath, created: false };
+  }
+
+  writeRecording(filePath, {
+    formatVersion: FORMAT_VERSION,
+    model: MODEL_ID,
+    recordedAt: new Date().toISOString(),
+    imageHash,
+    fileName,
+    expected: toExpected(extracted),
+    result,
+  });
+  return { filePath, created: true };
+}
+
+function listRecordingFiles(dir = getRecordingsDir()) {
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir)
+    .filter((name) => name.endsWith(".json"))
+    .sort()
+    .map((name) => path.join(dir, name));
+}
+
+// Recording of this exact image, or null.
+function findRecording(buffer) {
+  const filePath = recordingPath(imageHashOf(buffer));
+  return fs.existsSync(filePath) ? readRecording(filePath) : null;
+}
+
+module.exports = {
+  COMPARED_FIELDS,
+  getRecordingsDir,
+  isRecordingEnabled,
+  toExpected,
+  diffExpected,
+  readRecording,
+  writeRecording,
+  saveRecording,
+  listRecordingFiles,
+  findRecording,
+};
@@ -1,32 +1,65 @@
+// api/src/services/document-intelligence.js
+// Azure implementation of the receipt analyzer (see receipt-analyzer.js):
+// prebuilt-receipt model of Azure AI Document Intelligence.
 const { AzureKeyCredential, DocumentAnalysisClient } = require("@azure/ai-form-recognizer");
+const {
+  getDocumentIntelligenceClientOptions,
+  getDocumentIntelligenceTimeoutMs,
+} = require("../config/client-settings");
+const {
+  businessDay,
+  businessDateTime,
+  businessDaysBetween,
+} = require("../config/business-time");
+const { isRecordingEnabled, saveRecording } = require("./docint-recordings");
 
 const endpoint = process.env.DOCINT_ENDPOINT;
 const key = process.env.DOCINT_KEY;
 
 let client = null;
 
+function isDocumentIntelligenceConfigured() {
+  return !!(endpoint && key);
+}
+
 function getClient() {
   if (!endpoint || !key) {
-    throw new Error("Document Intelligence not configured (DOCINT_ENDPOINT / DOCINT_KEY).");
+    const err = new Error("Document Intelligence not configured (DOCINT_ENDPOINT / DOCINT_KEY).");
+    err.code = "DOCINT_NOT_CONFIGURED";
+    throw err;
   }
   if (!client) {
     const credential = new AzureKeyCredential(key);
-    client = new DocumentAnalysisClient(endpoint, credential);
+    client = new DocumentAnalysisClient(
+      endpoint,
+      credential,
+      getDocumentIntelligenceClientOptions()
+    );
   }
   return client;
 }
 
 // ---------- helpers ----------
 
-function extractAmountFromFields(fields) {
-  if (!fields) return null;
+// Confidence (0–1) the receipt model gives a field; null when there is no
+// field (value read from the raw text) or no score.
+function fieldConfidence(field) {
+  return field && typeof field.confidence === "number" ? field.confidence : null;
+}
 
-  const candidate =
+function amountField(fields) {
+  if (!fields) return null;
+  return (
     fields.Total ||
     fields.TransactionTotal ||
     fields.Subtotal ||
     fields.SubTotal ||
-    null;
+    null
+  );
+}
+
+function extractAmountFromFields(fields) {
+  const candidate = amountField(fields);
 
   if (!candidate) return null;
 
@@ -109,9 +142,61 @@ function detectBurgerKing(fields, result) {
   return false;
 }
 
+// Number from a field: plain number, currency ({ amount }) or printed text.
+function numberFromField(field) {
+  if (!field) return null;
+
+  const raw = field.value ?? field.valueNumber ?? field.valueCurrency ?? field.content ?? null;
+
+  if (typeof raw === "number") {
+    return raw;
+  }
+  if (raw && typeof raw === "object" && typeof raw.amount === "number") {
+    return raw.amount;
+  }
+  if (typeof raw === "string") {
+    const parsed = parseFloat(raw.replace(",", ".").replace(/[^\d.]/g, ""));
+    return Number.isNaN(parsed) ? null : parsed;
+  }
+
+  return null;
+}
+
+function textFromField(field) {
+  if (!field) return null;
+  const raw = typeof field.value === "string" ? field.value : field.content;
+  return typeof raw === "string" && raw.trim() ? raw.trim() : null;
+}
+
+// Items: [{ description, quantity, unitPrice, totalPrice }] as printed.
+// Matching them against the product catalog is done by product-catalog.js.
+function extractLineItems(fields) {
+  const itemsField = fields && fields.Items;
+  const values = itemsField ? itemsField.values || itemsField.valueArray || [] : [];
+
+  const items = [];
+  for (const value of values) {
+    const props = (value && (value.properties || value.valueObject)) || {};
+    const description = textFromField(props.Description) || textFromField(props.Name);
+    const quantity = numberFromField(props.Quantity);
+    const unitPrice = numberFromField(props.Price);
+    let totalPrice = numberFromField(props.TotalPrice);
+
+    if (totalPrice === null && unitPrice !== null) {
+      totalPrice = unitPrice * (quantity || 1);
+    }
+    if (!description && totalPrice === null) continue;
+
+    items.push({ description, quantity, unitPrice, totalPrice });
+  }
+
+  return items;
+}
+
 // Normalize dd/mm/yyyy or mm/dd/yyyy.
-// Rule: try BOTH and pick the one closest to TODAY.
-// If no dd/mm pattern → use normal Date().
+// Rule: try BOTH and pick the one closest to TODAY (business day, see
+// config/business-time.js). The date is midnight in the business zone.
+// If no dd/mm pattern → yyyy-mm-dd, else normal Date().
 function normalizeReceiptDate(rawText, now) {
   if (!rawText || typeof rawText !== "string") {
     return { date: null, rawText: null };
@@ -125,8 +210,12 @@ function normalizeReceiptDate(rawText, now) {
   const pattern = /(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{2,4})/;
   const match = text.match(pattern);
 
-  // No explicit 12/10/2025-style pattern → use native parsing
+  // No explicit 12/10/2025-style pattern → ISO day, else native parsing
   if (!match) {
+    const iso = /(\d{4})-(\d{2})-(\d{2})/.exec(text);
+    if (iso) {
+      return { date: businessDateTime(iso[0]), rawText: text };
+    }
     const direct = new Date(text);
     if (!Number.isNaN(direct.getTime())) {
       return { date: direct, rawText: text };
@@ -150,11 +239,10 @@ function normalizeReceiptDate(rawText, now) {
   const candidates = [];
 
   function pushCandidate(day, month) {
-    if (day < 1 || day > 31) return;
-    if (month < 1 || month > 12) return;
-    // local time, midnight
-    const d = new Date(year, month - 1, day);
-    candidates.push(d);
+    const iso = `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+    // null for impossible days (31/02…); business-zone midnight otherwise
+    const d = businessDateTime(iso);
+    if (d) candidates.push(d);
   }
 
   // Morocco default dd/mm/yyyy
@@ -172,31 +260,14 @@ function normalizeReceiptDate(rawText, now) {
   if (!now) {
     now = new Date();
   }
-  const baseMidnight = new Date(
-    now.getFullYear(),
-    now.getMonth(),
-    now.getDate()
-  ).getTime();
 
   let best = candidates[0];
-  let bestScore = Math.abs(
-    new Date(
-      best.getFullYear(),
-      best.getMonth(),
-      best.getDate()
-    ).getTime() - baseMidnight
-  );
+  let bestScore = Math.abs(businessDaysBetween(best, now));
 
   for (let i = 1; i < candidates.length; i++) {
-    const c = candidates[i];
-    const cMidnight = new Date(
-      c.getFullYear(),
-      c.getMonth(),
-      c.getDate()
-    ).getTime();
-    const score = Math.abs(cMidnight - baseMidnight);
+    const score = Math.abs(businessDaysBetween(candidates[i], now));
     if (score < bestScore) {
-      best = c;
+      best = candidates[i];
       bestScore = score;
     }
   }
@@ -204,8 +275,10 @@ function normalizeReceiptDate(rawText, now) {
   return { date: best, rawText: text };
 }
 
-function extractTransactionDate(fields, result) {
+// -> { date, rawText, confidence } (confidence of the field the date was read from)
+function extractTransactionDate(fields, result, now = new Date()) {
   let rawText = null;
+  let source = null;
   const dateFields = [];
 
   if (fields) {
@@ -218,10 +291,12 @@ function extractTransactionDate(fields, result) {
   for (const f of dateFields) {
     if (f && typeof f.content === "string" && f.content.trim()) {
       rawText = f.content.trim();
+      source = f;
       break;
     }
     if (f && typeof f.value === "string" && f.value.trim()) {
       rawText = f.value.trim();
+      source = f;
       break;
     }
   }
@@ -235,35 +310,133 @@ function extractTransactionDate(fields, result) {
   }
 
   if (rawText) {
-    const normalized = normalizeReceiptDate(rawText, new Date());
-    return { date: normalized.date, rawText: normalized.rawText };
+    const normalized = normalizeReceiptDate(rawText, now);
+    return {
+      date: normalized.date,
+      rawText: normalized.rawText,
+      confidence: fieldConfidence(source),
+    };
   }
 
   // LAST RESORT: if AI gave us a Date directly and we really have nothing else
   for (const f of dateFields) {
     if (f && f.valueDate instanceof Date && !Number.isNaN(f.valueDate.getTime())) {
-      return { date: f.valueDate, rawText: null };
+      // a calendar day (UTC midnight): same day in the business zone
+      const day = f.valueDate.toISOString().slice(0, 10);
+      return { date: businessDateTime(day), rawText: null, confidence: fieldConfidence(f) };
     }
   }
 
-  return { date: null, rawText: null };
+  return { date: null, rawText: null, confidence: null };
+}
+
+// ---------- ticket identity (receipt-key.js) ----------
+
+function contentLines(result) {
+  if (!result || typeof result.content !== "string") return [];
+  return result.content.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
+}
+
+// "HH:MM", from TransactionTime or the first time printed on the ticket.
+function extractTransactionTime(fields, result) {
+  const pattern = /\b([01]?\d|2[0-3])\s*[:hH]\s*([0-5]\d)\b/;
+  const candidates = [];
+
+  if (fields && fields.TransactionTime) {
+    const f = fields.TransactionTime;
+    if (typeof f.value === "string") candidates.push(f.value);
+    if (typeof f.content === "string") candidates.push(f.content);
+  }
+  candidates.push(...contentLines(result));
+
+  for (const text of candidates) {
+    const m = text.match(pattern);
+    if (m) {
+      return `${m[1].padStart(2, "0")}:${m[2]}`;
+    }
+  }
+  return null;
+}
+
+// Ticket / order number: "Ticket N° 000123", "Commande #4521", "Order: A-17".
+function extractTicketNumber(result) {
+  const pattern =
+    /\b(?:ticket|tkt|commande|cmd|order|check|chk|transaction|trans)\b\s*(?:n\s*[°o]\.?|no\.?|num(?:[ée]ro)?\.?|#)?\s*[:#]?\s*([A-Z0-9][A-Z0-9-]{0,19})/i;
+
+  for (const line of contentLines(result)) {
+    const m = line.match(pattern);
+    if (m && /\d/.test(m[1])) {
+      return m[1].toUpperCase();
+    }
+  }
+  return null;
+}
+
+// Restaurant identifier: "Restaurant N° 2104", "BK #17", "Store 0451". Falls
+// back to the restaurant's phone number, which is also unique per restaurant.
+function extractStoreId(fields, result) {
+  const pattern =
+    /\b(?:restaurant|resto|rest|store|magasin|bk)\b\.?\s*(?:n\s*[°o]\.?|no\.?|num(?:[ée]ro)?\.?|#)?\s*[:#]?\s*(\d{2,6})\b/i;
+
+  for (const line of contentLines(result)) {
+    const m = line.match(pattern);
+    if (m) {
+      return m[1].replace(/^0+(?=\d)/, "");
+    }
+  }
+
+  const phone = extractMerchantPhone(fields);
+  return phone ? `tel:${phone}` : null;
+}
+
+// Restaurant phone, last 9 digits ("+212 5 22 00 01 01" -> "522000101").
+function extractMerchantPhone(fields) {
+  const phone = fields && fields.MerchantPhoneNumber;
+  const rawPhone = phone && (typeof phone.value === "string" ? phone.value : phone.content);
+  const digits = typeof rawPhone === "string" ? rawPhone.replace(/\D/g, "") : "";
+  return digits.length >= 8 ? digits.slice(-9) : null;
+}
+
+// Restaurant address as printed (store-registry.js matches it).
+function extractMerchantAddress(fields) {
+  const address = fields && fields.MerchantAddress;
+  if (!address) return null;
+  const text = typeof address.content === "string" ? address.content : null;
+  return text && text.trim() ? text.replace(/\s+/g, " ").trim() : null;
 }
 
 // ---------- main analysis ----------
 
-async function analyzeReceipt(buffer) {
+// Raw prebuilt-receipt result, as returned by the SDK.
+async function analyzeRawReceipt(buffer) {
   const client = getClient();
 
-  const poller = await client.beginAnalyzeDocument("prebuilt-receipt", buffer);
-  const result = await poller.pollUntilDone();
+  // One deadline for the upload + polling, so a slow analysis fails (and is
+  // retried by the receipt queue) instead of running until the host times out
+  const abortSignal = AbortSignal.timeout(getDocumentIntelligenceTimeoutMs());
+  const poller = await client.beginAnalyzeDocument("prebuilt-receipt", buffer, {
+    abortSignal,
+  });
+  return poller.pollUntilDone({ abortSignal });
+}
 
-  if (!result.documents || !result.documents.length) {
+// Pure part of the analysis: raw result -> receipt fields. `now` decides
+// between dd/mm and mm/dd (replays pass the recording date).
+function extractReceiptInfo(result, now = new Date()) {
+  if (!result || !result.documents || !result.documents.length) {
     return {
       amount: null,
       merchantName: null,
       transactionDate: null,
       rawDateText: null,
       hasBurgerKing: null,
+      items: [],
+      transactionTime: null,
+      ticketNumber: null,
+      storeId: null,
+      merchantAddress: null,
+      merchantPhone: null,
+      confidences: { amount: null, transactionDate: null, merchantName: null },
     };
   }
 
@@ -272,11 +445,19 @@ async function analyzeReceipt(buffer) {
 
   const amount = extractAmountFromFields(fields);
   const merchantName = extractMerchantName(fields, result);
-  const { date: transactionDate, rawText: rawDateText } = extractTransactionDate(
-    fields,
-    result
-  );
+  const {
+    date: printedDate,
+    rawText: rawDateText,
+    confidence: dateConfidence,
+  } = extractTransactionDate(fields, result, now);
+  const transactionTime = extractTransactionTime(fields, result);
+  // Date and time printed on the ticket, as one instant (Moroccan time)
+  const transactionDate =
+    printedDate && transactionTime
+      ? businessDateTime(businessDay(printedDate), transactionTime)
+      : printedDate;
   const hasBurgerKing = detectBurgerKing(fields, result);
+  const items = extractLineItems(fields);
 
   return {
     amount,
@@ -284,9 +465,37 @@ async function analyzeReceipt(buffer) {
     transactionDate,
     rawDateText,
     hasBurgerKing,
+    items,
+    transactionTime,
+    ticketNumber: extractTicketNumber(result),
+    storeId: extractStoreId(fields, result),
+    merchantAddress: extractMerchantAddress(fields),
+    merchantPhone: extractMerchantPhone(fields),
+    // per-field confidences for the acceptance rules (receipt-rules.js)
+    confidences: {
+      amount: amount !== null ? fieldConfidence(amountField(fields)) : null,
+      transactionDate: transactionDate ? dateConfidence : null,
+      merchantName: fields.MerchantName ? fieldConfidence(fields.MerchantName) : null,
+    },
   };
 }
 
+async function analyzeReceipt(buffer, { fileName = null, log = () => {} } = {}) {
+  const result = await analyzeRawReceipt(buffer);
+  const info = extractReceiptInfo(result);
+
+  // DOCINT_RECORD: keep the raw result for the regression corpus
+  if (isRecordingEnabled()) {
+    try {
+      saveRecording({ buffer, fileName, result, extracted: info });
+    } catch (recordErr) {
+      log("Could not record Document Intelligence result:", recordErr.message);
+    }
+  }
+
+  return info;
+}
+
 // Backward-compatible helper
 async function extractTotalAmountFromReceipt(buffer) {
   const info = await analyzeReceipt(buffer);
@@ -294,6 +503,9 @@ async function extractTotalAmountFromReceipt(buffer) {
 }
 
 module.exports = {
+  isDocumentIntelligenceConfigured,
+  analyzeRawReceipt,
+  extractReceiptInfo,
   analyzeReceipt,
   extractTotalAmountFromReceipt,
 };
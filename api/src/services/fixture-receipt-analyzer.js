@@ -0,0 +1,197 @@
+// api/src/services/fixture-receipt-analyzer.js
+// Offline receipt analyzer (RECEIPT_ANALYZER=fixture): returns configured
+// results instead of calling Document Intelligence, so the whole receipt flow
+// runs without Azure. Results come from, in order:
+//
+//   1. RECEIPT_FIXTURES_DIR: sample images with a sidecar JSON next to them
+//      (ticket-ok.jpg + ticket-ok.json). An upload matches when it is the same
+//      file (sha256), whatever its name.
+//   2. RECEIPT_FIXTURES_FILE: { "fixtures": [{ "match": {...}, "result": {...} }],
+//      "default": {...} } where match is { "imageHash": "<sha256>" } or
+//      { "fileName": "*bk-ok*" } (glob, case-insensitive, on the stored file
+//      name: characters other than letters, digits, ".", "_" and "-" become "_").
+//      See fixtures/receipt-fixtures.example.json.
+//   3. nothing matched: an empty analysis (every field null), which the
+//      business rules reject with DATE_NOT_DETECTED.
+//
+// A result is the analysis itself, plus a few helpers for writing fixtures:
+//   transactionDate  ISO date, or relative: "today", "yesterday", "-3d", "+1d"
+//   items            [{ description, quantity, unitPrice, totalPrice }]
+//   transactionTime, ticketNumber, storeId   as printed ("12:31", "004512", "214")
+//   merchantAddress, merchantPhone           as printed ("Anfa Place, Casablanca")
+//   confidences      { amount, transactionDate, merchantName } scores (0–1) of
+//                    the receipt model, e.g. { "amount": 0.42 } for a blurry total
+//   error            throw this message (exercises queue retries / FAILED)
+//   delayMs          answer after a delay (slow analysis)
+// Files are read on every call, so fixtures can be edited without a restart.
+
+const fs = require("fs");
+const path = require("path");
+const crypto = require("crypto");
+const { businessDay, businessDateTime, addDays } = require("../config/business-time");
+
+const IMAGE_EXTENSIONS = [".jpg", ".jpeg", ".png", ".heic", ".webp", ".pdf"];
+
+function emptyAnalysis() {
+  return {
+    amount: null,
+    merchantName: null,
+    transactionDate: null,
+    rawDateText: null,
+    hasBurgerKing: null,
+    items: [],
+    transactionTime: null,
+    ticketNumber: null,
+    storeId: null,
+    merchantAddress: null,
+    merchantPhone: null,
+    confidences: { amount: null, transactionDate: null, merchantName: null },
+  };
+}
+
+function readJsonFile(filePath) {
+  return JSON.parse(fs.readFileSync(filePath, "utf8"));
+}
+
+function sha256(buffer) {
+  return crypto.createHash("sha256").update(buffer).digest("hex");
+}
+
+function globToRegExp(pattern) {
+  const escaped = String(pattern)
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*")
+    .replace(/\?/g, ".");
+  return new RegExp(`^${escaped}$`, "i");
+}
+
+// "today" | "yesterday" | "-3d" | "+1d" | ISO date -> Date | null (midnight of
+// that day in the business zone, like a date read from a ticket)
+function resolveFixtureDate(value, now = new Date()) {
+  if (value === null || value === undefined || value === "") return null;
+
+  const text = String(value).trim().toLowerCase();
+  const today = businessDay(now);
+  if (text === "today") return businessDateTime(today);
+  if (text === "yesterday") return businessDateTime(addDays(today, -1));
+
+  const relative = /^([+-]\d+)d$/.exec(text);
+  if (relative) {
+    return businessDateTime(addDays(today, Number(relative[1])));
+  }
+
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : businessDateTime(businessDay(date));
+}
+
+function formatRawDate(date) {
+  const [yyyy, mm, dd] = businessDay(date).split("-");
+  return `${dd}/${mm}/${yyyy}`;
+}
+
+function delay(ms) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function toAnalysis(spec, source) {
+  if (spec.delayMs) {
+    await delay(Number(spec.delayMs));
+  }
+
+  if (spec.error) {
+    const err = new Error(`${spec.error} (fixture: ${source})`);
+    err.code = "FIXTURE_ANALYZER_ERROR";
+    throw err;
+  }
+
+  const printedDate = resolveFixtureDate(spec.transactionDate);
+  // printed time included, as the Document Intelligence analyzer does
+  const transactionDate =
+    printedDate && spec.transactionTime
+      ? businessDateTime(businessDay(printedDate), spec.transactionTime)
+      : printedDate;
+  const amount =
+    spec.amount === null || spec.amount === undefined ? NaN : Number(spec.amount);
+
+  return {
+    ...emptyAnalysis(),
+    amount: Number.isFinite(amount) ? amount : null,
+    merchantName: spec.merchantName || null,
+    transactionDate,
+    rawDateText: spec.rawDateText || (printedDate ? formatRawDate(printedDate) : null),
+    hasBurgerKing: typeof spec.hasBurgerKing === "boolean" ? spec.hasBurgerKing : null,
+    items: Array.isArray(spec.items) ? spec.items : [],
+    transactionTime: spec.transactionTime || null,
+    ticketNumber: spec.ticketNumber ? String(spec.ticketNumber) : null,
+    storeId: spec.storeId ? String(spec.storeId) : null,
+    merchantAddress: spec.merchantAddress || null,
+    merchantPhone: spec.merchantPhone ? String(spec.merchantPhone).replace(/\D/g, "").slice(-9) : null,
+    confidences: { ...emptyAnalysis().confidences, ...(spec.confidences || {}) },
+  };
+}
+
+// 1. sample image with a sidecar JSON, matched on content
+function findSidecar(imageHash) {
+  const dir = process.env.RECEIPT_FIXTURES_DIR;
+  if (!dir || !fs.existsSync(dir)) return null;
+
+  for (const name of fs.readdirSync(dir)) {
+    const ext = path.extname(name).toLowerCase();
+    if (!IMAGE_EXTENSIONS.includes(ext)) continue;
+
+    const imagePath = path.join(dir, name);
+    if (sha256(fs.readFileSync(imagePath)) !== imageHash) continue;
+
+    const sidecarPath = path.join(dir, `${path.basename(name, path.extname(name))}.json`);
+    if (!fs.existsSync(sidecarPath)) return null;
+
+    return { spec: readJsonFile(sidecarPath), source: sidecarPath };
+  }
+
+  return null;
+}
+
+function matchesFixture(match, imageHash, fileName) {
+  if (!match) return false;
+  if (match.imageHash) {
+    return match.imageHash.toLowerCase() === imageHash;
+  }
+  if (match.fileName) {
+    return !!fileName && globToRegExp(match.fileName).test(fileName);
+  }
+  return false;
+}
+
+// 2. rules file
+function findFixture(imageHash, fileName) {
+  const file = process.env.RECEIPT_FIXTURES_FILE;
+  if (!file) return null;
+
+  const filePath = path.resolve(file);
+  const config = readJsonFile(filePath);
+
+  const fixtures = Array.isArray(config.fixtures) ? config.fixtures : [];
+  const index = fixtures.findIndex((f) => matchesFixture(f.match, imageHash, fileName));
+  if (index >= 0) {
+    return { spec: fixtures[index].result || {}, source: `${filePath}#${index}` };
+  }
+  if (config.default) {
+    return { spec: config.default, source: `${filePath}#default` };
+  }
+  return null;
+}
+
+async function analyzeReceipt(buffer, { fileName = null } = {}) {
+  const imageHash = sha256(buffer);
+  const found = findSidecar(imageHash) || findFixture(imageHash, fileName);
+
+  if (!found) {
+    return emptyAnalysis();
+  }
+  return toAnalysis(found.spec, found.source);
+}
+
+module.exports = {
+  resolveFixtureDate,
+  analyzeReceipt,
+};
@@ -0,0 +1,107 @@
+// api/src/services/near-duplicates.js
+// Near-duplicate receipts: a new photo of a ticket that was already sent
+// (re-shot, re-cropped, screenshot…). The exact-bytes check (imageHash +
+// ReceiptFingerprints) still runs first; this one compares perceptual hashes
+// (perceptual-hash.js) with the user's receipts and everyone's recent ones.
+//
+// The user's receipts are a single-partition read. Other users' receipts are
+// only read when they share one of the 16 hash bands (data/receipts.js): two
+// hashes up to 15 bits apart always share one, and past that a match is
+// still found unless every row of the image changed.
+//
+// Config (app settings):
+//   NEAR_DUPLICATE_ACTION        "review" (default): parked in PENDING_REVIEW
+//                                with the match (`nearDuplicate`) until a
+//                                reviewer decides; "reject": rejected with
+//                                NEAR_DUPLICATE_RECEIPT; "off"
+//   NEAR_DUPLICATE_MAX_DISTANCE  differing bits (out of 256) still counted as
+//                                the same ticket (default 32)
+//   NEAR_DUPLICATE_USER_DAYS     how far back the user's receipts are compared (default 90)
+//   NEAR_DUPLICATE_GLOBAL_DAYS   how far back other users' receipts are compared (default 14)
+//
+// Rejected and failed receipts are ignored (the customer may send a better
+// photo), and so are receipts sent after this one: of two near-duplicates
+// processed at the same time, the first one sent wins.
+
+const {
+  listReceiptPerceptualHashes,
+  listReceiptPerceptualHashesInBands,
+} = require("../data/db");
+const { RECEIPT_STATUS, perceptualHashBands } = require("../data/receipts");
+const { hammingDistance } = require("./perceptual-hash");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const NEAR_DUPLICATE_ACTIONS = {
+  REJECT: "reject",
+  REVIEW: "review",
+  OFF: "off",
+};
+
+function numberSetting(name, fallback) {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") return fallback;
+  const n = Number(raw);
+  return Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+function getNearDuplicateAction() {
+  const configured = (process.env.NEAR_DUPLICATE_ACTION || "").trim().toLowerCase();
+  return Object.values(NEAR_DUPLICATE_ACTIONS).includes(configured)
+    ? configured
+    : NEAR_DUPLICATE_ACTIONS.REVIEW;
+}
+
+function getMaxDistance() {
+  return numberSetting("NEAR_DUPLICATE_MAX_DISTANCE", 32);
+}
+
+function isCandidate(other, receipt) {
+  if (other.id === receipt.id) return false;
+  if (other.status === RECEIPT_STATUS.REJECTED || other.status === RECEIPT_STATUS.FAILED) {
+    return false;
+  }
+  // Only receipts sent before this one (ids break createdAt ties)
+  const otherKey = `${other.createdAt || ""}|${other.id}`;
+  return otherKey < `${receipt.createdAt || ""}|${receipt.id}`;
+}
+
+// -> { receiptId, sameUser, distance } for the closest match, or null
+async function findNearDuplicate(receipt, perceptualHash, now = new Date()) {
+  if (!perceptualHash || getNearDuplicateAction() === NEAR_DUPLICATE_ACTIONS.OFF) {
+    return null;
+  }
+
+  const daysAgo = (days) => new Date(now.getTime() - days * DAY_MS).toISOString();
+  const userSince = daysAgo(numberSetting("NEAR_DUPLICATE_USER_DAYS", 90));
+  const globalSince = daysAgo(numberSetting("NEAR_DUPLICATE_GLOBAL_DAYS", 14));
+
+  const [own, recent] = await Promise.all([
+    listReceiptPerceptualHashes(userSince, receipt.userId),
+    listReceiptPerceptualHashesInBands(globalSince, perceptualHashBands(perceptualHash)),
+  ]);
+
+  const maxDistance = getMaxDistance();
+  let best = null;
+
+  for (const other of [...own, ...recent]) {
+    if (!isCandidate(other, receipt)) continue;
+
+    const distance = hammingDistance(perceptualHash, other.perceptualHash);
+    if (distance <= maxDistance && (!best || distance < best.distance)) {
+      best = {
+        receiptId: other.id,
+        sameUser: other.userId === receipt.userId,
+        distance,
+      };
+    }
+  }
+
+  return best;
+}
+
+module.exports = {
+  NEAR_DUPLICATE_ACTIONS,
+  getNearDuplicateAction,
+  findNearDuplicate,
+};
@@ -0,0 +1,72 @@
+// api/src/services/perceptual-hash.js
+// Perceptual hash of receipt images (difference hash, "dHash"): the image is
+// turned to greyscale, shrunk to HASH_SIZE+1 × HASH_SIZE pixels and each bit
+// says whether a pixel is brighter than its right neighbour. Two photos of the
+// same ticket (new shot, other crop, other compression) give hashes a few bits
+// apart, while the SHA-256 in imageHash only catches identical files.
+//
+// 16 × 16 = 256 bits, stored as 64 hex characters: receipts are mostly white
+// paper with similar layouts, so the usual 64-bit dHash is too coarse.
+
+const sharp = require("sharp");
+
+const HASH_SIZE = 16;
+const HASH_BITS = HASH_SIZE * HASH_SIZE;
+
+// -> hex string, or null when the file can't be decoded as an image (e.g. a PDF)
+async function computePerceptualHash(buffer) {
+  let pixels;
+  try {
+    pixels = await sharp(buffer)
+      .rotate() // EXIF orientation
+      .greyscale()
+      .resize(HASH_SIZE + 1, HASH_SIZE, { fit: "fill" })
+      .raw()
+      .toBuffer();
+  } catch {
+    return null;
+  }
+
+  let hex = "";
+  let nibble = 0;
+  let bitCount = 0;
+
+  for (let y = 0; y < HASH_SIZE; y += 1) {
+    for (let x = 0; x < HASH_SIZE; x += 1) {
+      const left = pixels[y * (HASH_SIZE + 1) + x];
+      const right = pixels[y * (HASH_SIZE + 1) + x + 1];
+      nibble = (nibble << 1) | (left > right ? 1 : 0);
+      bitCount += 1;
+
+      if (bitCount % 4 === 0) {
+        hex += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+
+  return hex;
+}
+
+// Number of differing bits; Infinity when the hashes can't be compared.
+function hammingDistance(a, b) {
+  if (typeof a !== "string" || typeof b !== "string" || a.length !== b.length) {
+    return Infinity;
+  }
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+module.exports = {
+  HASH_BITS,
+  computePerceptualHash,
+  hammingDistance,
+};
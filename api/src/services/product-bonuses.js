@@ -0,0 +1,176 @@
+// api/src/services/product-bonuses.js
+// Product-driven promotions, on top of the base points (10 MAD = 1 Couronne).
+// Configured by marketing in app settings, without a deployment:
+//
+//   PRODUCT_BONUSES_JSON   the config inline, or
+//   PRODUCT_BONUSES_FILE   path to a JSON file (see fixtures/product-bonuses.example.json)
+//
+// { "bonuses": [
+//   { "id": "whopper-menu-20", "label": "+20 Couronnes par menu Whopper",
+//     "products": ["whopper-menu", "double-whopper-menu"], "points": 20 },
+//   { "id": "desserts-x2", "label": "Desserts x2 cette semaine",
+//     "categories": ["dessert"], "multiplier": 2,
+//     "startsAt": "2026-10-19", "endsAt": "2026-10-26", "maxPoints": 50 } ] }
+//
+//   products / categories  catalog ids (product-catalog.js) the bonus applies to
+//   points                 extra Couronnes per matching unit
+//   multiplier             the matching items' price earns `multiplier` times
+//                          the base points (x2 → the same points again)
+//   startsAt / endsAt      optional window, on the date printed on the receipt
+//                          (endsAt is exclusive; a plain date means midnight
+//                          in Morocco, config/business-time.js)
+//   maxPoints              cap per receipt (default 100)
+//   maxQuantityPerLine     units counted per line item (default 10)
+//
+// A multiplier only applies to what the receipt itself earns points on: the
+// matching items' total is capped at the receipt amount and at
+// maxAmountForPoints (receipt-rules.js), so a misread price can't inflate it.
+//
+// The config is read on every receipt, so a change applies to the next one.
+// Invalid bonuses are skipped with a warning instead of blocking receipts.
+
+const fs = require("fs");
+const path = require("path");
+const { businessDateTime } = require("../config/business-time");
+
+const DEFAULT_MAX_POINTS = 100;
+const DEFAULT_MAX_QUANTITY_PER_LINE = 10;
+
+function readConfig() {
+  if (process.env.PRODUCT_BONUSES_JSON) {
+    return JSON.parse(process.env.PRODUCT_BONUSES_JSON);
+  }
+  if (process.env.PRODUCT_BONUSES_FILE) {
+    return JSON.parse(fs.readFileSync(path.resolve(process.env.PRODUCT_BONUSES_FILE), "utf8"));
+  }
+  return { bonuses: [] };
+}
+
+// "YYYY-MM-DD" is a business day (its start); anything else must be a full
+// date-time. -> Date | null
+function windowBound(value) {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return businessDateTime(value);
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function validateBonus(bonus) {
+  if (!bonus || typeof bonus !== "object") return "not an object";
+  if (!bonus.id) return "missing id";
+
+  const hasTarget =
+    (Array.isArray(bonus.products) && bonus.products.length) ||
+    (Array.isArray(bonus.categories) && bonus.categories.length);
+  if (!hasTarget) return "needs products or categories";
+
+  const hasPoints = typeof bonus.points === "number" && bonus.points > 0;
+  const hasMultiplier = typeof bonus.multiplier === "number" && bonus.multiplier > 1;
+  if (hasPoints === hasMultiplier) return "needs either points > 0 or multiplier > 1";
+
+  for (const key of ["maxPoints", "maxQuantityPerLine"]) {
+    if (bonus[key] !== undefined && !(typeof bonus[key] === "number" && bonus[key] > 0)) {
+      return `${key} must be a number > 0`;
+    }
+  }
+
+  for (const key of ["startsAt", "endsAt"]) {
+    if (bonus[key] && !windowBound(bonus[key])) {
+      return `invalid ${key}`;
+    }
+  }
+  return null;
+}
+
+function loadBonuses(log = console.warn) {
+  let config;
+  try {
+    config = readConfig();
+  } catch (err) {
+    log(`Product bonuses ignored, config can't be read: ${err.message}`);
+    return [];
+  }
+
+  const bonuses = Array.isArray(config && config.bonuses) ? config.bonuses : [];
+  return bonuses.filter((bonus) => {
+    const problem = validateBonus(bonus);
+    if (problem) {
+      log(`Product bonus ${(bonus && bonus.id) || "?"} ignored: ${problem}`);
+    }
+    return !problem;
+  });
+}
+
+function isActive(bonus, at) {
+  const time = at.getTime();
+  if (bonus.startsAt && time < windowBound(bonus.startsAt).getTime()) return false;
+  if (bonus.endsAt && time >= windowBound(bonus.endsAt).getTime()) return false;
+  return true;
+}
+
+function appliesTo(bonus, item) {
+  if (Array.isArray(bonus.products) && bonus.products.includes(item.productId)) return true;
+  if (Array.isArray(bonus.categories) && bonus.categories.includes(item.category)) return true;
+  return false;
+}
+
+// Units of one line item counted for a bonus
+function lineQuantity(bonus, item) {
+  const quantity = Number.isFinite(item.quantity) && item.quantity > 0 ? Math.floor(item.quantity) : 1;
+  return Math.min(quantity, bonus.maxQuantityPerLine || DEFAULT_MAX_QUANTITY_PER_LINE);
+}
+
+// items: normalized line items (product-catalog.js). `at`: receipt date.
+// `amount` / `maxAmountForPoints`: the receipt total and the points cap
+// (receipt-rules.js), multiplier bonuses never count more than either.
+// -> { bonusPoints, bonuses: [{ bonusId, label, points, quantity }] }
+function computeProductBonuses(
+  items,
+  { at = new Date(), amount = null, madPerPoint = 10, maxAmountForPoints = Infinity, log } = {}
+) {
+  const applied = [];
+  const spendCap = Math.min(
+    Number.isFinite(amount) && amount > 0 ? amount : 0,
+    maxAmountForPoints
+  );
+
+  for (const bonus of loadBonuses(log)) {
+    if (!isActive(bonus, at)) continue;
+
+    const matching = (items || []).filter((item) => appliesTo(bonus, item));
+    if (!matching.length) continue;
+
+    const quantity = matching.reduce((sum, item) => sum + lineQuantity(bonus, item), 0);
+    let points;
+    if (bonus.points) {
+      points = bonus.points * quantity;
+    } else {
+      const total = matching.reduce(
+        (sum, item) => sum + (Number.isFinite(item.totalPrice) ? Math.max(item.totalPrice, 0) : 0),
+        0
+      );
+      const spent = Math.min(total, spendCap);
+      points = Math.floor((spent * (bonus.multiplier - 1)) / madPerPoint);
+    }
+    points = Math.min(points, bonus.maxPoints || DEFAULT_MAX_POINTS);
+    if (points <= 0) continue;
+
+    applied.push({
+      bonusId: bonus.id,
+      label: bonus.label || bonus.id,
+      points,
+      quantity,
+    });
+  }
+
+  return {
+    bonusPoints: applied.reduce((sum, b) => sum + b.points, 0),
+    bonuses: applied,
+  };
+}
+
+module.exports = {
+  DEFAULT_MAX_POINTS,
+  DEFAULT_MAX_QUANTITY_PER_LINE,
+  loadBonuses,
+  computeProductBonuses,
+};
@@ -0,0 +1,102 @@
+// api/src/services/product-catalog.js
+// BK menu / product catalog (config/product-catalog.json, or the file named by
+// PRODUCT_CATALOG_FILE). Receipt line items are printed in many ways
+// ("MN WHOPPER", "Menu Whopper L", "1 x WHOPPER MENU"); they are matched
+// against the product aliases so bonuses and statistics use stable product ids.
+//
+// Matching: accents, case and punctuation are ignored, and the longest alias
+// found as whole words in the description wins ("menu double whopper" before
+// "whopper"). Unknown lines keep productId null.
+
+const fs = require("fs");
+const path = require("path");
+
+const DEFAULT_CATALOG_FILE = path.join(__dirname, "..", "config", "product-catalog.json");
+
+let cached = null; // { file, catalog }
+
+function normalizeText(text) {
+  return String(text || "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function buildCatalog(config) {
+  const products = Array.isArray(config.products) ? config.products : [];
+  const aliases = [];
+
+  for (const product of products) {
+    for (const alias of [product.name, ...(product.aliases || [])]) {
+      const normalized = normalizeText(alias);
+      if (normalized) {
+        aliases.push({ alias: ` ${normalized} `, product });
+      }
+    }
+  }
+  aliases.sort((a, b) => b.alias.length - a.alias.length);
+
+  return {
+    categories: Array.isArray(config.categories) ? config.categories : [],
+    products,
+    aliases,
+  };
+}
+
+// Read once per process; the catalog only changes with a deployment.
+function getCatalog() {
+  const file = process.env.PRODUCT_CATALOG_FILE
+    ? path.resolve(process.env.PRODUCT_CATALOG_FILE)
+    : DEFAULT_CATALOG_FILE;
+
+  if (!cached || cached.file !== file) {
+    cached = { file, catalog: buildCatalog(JSON.parse(fs.readFileSync(file, "utf8"))) };
+  }
+  return cached.catalog;
+}
+
+function findProduct(productId) {
+  return getCatalog().products.find((p) => p.id === productId) || null;
+}
+
+function matchProduct(description) {
+  const normalized = normalizeText(description);
+  if (!normalized) return null;
+
+  const haystack = ` ${normalized} `;
+  const found = getCatalog().aliases.find((a) => haystack.includes(a.alias));
+  return found ? found.product : null;
+}
+
+function positiveOrNull(value) {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : null;
+}
+
+// Analyzer items -> stored items:
+// { description, quantity, unitPrice, totalPrice, productId, productName, category }
+function normalizeLineItems(items) {
+  if (!Array.isArray(items)) return [];
+
+  return items.map((item) => {
+    const product = matchProduct(item && item.description);
+    return {
+      description: (item && item.description) || null,
+      quantity: positiveOrNull(item && item.quantity) || 1,
+      unitPrice: positiveOrNull(item && item.unitPrice),
+      totalPrice: positiveOrNull(item && item.totalPrice),
+      productId: product ? product.id : null,
+      productName: product ? product.name : null,
+      category: product ? product.category || null : null,
+    };
+  });
+}
+
+module.exports = {
+  normalizeText,
+  getCatalog,
+  findProduct,
+  matchProduct,
+  normalizeLineItems,
+};
@@ -0,0 +1,73 @@
+// api/src/services/receipt-analyzer.js
+// Receipt analyzer contract + implementation registry.
+//
+// The implementation is picked by RECEIPT_ANALYZER ("azure" | "fixture" |
+// "replay"); when it is not set, Azure is used if DOCINT_ENDPOINT / DOCINT_KEY
+// exist, otherwise the offline fixture analyzer.
+//
+// Contract:
+//   analyzeReceipt(buffer, { fileName?, contentType?, log? }) ->
+//     { amount, merchantName, transactionDate (Date | null: printed day, at the
+//       printed time when there is one, Moroccan time), rawDateText, hasBurgerKing,
+//       items: [{ description, quantity, unitPrice, totalPrice }],
+//       transactionTime ("HH:MM"), ticketNumber, storeId, merchantAddress,
+//       merchantPhone (last 9 digits),
+//       confidences: { amount, transactionDate, merchantName } (0–1, null if unknown) }
+//   Fields the analyzer can't read are null. Throwing means "try again later"
+//   (the receipt queue retries, then marks the receipt FAILED).
+
+const { isDocumentIntelligenceConfigured } = require("./document-intelligence");
+
+const factories = new Map(); // analyzer name -> () => analyzer
+const instances = new Map(); // analyzer name -> analyzer
+
+function registerAnalyzer(name, factory) {
+  factories.set(name, factory);
+  instances.delete(name);
+}
+
+function listAnalyzers() {
+  return [...factories.keys()];
+}
+
+function getConfiguredAnalyzerName() {
+  const configured = (process.env.RECEIPT_ANALYZER || "").trim().toLowerCase();
+  if (configured) {
+    return configured;
+  }
+  return isDocumentIntelligenceConfigured() ? "azure" : "fixture";
+}
+
+function getAnalyzer(name = getConfiguredAnalyzerName()) {
+  if (!instances.has(name)) {
+    const factory = factories.get(name);
+    if (!factory) {
+      throw new Error(
+        `Unknown RECEIPT_ANALYZER "${name}" (available: ${listAnalyzers().join(", ")})`
+      );
+    }
+    const analyzer = factory();
+    if (!analyzer || typeof analyzer.analyzeReceipt !== "function") {
+      throw new Error(`Receipt analyzer "${name}" has no analyzeReceipt()`);
+    }
+    instances.set(name, analyzer);
+  }
+  return instances.get(name);
+}
+
+async function analyzeReceipt(buffer, details = {}) {
+  return getAnalyzer().analyzeReceipt(buffer, details);
+}
+
+// Built-in analyzers, only loaded when selected.
+registerAnalyzer("azure", () => require("./document-intelligence"));
+registerAnalyzer("fixture", () => require("./fixture-receipt-analyzer"));
+registerAnalyzer("replay", () => require("./replay-receipt-analyzer"));
+
+module.exports = {
+  registerAnalyzer,
+  listAnalyzers,
+  getConfiguredAnalyzerName,
+  getAnalyzer,
+  analyzeReceipt,
+};
@@ -0,0 +1,50 @@
+// api/src/services/receipt-images.js
+// Access to receipt images, which live in a private container: responses carry
+// a read-only signed URL made for the request (blob-storage.js
+// createReceiptReadUrl), never the raw blob URL.
+//
+// Customers only reach their own receipts (reads are scoped to their
+// partition); reviewers may open anyone's by passing ?userId=.
+
+const { getUserId, isReceiptReviewer } = require("../auth/client-principal");
+const { createReceiptReadUrl } = require("../data/blob-storage");
+
+// Partition to read the receipt from: the caller's own, or for a reviewer the
+// ?userId= of the receipt being checked.
+// -> { userId } or { error: { status, jsonBody } } to return as is
+function resolveReceiptOwner(request) {
+  const callerId = getUserId(request);
+  if (!callerId) {
+    return { error: { status: 401, jsonBody: { error: "UNAUTHENTICATED" } } };
+  }
+
+  const requested = request.query.get("userId");
+  if (!requested || requested === callerId) {
+    return { userId: callerId };
+  }
+  if (!isReceiptReviewer(request)) {
+    return { error: { status: 403, jsonBody: { error: "FORBIDDEN" } } };
+  }
+  return { userId: requested };
+}
+
+// -> { imageUrl, imageUrlExpiresAt }, nulls once the image is gone
+// (rejected, failed or anonymized receipts)
+async function receiptImageLink(receipt) {
+  if (!receipt || !receipt.blobName) {
+    return { imageUrl: null, imageUrlExpiresAt: null };
+  }
+  const { url, expiresAt } = await createReceiptReadUrl(receipt.blobName);
+  return { imageUrl: url, imageUrlExpiresAt: expiresAt };
+}
+
+// Adds the image link to a response body built from the receipt.
+async function withImageLink(body, receipt) {
+  return { ...body, ...(await receiptImageLink(receipt)) };
+}
+
+module.exports = {
+  resolveReceiptOwner,
+  receiptImageLink,
+  withImageLink,
+};
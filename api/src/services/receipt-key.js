@@ -0,0 +1,43 @@
+// api/src/services/receipt-key.js
+// Canonical key of a paper ticket, independent of the image: a photo and a
+// scan of the same ticket have different image hashes, but print the same
+// restaurant, ticket number, date, time and total.
+//
+//   bk|<storeId>|<YYYY-MM-DD>|<HH:MM>|<ticketNumber>|<total in cents>
+//
+// No key (null) without a restaurant, ticket number and date: those receipts
+// are only protected by the image checks. A missing time or total is left
+// empty in the key.
+//
+// The key is claimed once across all users in ReceiptFingerprints
+// (fingerprints.js, same claim / complete / release lifecycle as image hashes).
+
+const { businessDay } = require("../config/business-time");
+
+function normalizePart(value) {
+  return String(value || "")
+    .toUpperCase()
+    .replace(/[^A-Z0-9:-]/g, "");
+}
+
+function buildReceiptKey({ storeId, ticketNumber, transactionDate, transactionTime, amount }) {
+  const store = normalizePart(storeId);
+  // "004512" and "4512" are the same ticket
+  const ticket = normalizePart(ticketNumber).replace(/^0+(?=[0-9A-Z])/, "");
+  const day = businessDay(transactionDate);
+
+  if (!store || !ticket || !day) {
+    return null;
+  }
+
+  const cents =
+    typeof amount === "number" && Number.isFinite(amount) && amount > 0
+      ? String(Math.round(amount * 100))
+      : "";
+
+  return ["bk", store, day, normalizePart(transactionTime), ticket, cents].join("|");
+}
+
+module.exports = {
+  buildReceiptKey,
+};
@@ -0,0 +1,1023 @@
+// api/src/services/receipt-processing.js
+// Turns a receipt image into points, in two steps:
+//   1. submitReceipt (upload-receipt / process-receipt): claims the image,
+//      stores it and saves a PENDING receipt. The caller enqueues it and
+//      answers 202 right away.
+//   2. processQueuedReceipt (receipt queue, see receipt-queue.js): analysis,
+//      business rules, points. Throwing lets the queue retry; when every
+//      attempt failed, failQueuedReceipt marks the receipt FAILED.
+//   3. Uncertain receipts (review rules, near-duplicates) are parked in
+//      PENDING_REVIEW instead; a reviewer approves them (approveReviewedReceipt,
+//      points credited then) or rejects them (rejectReviewedReceipt).
+// PENDING receipts whose message was lost are enqueued again
+// (restartStaleReceipt, sweepStalePendingReceipts).
+// The app polls get-receipt-status, whose body comes from toReceiptStatusResponse.
+
+const crypto = require("crypto");
+const { businessDaysBetween } = require("../config/business-time");
+const {
+  addPointsOnce,
+  createReceipt,
+  getReceipt,
+  updateReceipt,
+  countReceiptsForUserOnDay,
+  listReceiptsByStatus,
+  claimReceiptFingerprint,
+  completeReceiptFingerprint,
+  releaseReceiptFingerprint,
+  releaseReceiptFingerprintForReceipt,
+} = require("../data/db");
+const {
+  fileNameFromBlobName,
+  uploadReceiptImage,
+  readReceiptImage,
+  deleteReceiptImage,
+} = require("../data/blob-storage");
+const {
+  RECEIPT_STATUS,
+  REVIEW_DECISIONS,
+  receiptNotFoundError,
+  perceptualHashBands,
+} = require("../data/receipts");
+const { receiptKeyFingerprintId } = require("../data/fingerprints");
+const { analyzeReceipt } = require("./receipt-analyzer");
+const { normalizeLineItems } = require("./product-catalog");
+const { computeProductBonuses } = require("./product-bonuses");
+const { computePerceptualHash } = require("./perceptual-hash");
+const { buildReceiptKey } = require("./receipt-key");
+const { thumbnailUrl } = require("./receipt-thumbnails");
+const { findStore, matchStore, toStoreSummary } = require("./store-registry");
+const { prepareReceiptUpload } = require("./upload-validation");
+const {
+  NEAR_DUPLICATE_ACTIONS,
+  getNearDuplicateAction,
+  findNearDuplicate,
+} = require("./near-duplicates");
+const { SEVERITIES, loadRuleSet, evaluateRules } = require("./receipt-rules");
+
+const DUPLICATE_MESSAGE = "This receipt has already been used.";
+
+// Refused files (upload-validation.js); other refusals answer 400
+const UPLOAD_ERROR_STATUS = {
+  FILE_TOO_LARGE: 413,
+  UNSUPPORTED_FILE_TYPE: 415,
+  HEIC_NOT_SUPPORTED: 415,
+};
+
+// Whole days between the ticket and today, in Moroccan days (0 = today,
+// negative = in the future)
+function computeReceiptAgeDays(receiptDate) {
+  return businessDaysBetween(receiptDate, new Date());
+}
+
+// Business rules on the analysis (receipt-rules.js): { amount, merchantName,
+// transactionDate, transactionDateIso, rawDateText, items, ticket, matchedStoreId,
+// confidences, reasons, blocking, review } (ticket: { storeId, ticketNumber,
+// transactionTime } as printed; matchedStoreId: store-registry.js)
+function evaluateAnalysis(analysis, ruleSet = loadRuleSet()) {
+  let amount =
+    analysis && typeof analysis.amount === "number" && !Number.isNaN(analysis.amount)
+      ? analysis.amount
+      : null;
+
+  const merchantName =
+    analysis && analysis.merchantName ? analysis.merchantName : null;
+
+  const transactionDate =
+    analysis &&
+    analysis.transactionDate instanceof Date &&
+    !Number.isNaN(analysis.transactionDate.getTime())
+      ? analysis.transactionDate
+      : null;
+
+  const rawDateText = analysis && analysis.rawDateText ? analysis.rawDateText : null;
+  const hasBurgerKing =
+    analysis && typeof analysis.hasBurgerKing === "boolean"
+      ? analysis.hasBurgerKing
+      : null;
+  const items = normalizeLineItems(analysis && analysis.items);
+  const ticket = {
+    storeId: (analysis && analysis.storeId) || null,
+    ticketNumber: (analysis && analysis.ticketNumber) || null,
+    transactionTime: (analysis && analysis.transactionTime) || null,
+  };
+  const confidences = {
+    amount: null,
+    transactionDate: null,
+    merchantName: null,
+    ...((analysis && analysis.confidences) || {}),
+  };
+  const storeMatch = matchStore({
+    storeId: ticket.storeId,
+    merchantName,
+    merchantAddress: (analysis && analysis.merchantAddress) || null,
+    merchantPhone: (analysis && analysis.merchantPhone) || null,
+  });
+
+  const { reasons, blocking, review } = evaluateRules(ruleSet, {
+    hasBurgerKing,
+    store: storeMatch ? storeMatch.store : null,
+    transactionDate,
+    receiptAgeDays: transactionDate ? computeReceiptAgeDays(transactionDate) : null,
+    amount,
+    confidences,
+  });
+
+  // Amount unreadable but the receipt is valid and not sent to a reviewer
+  // (valid-amount turned into a warning): count a default average amount
+  const amountInvalid = amount === null || amount <= 0;
+  if (!blocking && !review && amountInvalid) {
+    amount = ruleSet.points.fallbackAmount ?? null;
+  }
+
+  return {
+    amount,
+    merchantName,
+    transactionDate,
+    transactionDateIso: transactionDate ? transactionDate.toISOString() : null,
+    rawDateText,
+    items,
+    ticket,
+    matchedStoreId: storeMatch ? storeMatch.store.id : null,
+    confidences,
+    reasons,
+    blocking,
+    review,
+  };
+}
+
+// Daily-limit rules, once the number of receipts that count is known: at
+// upload, every receipt of the day (PENDING ones included); for a queued
+// receipt, the ones sent before it on its own day, so a burst of uploads keeps
+// its first receipts whatever order the queue processes them in.
+// -> null, or the rejection body ({ error, message, dailyLimit })
+async function checkDailyLimit(userId, ruleSet, receipt = null) {
+  const receiptsToday = receipt
+    ? await countReceiptsForUserOnDay(userId, new Date(receipt.createdAt), {
+        createdBefore: receipt.createdAt,
+      })
+    : await countReceiptsForUserOnDay(userId, new Date());
+  const { reasons } = evaluateRules(ruleSet, { receiptsToday });
+  const reason = reasons.find((r) => r.severity === SEVERITIES.BLOCKING);
+
+  return reason
+    ? { error: reason.code, message: reason.message, dailyLimit: reason.params.maxPerDay }
+    : null;
+}
+
+// Base points for an amount: capped amount × rate.
+function computeBasePoints(amount, points) {
+  const effectiveAmount = Math.min(amount || 0, points.maxAmountForPoints);
+  return Math.floor(effectiveAmount / points.madPerPoint);
+}
+
+function reviewError(code, message) {
+  const err = new Error(message);
+  err.code = code;
+  return err;
+}
+
+// ---------- step 1: upload ----------
+
+// Refused at upload (same image, daily limit): kept in the history as a
+// REJECTED receipt without image. Best effort, the refusal is answered anyway.
+async function recordRefusedUpload(userId, rejection, extra, log) {
+  const nowIso = new Date().toISOString();
+  try {
+    await createReceipt(userId, null, null, 0, {
+      status: RECEIPT_STATUS.REJECTED,
+      rejection,
+      processedAt: nowIso,
+      ...extra,
+    });
+  } catch (recordErr) {
+    log("Could not record refused upload", recordErr);
+  }
+}
+
+// The image is always stored under a new name, direct uploads included: the
+// browser's upload URL stays valid for a while, so the receipt never points at
+// a blob it could still write. The type and file name come from the content,
+// not from the client.
+async function submitReceipt({ userId, buffer, fileName = null, log = () => {} }) {
+  // 0) Size and type checks; metadata stripped and large photos downscaled.
+  //    Refused files are not kept in the history (nothing to show).
+  let upload;
+  try {
+    upload = await prepareReceiptUpload(buffer, fileName);
+  } catch (uploadErr) {
+    if (!uploadErr.code) {
+      throw uploadErr;
+    }
+    return {
+      queued: false,
+      error: uploadErr.code,
+      rejection: { error: uploadErr.code, message: uploadErr.message },
+    };
+  }
+
+  // 1) Anti-fraud: claim the image hash. Only one upload of a given file
+  //    can hold it, even when two requests arrive at the same time.
+  const imageHash = crypto.createHash("sha256").update(upload.buffer).digest("hex");
+  let claim;
+  try {
+    claim = await claimReceiptFingerprint(imageHash, userId);
+  } catch (claimErr) {
+    if (claimErr.code !== "DUPLICATE_RECEIPT") {
+      throw claimErr;
+    }
+    await recordRefusedUpload(
+      userId,
+      { error: "DUPLICATE_RECEIPT", message: DUPLICATE_MESSAGE },
+      {
+        duplicateOf: claimErr.receiptId
+          ? { receiptId: claimErr.receiptId, userId: claimErr.userId, claimedAt: claimErr.claimedAt }
+          : null,
+      },
+      log
+    );
+    return { queued: false, error: "DUPLICATE_RECEIPT" };
+  }
+
+  let receipt = null;
+  try {
+    // 2) Daily limit, checked early so the user knows before waiting
+    //    (checked again when the receipt is processed)
+    const dailyLimit = await checkDailyLimit(userId, loadRuleSet(log));
+    if (dailyLimit) {
+      await recordRefusedUpload(userId, dailyLimit, {}, log);
+      return { queued: false, error: dailyLimit.error, rejection: dailyLimit };
+    }
+
+    // 3) Image in Blob storage: the checked and cleaned bytes
+    const stored = await uploadReceiptImage(
+      userId,
+      upload.fileName,
+      upload.contentType,
+      upload.buffer
+    );
+
+    // 4) PENDING receipt; it keeps the image hash until it is processed. No
+    //    blobUrl: the container is private, links are signed on demand.
+    receipt = await createReceipt(userId, null, null, 0, {
+      status: RECEIPT_STATUS.PENDING,
+      blobName: stored.blobName,
+      imageHash,
+      processedAt: null,
+    });
+    await completeReceiptFingerprint(claim, receipt.id);
+
+    return { queued: true, receipt };
+  } finally {
+    // Refused or failed before a receipt was saved: the image can be sent again
+    if (!receipt) {
+      await releaseReceiptFingerprint(claim).catch((releaseErr) =>
+        log("Could not release receipt fingerprint", releaseErr)
+      );
+    }
+  }
+}
+
+// ---------- step 2: queue ----------
+
+// Final state for a receipt that earns nothing: the image is dropped and its
+// hash released, so the customer can send a better photo of the same ticket.
+// expectedStatus: only from that status (updateReceipt, PENDING unless said
+// otherwise), nothing dropped otherwise.
+async function closeReceipt(
+  receipt,
+  changes,
+  log,
+  { expectedStatus = RECEIPT_STATUS.PENDING } = {}
+) {
+  const closed = await updateReceipt(
+    receipt.userId,
+    receipt.id,
+    {
+      ...changes,
+      blobUrl: null,
+      blobName: null,
+      processedAt: new Date().toISOString(),
+    },
+    { expectedStatus }
+  );
+
+  if (receipt.blobName) {
+    await deleteReceiptImage(receipt.blobName).catch((deleteErr) =>
+      log("Could not delete receipt image", deleteErr)
+    );
+  }
+  await releaseReceiptFingerprintForReceipt(receipt).catch((releaseErr) =>
+    log("Could not release receipt fingerprint", releaseErr)
+  );
+
+  return closed;
+}
+
+async function rejectReceipt(receipt, rejection, evaluation, log, extra = {}) {
+  return closeReceipt(
+    receipt,
+    {
+      status: RECEIPT_STATUS.REJECTED,
+      rejection,
+      amount: evaluation ? evaluation.amount : null,
+      merchantName: evaluation ? evaluation.merchantName : null,
+      receiptDate: evaluation ? evaluation.transactionDateIso : null,
+      rawDateText: evaluation ? evaluation.rawDateText : null,
+      items: evaluation ? evaluation.items : [],
+      confidences: evaluation ? evaluation.confidences : null,
+      ...(evaluation ? evaluation.ticket : {}),
+      matchedStoreId: evaluation ? evaluation.matchedStoreId : null,
+      ...extra,
+    },
+    log
+  );
+}
+
+// Claims the canonical key of the paper ticket (receipt-key.js) for this
+// receipt. -> null when claimed (or no key could be built), or the original
+// claim { receiptId, userId, claimedAt } when someone already holds it.
+async function claimReceiptKey(receipt, receiptKey) {
+  try {
+    const claim = await claimReceiptFingerprint(
+      receiptKeyFingerprintId(receiptKey),
+      receipt.userId
+    );
+    await completeReceiptFingerprint(claim, receipt.id);
+    return null;
+  } catch (claimErr) {
+    if (claimErr.code !== "DUPLICATE_RECEIPT") {
+      throw claimErr;
+    }
+    // Message delivered again after we claimed it
+    if (claimErr.receiptId === receipt.id) {
+      return null;
+    }
+    // Our own claim from an attempt that stopped before completing it, or a
+    // concurrent upload by the same user: retry once it is settled
+    if (!claimErr.receiptId && claimErr.userId === receipt.userId) {
+      throw claimErr;
+    }
+    return {
+      receiptId: claimErr.receiptId,
+      userId: claimErr.userId,
+      claimedAt: claimErr.claimedAt,
+    };
+  }
+}
+
+// Safe to run more than once for the same message: only PENDING receipts are
+// processed and the ledger credit is keyed by the receipt id. Every update is
+// made only while the receipt is still PENDING, so a worker that finishes late
+// can't overwrite a receipt restartStaleReceipt marked FAILED meanwhile.
+async function processQueuedReceipt(message, { dequeueCount = 1, log = () => {} } = {}) {
+  const { receiptId, userId } = message || {};
+  const receipt = receiptId && userId ? await getReceipt(userId, receiptId) : null;
+
+  if (!receipt) {
+    log(`receipt ${receiptId}: not found, message dropped`);
+    return null;
+  }
+  if (receipt.status !== RECEIPT_STATUS.PENDING) {
+    return receipt;
+  }
+
+  try {
+    return await processPendingReceipt(receipt, { dequeueCount, log });
+  } catch (err) {
+    if (err.code !== "RECEIPT_STATUS_CHANGED") {
+      throw err;
+    }
+    log(`receipt ${receipt.id}: ${err.status} while it was processed, result dropped`);
+    return getReceipt(userId, receipt.id);
+  }
+}
+
+async function processPendingReceipt(receipt, { dequeueCount, log }) {
+  const { userId } = receipt;
+  const pending = { expectedStatus: RECEIPT_STATUS.PENDING };
+
+  const image = receipt.blobName ? await readReceiptImage(receipt.blobName) : null;
+  if (!image) {
+    return closeReceipt(
+      receipt,
+      {
+        status: RECEIPT_STATUS.FAILED,
+        failure: {
+          error: "IMAGE_NOT_FOUND",
+          message: "The receipt image is missing.",
+          attempts: dequeueCount,
+        },
+      },
+      log
+    );
+  }
+
+  // 1) Near-duplicate check (same ticket photographed again, see
+  //    near-duplicates.js). The hash is saved first so receipts processed
+  //    after this one are compared with it.
+  const perceptualHash = await computePerceptualHash(image.buffer);
+  const nearDuplicate = await findNearDuplicate(receipt, perceptualHash);
+  if (perceptualHash) {
+    await updateReceipt(
+      userId,
+      receipt.id,
+      {
+        perceptualHash,
+        perceptualBands: perceptualHashBands(perceptualHash),
+        nearDuplicate,
+      },
+      pending
+    );
+  }
+
+  const nearDuplicateReason = nearDuplicate
+    ? {
+        code: "NEAR_DUPLICATE_RECEIPT",
+        message: "This receipt looks like one that has already been sent.",
+      }
+    : null;
+
+  if (nearDuplicate && getNearDuplicateAction() === NEAR_DUPLICATE_ACTIONS.REJECT) {
+    return rejectReceipt(
+      receipt,
+      { error: "RECEIPT_REJECTED", reasons: [nearDuplicateReason] },
+      null,
+      log
+    );
+  }
+
+  // 2) Analyze receipt to get amount + merchant + transaction date
+  //    (receipt-analyzer.js). Errors are retried by the queue.
+  const analysis = await analyzeReceipt(image.buffer, {
+    fileName: fileNameFromBlobName(receipt.blobName),
+    contentType: image.contentType,
+    log,
+  });
+
+  const ruleSet = loadRuleSet(log);
+  const evaluation = evaluateAnalysis(analysis, ruleSet);
+
+  if (evaluation.blocking) {
+    return rejectReceipt(
+      receipt,
+      { error: "RECEIPT_REJECTED", reasons: evaluation.reasons },
+      evaluation,
+      log
+    );
+  }
+
+  // 3) Same paper ticket already claimed by anyone, e.g. a scan of a ticket
+  //    that was photographed before. The key is saved on the receipt before
+  //    it is claimed, so a FAILED receipt always releases it.
+  const receiptKey = buildReceiptKey({
+    ...evaluation.ticket,
+    transactionDate: evaluation.transactionDate,
+    amount: analysis ? analysis.amount : null,
+  });
+  let current = receipt;
+  if (receiptKey) {
+    current = await updateReceipt(userId, receipt.id, { receiptKey }, pending);
+
+    const duplicateOf = await claimReceiptKey(current, receiptKey);
+    if (duplicateOf) {
+      log(
+        `receipt ${receipt.id}: ticket ${receiptKey} already claimed by receipt ${duplicateOf.receiptId} (user ${duplicateOf.userId})`
+      );
+      return rejectReceipt(
+        current,
+        { error: "DUPLICATE_RECEIPT", message: DUPLICATE_MESSAGE },
+        evaluation,
+        log,
+        { duplicateOf }
+      );
+    }
+  }
+
+  // 4) Daily per-user limit (soft but clear)
+  const dailyLimit = await checkDailyLimit(userId, ruleSet, current);
+  if (dailyLimit) {
+    return rejectReceipt(current, dailyLimit, evaluation, log);
+  }
+
+  // 5) Uncertain receipt: parked with its image, extracted fields and the
+  //    reasons it was flagged until a reviewer decides. It already counts
+  //    toward the daily limit, and its image and ticket key stay claimed.
+  const reviewReasons = evaluation.reasons.filter((r) => r.severity === SEVERITIES.REVIEW);
+  if (nearDuplicate && getNearDuplicateAction() === NEAR_DUPLICATE_ACTIONS.REVIEW) {
+    reviewReasons.push({
+      ...nearDuplicateReason,
+      severity: SEVERITIES.REVIEW,
+      params: { receiptId: nearDuplicate.receiptId, distance: nearDuplicate.distance },
+    });
+  }
+  if (reviewReasons.length) {
+    log(`receipt ${receipt.id}: sent to review (${reviewReasons.map((r) => r.code).join(", ")})`);
+    return updateReceipt(
+      userId,
+      receipt.id,
+      {
+        status: RECEIPT_STATUS.PENDING_REVIEW,
+        amount: evaluation.amount,
+        items: evaluation.items,
+        confidences: evaluation.confidences,
+        reasons: evaluation.reasons,
+        ...evaluation.ticket,
+        matchedStoreId: evaluation.matchedStoreId,
+        merchantName: evaluation.merchantName,
+        receiptDate: evaluation.transactionDateIso,
+        rawDateText: evaluation.rawDateText,
+        review: {
+          reasons: reviewReasons,
+          flaggedAt: new Date().toISOString(),
+          detectedAmount: evaluation.amount,
+          decision: null,
+          reviewedBy: null,
+          reviewedAt: null,
+          note: null,
+        },
+      },
+      pending
+    );
+  }
+
+  // 6) Base points, on the capped amount
+  const basePoints = computeBasePoints(evaluation.amount, ruleSet.points);
+
+  // 7) Product bonuses on the line items (product-bonuses.js)
+  const { bonusPoints, bonuses } = computeProductBonuses(evaluation.items, {
+    at: evaluation.transactionDate,
+    amount: evaluation.amount,
+    madPerPoint: ruleSet.points.madPerPoint,
+    maxAmountForPoints: ruleSet.points.maxAmountForPoints,
+    log,
+  });
+  const pointsEarned = basePoints + bonusPoints;
+
+  // 8) Accept it while it is still PENDING, then credit the points through
+  //    the ledger (once per receipt). A failed credit puts it back to PENDING
+  //    so the queue (or the stale sweep) tries again.
+  const accepted = await updateReceipt(
+    userId,
+    receipt.id,
+    {
+      status: RECEIPT_STATUS.ACCEPTED,
+      amount: evaluation.amount,
+      pointsEarned,
+      bonusPoints,
+      bonuses,
+      items: evaluation.items,
+      confidences: evaluation.confidences,
+      reasons: evaluation.reasons,
+      ...evaluation.ticket,
+      matchedStoreId: evaluation.matchedStoreId,
+      merchantName: evaluation.merchantName,
+      receiptDate: evaluation.transactionDateIso,
+      rawDateText: evaluation.rawDateText,
+      processedAt: new Date().toISOString(),
+    },
+    pending
+  );
+
+  try {
+    await addPointsOnce(userId, pointsEarned, {
+      kind: "EARN",
+      reason: "RECEIPT",
+      sourceType: "receipt",
+      sourceId: receipt.id,
+    });
+  } catch (creditErr) {
+    await updateReceipt(
+      userId,
+      receipt.id,
+      { status: RECEIPT_STATUS.PENDING, processedAt: null },
+      { expectedStatus: RECEIPT_STATUS.ACCEPTED }
+    ).catch((revertErr) => log(`receipt ${receipt.id}: acceptance not reverted`, revertErr));
+    throw creditErr;
+  }
+
+  return accepted;
+}
+
+// Poison message: every attempt failed.
+async function failQueuedReceipt(message, { dequeueCount = null, log = () => {} } = {}) {
+  const { receiptId, userId } = message || {};
+  const receipt = receiptId && userId ? await getReceipt(userId, receiptId) : null;
+
+  if (!receipt || receipt.status !== RECEIPT_STATUS.PENDING) {
+    return receipt;
+  }
+
+  log(`receipt ${receiptId}: processing failed, marked FAILED`);
+  return closeReceipt(
+    receipt,
+    {
+      status: RECEIPT_STATUS.FAILED,
+      failure: {
+        error: "PROCESSING_FAILED",
+        message: "The receipt could not be processed. Please try again later.",
+        attempts: dequeueCount,
+      },
+    },
+    log
+  );
+}
+
+// ---------- stale PENDING receipts ----------
+
+// A PENDING receipt whose message was lost (in-process stand-in restarted, no
+// queue worker deployed) would keep its image hash and its place in the daily
+// limit forever: the customer would get DUPLICATE_RECEIPT for the same photo.
+// After RECEIPT_PENDING_STALE_MINUTES (default 10) without a result it is
+// enqueued again, by get-receipt-status or sweep-pending-receipts; after
+// RECEIPT_PENDING_MAX_REQUEUES of those (default 3) it is FAILED, which
+// releases it.
+
+function getPendingStaleMs() {
+  return (Number(process.env.RECEIPT_PENDING_STALE_MINUTES) || 10) * 60 * 1000;
+}
+
+function getMaxRequeues() {
+  const configured = Number(process.env.RECEIPT_PENDING_MAX_REQUEUES);
+  return process.env.RECEIPT_PENDING_MAX_REQUEUES && configured >= 0 ? configured : 3;
+}
+
+function isStalePending(receipt, now = new Date()) {
+  if (!receipt || receipt.status !== RECEIPT_STATUS.PENDING) {
+    return false;
+  }
+  const since = Date.parse(receipt.requeuedAt || receipt.createdAt);
+  return !(now.getTime() - since < getPendingStaleMs());
+}
+
+// -> { receipt, requeue }: requeue is true when the caller must enqueue the
+// receipt again (enqueueReceipt). Any receipt can be passed.
+async function restartStaleReceipt(receipt, { now = new Date(), log = () => {} } = {}) {
+  if (!isStalePending(receipt, now)) {
+    return { receipt, requeue: false };
+  }
+
+  try {
+    if ((receipt.requeueCount || 0) >= getMaxRequeues()) {
+      log(`receipt ${receipt.id}: still PENDING after ${receipt.requeueCount} new attempts, marked FAILED`);
+      const failed = await closeReceipt(
+        receipt,
+        {
+          status: RECEIPT_STATUS.FAILED,
+          failure: {
+            error: "PROCESSING_FAILED",
+            message: "The receipt could not be processed. Please try again later.",
+            attempts: null,
+          },
+        },
+        log,
+        { expectedStatus: RECEIPT_STATUS.PENDING }
+      );
+      return { receipt: failed, requeue: false };
+    }
+
+    const requeued = await updateReceipt(
+      receipt.userId,
+      receipt.id,
+      { requeueCount: (receipt.requeueCount || 0) + 1, requeuedAt: now.toISOString() },
+      { expectedStatus: RECEIPT_STATUS.PENDING }
+    );
+    log(`receipt ${receipt.id}: still PENDING, enqueued again`);
+    return { receipt: requeued, requeue: true };
+  } catch (err) {
+    if (err.code !== "RECEIPT_STATUS_CHANGED") {
+      throw err;
+    }
+    // processed meanwhile
+    return { receipt: await getReceipt(receipt.userId, receipt.id), requeue: false };
+  }
+}
+
+// Stale PENDING receipts of every user, oldest first (at most `limit` PENDING
+// receipts looked at). -> { checked, requeued: [receipts to enqueue], failed }
+async function sweepStalePendingReceipts({ limit = 100, now = new Date(), log = () => {} } = {}) {
+  const pending = await listReceiptsByStatus(RECEIPT_STATUS.PENDING, limit);
+  const requeued = [];
+  let failed = 0;
+
+  for (const receipt of pending) {
+    const restarted = await restartStaleReceipt(receipt, { now, log });
+    if (restarted.requeue) {
+      requeued.push(restarted.receipt);
+    } else if (restarted.receipt && restarted.receipt.status === RECEIPT_STATUS.FAILED) {
+      failed += 1;
+    }
+  }
+
+  return { checked: pending.length, requeued, failed };
+}
+
+// ---------- step 3: manual review ----------
+
+// A reviewer never decides on their own receipt.
+async function getReceiptInReview(userId, receiptId, reviewerId) {
+  if (reviewerId === userId) {
+    throw reviewError("SELF_REVIEW_FORBIDDEN", "Reviewers can't decide on their own receipts.");
+  }
+
+  const receipt = await getReceipt(userId, receiptId);
+  if (!receipt) {
+    throw receiptNotFoundError(receiptId);
+  }
+  if (receipt.status !== RECEIPT_STATUS.PENDING_REVIEW) {
+    throw reviewError(
+      "RECEIPT_NOT_IN_REVIEW",
+      `Receipt ${receiptId} is ${receipt.status}, not waiting for a review.`
+    );
+  }
+  return receipt;
+}
+
+// The decision is written only if the receipt is still PENDING_REVIEW
+// (RECEIPT_STATUS_CHANGED otherwise), so two reviewers can't both decide.
+function toReviewDecisionError(err, receiptId) {
+  return err.code === "RECEIPT_STATUS_CHANGED"
+    ? reviewError(
+        "RECEIPT_NOT_IN_REVIEW",
+        `Receipt ${receiptId} is ${err.status}, not waiting for a review.`
+      )
+    : err;
+}
+
+// amount: corrected by the reviewer (defaults to the amount that was read).
+// Points are computed as for an automatically accepted receipt, and credited
+// once the receipt is ACCEPTED.
+async function approveReviewedReceipt({
+  userId,
+  receiptId,
+  amount = null,
+  reviewerId,
+  note = null,
+  log = () => {},
+}) {
+  const receipt = await getReceiptInReview(userId, receiptId, reviewerId);
+
+  const finalAmount = amount !== null ? amount : receipt.amount;
+  if (typeof finalAmount !== "number" || !Number.isFinite(finalAmount) || finalAmount <= 0) {
+    throw reviewError("AMOUNT_REQUIRED", "The amount could not be read, enter it to approve.");
+  }
+
+  const ruleSet = loadRuleSet(log);
+  const basePoints = computeBasePoints(finalAmount, ruleSet.points);
+  const { bonusPoints, bonuses } = computeProductBonuses(receipt.items, {
+    at: receipt.receiptDate ? new Date(receipt.receiptDate) : undefined,
+    amount: finalAmount,
+    madPerPoint: ruleSet.points.madPerPoint,
+    maxAmountForPoints: ruleSet.points.maxAmountForPoints,
+    log,
+  });
+  const pointsEarned = basePoints + bonusPoints;
+
+  const now = new Date().toISOString();
+  let approved;
+  try {
+    approved = await updateReceipt(
+      userId,
+      receipt.id,
+      {
+        status: RECEIPT_STATUS.ACCEPTED,
+        amount: finalAmount,
+        pointsEarned,
+        bonusPoints,
+        bonuses,
+        review: {
+          ...receipt.review,
+          decision: REVIEW_DECISIONS.APPROVED,
+          reviewedBy: reviewerId,
+          reviewedAt: now,
+          note,
+        },
+        processedAt: now,
+      },
+      { expectedStatus: RECEIPT_STATUS.PENDING_REVIEW }
+    );
+  } catch (err) {
+    throw toReviewDecisionError(err, receiptId);
+  }
+
+  try {
+    await addPointsOnce(userId, pointsEarned, {
+      kind: "EARN",
+      reason: "RECEIPT",
+      sourceType: "receipt",
+      sourceId: receipt.id,
+    });
+  } catch (creditErr) {
+    // Back in the queue, so the approval can be retried
+    await updateReceipt(
+      userId,
+      receipt.id,
+      {
+        status: RECEIPT_STATUS.PENDING_REVIEW,
+        amount: receipt.amount,
+        pointsEarned: receipt.pointsEarned,
+        bonusPoints: receipt.bonusPoints,
+        bonuses: receipt.bonuses,
+        review: receipt.review,
+        processedAt: receipt.processedAt,
+      },
+      { expectedStatus: RECEIPT_STATUS.ACCEPTED }
+    ).catch((revertErr) => log(`receipt ${receipt.id}: approval not reverted`, revertErr));
+    throw creditErr;
+  }
+
+  return approved;
+}
+
+// reason: shown to the customer as the rejection message.
+async function rejectReviewedReceipt({ userId, receiptId, reason, reviewerId, log = () => {} }) {
+  if (typeof reason !== "string" || !reason.trim()) {
+    throw reviewError("REASON_REQUIRED", "A reason is required to reject a receipt.");
+  }
+
+  const receipt = await getReceiptInReview(userId, receiptId, reviewerId);
+
+  try {
+    return await closeReceipt(
+      receipt,
+      {
+        status: RECEIPT_STATUS.REJECTED,
+        rejection: {
+          error: "RECEIPT_REJECTED",
+          reasons: [{ code: "REJECTED_AFTER_REVIEW", message: reason.trim() }],
+        },
+        review: {
+          ...receipt.review,
+          decision: REVIEW_DECISIONS.REJECTED,
+          reviewedBy: reviewerId,
+          reviewedAt: new Date().toISOString(),
+          note: reason.trim(),
+        },
+      },
+      log,
+      { expectedStatus: RECEIPT_STATUS.PENDING_REVIEW }
+    );
+  } catch (err) {
+    throw toReviewDecisionError(err, receiptId);
+  }
+}
+
+// ---------- HTTP bodies ----------
+
+function toSubmitResponse(outcome) {
+  if (outcome.queued) {
+    return {
+      status: 202,
+      jsonBody: {
+        receiptId: outcome.receipt.id,
+        status: outcome.receipt.status,
+      },
+    };
+  }
+
+  if (outcome.rejection) {
+    return {
+      status: UPLOAD_ERROR_STATUS[outcome.rejection.error] || 400,
+      jsonBody: outcome.rejection,
+    };
+  }
+
+  return {
+    status: 400,
+    jsonBody: {
+      error: "DUPLICATE_RECEIPT",
+      message: DUPLICATE_MESSAGE,
+    },
+  };
+}
+
+function toReceiptStatusResponse(receipt) {
+  const body = {
+    receiptId: receipt.id,
+    status: receipt.status,
+    createdAt: receipt.createdAt,
+    processedAt: receipt.processedAt,
+  };
+
+  switch (receipt.status) {
+    case RECEIPT_STATUS.ACCEPTED:
+      return {
+        ...body,
+        amount: receipt.amount,
+        pointsEarned: receipt.pointsEarned,
+        bonusPoints: receipt.bonusPoints,
+        bonuses: receipt.bonuses,
+        items: receipt.items,
+        transactionDate: receipt.receiptDate,
+        transactionTime: receipt.transactionTime,
+        rawDateText: receipt.rawDateText,
+        merchantName: receipt.merchantName,
+      };
+    case RECEIPT_STATUS.REJECTED:
+      return {
+        ...body,
+        ...(receipt.rejection || {}),
+        amount: receipt.amount,
+        transactionDate: receipt.receiptDate,
+        transactionTime: receipt.transactionTime,
+        rawDateText: receipt.rawDateText,
+        merchantName: receipt.merchantName,
+      };
+    case RECEIPT_STATUS.FAILED:
+      return {
+        ...body,
+        ...(receipt.failure || { error: "PROCESSING_FAILED" }),
+      };
+    case RECEIPT_STATUS.PENDING_REVIEW:
+      return {
+        ...body,
+        reasons: receipt.review ? receipt.review.reasons : [],
+        amount: receipt.amount,
+        transactionDate: receipt.receiptDate,
+        transactionTime: receipt.transactionTime,
+        rawDateText: receipt.rawDateText,
+        merchantName: receipt.merchantName,
+      };
+    default:
+      return body;
+  }
+}
+
+// Why a receipt earned nothing (or not yet), in the `reasons` shape.
+function historyReasons(receipt) {
+  switch (receipt.status) {
+    case RECEIPT_STATUS.REJECTED: {
+      const rejection = receipt.rejection || { error: "RECEIPT_REJECTED" };
+      if (Array.isArray(rejection.reasons) && rejection.reasons.length) {
+        return rejection.reasons;
+      }
+      return [{ code: rejection.error, message: rejection.message || null }];
+    }
+    case RECEIPT_STATUS.FAILED: {
+      const failure = receipt.failure || { error: "PROCESSING_FAILED" };
+      return [{ code: failure.error, message: failure.message || null }];
+    }
+    case RECEIPT_STATUS.PENDING_REVIEW:
+      return receipt.review ? receipt.review.reasons : [];
+    default:
+      return receipt.reasons || [];
+  }
+}
+
+// One entry of get-user-receipts.
+function toReceiptHistoryItem(receipt) {
+  return {
+    receiptId: receipt.id,
+    status: receipt.status,
+    createdAt: receipt.createdAt,
+    processedAt: receipt.processedAt,
+    transactionDate: receipt.receiptDate,
+    transactionTime: receipt.transactionTime,
+    rawDateText: receipt.rawDateText,
+    amount: receipt.amount,
+    merchantName: receipt.merchantName,
+    pointsEarned: receipt.status === RECEIPT_STATUS.ACCEPTED ? receipt.pointsEarned : 0,
+    bonusPoints: receipt.status === RECEIPT_STATUS.ACCEPTED ? receipt.bonusPoints : 0,
+    reasons: historyReasons(receipt),
+    thumbnailUrl: thumbnailUrl(receipt),
+  };
+}
+
+// One entry of list-review-receipts: what the reviewer needs to decide (the
+// function adds the signed image link, see receipt-images.js).
+function toReviewQueueItem(receipt) {
+  const review = receipt.review || {};
+  return {
+    receiptId: receipt.id,
+    userId: receipt.userId,
+    createdAt: receipt.createdAt,
+    flaggedAt: review.flaggedAt || null,
+    reasons: review.reasons || [],
+    amount: receipt.amount,
+    merchantName: receipt.merchantName,
+    transactionDate: receipt.receiptDate,
+    rawDateText: receipt.rawDateText,
+    storeId: receipt.storeId,
+    store: toStoreSummary(findStore(receipt.matchedStoreId)),
+    ticketNumber: receipt.ticketNumber,
+    transactionTime: receipt.transactionTime,
+    items: receipt.items,
+    confidences: receipt.confidences,
+    nearDuplicate: receipt.nearDuplicate,
+  };
+}
+
+module.exports = {
+  evaluateAnalysis,
+  submitReceipt,
+  processQueuedReceipt,
+  failQueuedReceipt,
+  restartStaleReceipt,
+  sweepStalePendingReceipts,
+  approveReviewedReceipt,
+  rejectReviewedReceipt,
+  toSubmitResponse,
+  toReceiptStatusResponse,
+  toReceiptHistoryItem,
+  toReviewQueueItem,
+};
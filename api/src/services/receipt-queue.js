@@ -0,0 +1,130 @@
+// api/src/services/receipt-queue.js
+// Queue between the upload endpoints and receipt processing. Messages are
+// { receiptId, userId } for a PENDING receipt (see data/receipts.js).
+//
+//   - Azure Storage queue when RECEIPTS_QUEUE_CONNECTION holds a storage
+//     connection string (UseDevelopmentStorage=true for Azurite). Retries come
+//     from host.json (extensions.queues.maxDequeueCount); after the last one
+//     the runtime moves the message to "<queue>-poison".
+//   - otherwise an in-process stand-in with the same retry / poison behaviour,
+//     for `func start` without storage. Pending messages are lost on restart.
+// RECEIPT_QUEUE=storage|memory forces one or the other.
+//
+// The asynchronous path needs the API deployed as its own Function App (with
+// RECEIPTS_QUEUE_CONNECTION): Static Web Apps managed APIs only run HTTP
+// functions, so there the stand-in is all there is, and its messages are lost
+// whenever the instance restarts or scales in. Receipts left PENDING that way
+// are enqueued again after a while (restartStaleReceipt in
+// receipt-processing.js: from get-receipt-status, the sweep-pending-receipts
+// endpoint, and its timer in the Function App). Timers only run there too:
+// they are registered when usesStorageQueue() is true, like the queue trigger.
+//
+// Config (app settings):
+//   RECEIPTS_QUEUE_NAME             default "receipt-processing"
+//   RECEIPT_QUEUE_MAX_ATTEMPTS      in-process stand-in only (default 5, as host.json)
+//   RECEIPT_QUEUE_RETRY_DELAY_MS    in-process stand-in only, × attempt (default 2000)
+
+const { output } = require("@azure/functions");
+
+const RECEIPT_QUEUE_CONNECTION_SETTING = "RECEIPTS_QUEUE_CONNECTION";
+const RECEIPT_QUEUE_NAME = process.env.RECEIPTS_QUEUE_NAME || "receipt-processing";
+const RECEIPT_POISON_QUEUE_NAME = `${RECEIPT_QUEUE_NAME}-poison`;
+const MAX_ATTEMPTS = Number(process.env.RECEIPT_QUEUE_MAX_ATTEMPTS) || 5;
+const RETRY_DELAY_MS = Number(process.env.RECEIPT_QUEUE_RETRY_DELAY_MS) || 2000;
+
+const receiptQueueOutput = output.storageQueue({
+  queueName: RECEIPT_QUEUE_NAME,
+  connection: RECEIPT_QUEUE_CONNECTION_SETTING,
+});
+
+function usesStorageQueue() {
+  const configured = (process.env.RECEIPT_QUEUE || "").trim().toLowerCase();
+  if (configured) {
+    return configured === "storage";
+  }
+  return !!process.env[RECEIPT_QUEUE_CONNECTION_SETTING];
+}
+
+// extraOutputs for the functions that enqueue receipts
+function receiptQueueOutputs() {
+  return usesStorageQueue() ? [receiptQueueOutput] : [];
+}
+
+function toMessage(receipt) {
+  return { receiptId: receipt.id, userId: receipt.userId };
+}
+
+// ---------- in-process stand-in ----------
+
+const memoryHandlers = {
+  process: null,
+  poison: null,
+};
+
+function onReceiptMessage(handler) {
+  memoryHandlers.process = handler;
+}
+
+function onPoisonReceiptMessage(handler) {
+  memoryHandlers.poison = handler;
+}
+
+// log: the enqueuing invocation's context.log, also used for the retries
+function deliver(message, dequeueCount, log) {
+  setTimeout(async () => {
+    const meta = { dequeueCount, log };
+    try {
+      if (!memoryHandlers.process) {
+        throw new Error("No receipt queue handler registered");
+      }
+      await memoryHandlers.process(message, meta);
+    } catch (err) {
+      if (dequeueCount < MAX_ATTEMPTS) {
+        log(
+          `receipt queue: attempt ${dequeueCount}/${MAX_ATTEMPTS} failed for ${message.receiptId}, retrying`,
+          err && err.message
+        );
+        deliver(message, dequeueCount + 1, log);
+        return;
+      }
+
+      log(`receipt queue: ${message.receiptId} moved to poison`, err);
+      if (memoryHandlers.poison) {
+        await Promise.resolve(memoryHandlers.poison(message, meta)).catch((poisonErr) =>
+          log("receipt queue: poison handler failed", poisonErr)
+        );
+      }
+    }
+  }, dequeueCount > 1 ? RETRY_DELAY_MS * (dequeueCount - 1) : 0);
+}
+
+// ---------- enqueue ----------
+
+// `context` is the invocation context of a function registered with
+// receiptQueueOutputs(); messages are written when the function returns (one
+// invocation can enqueue several receipts).
+function enqueueReceipt(context, receipt) {
+  const message = toMessage(receipt);
+
+  if (usesStorageQueue()) {
+    const queued = context.extraOutputs.get(receiptQueueOutput);
+    context.extraOutputs.set(
+      receiptQueueOutput,
+      queued ? [].concat(queued, message) : message
+    );
+    return;
+  }
+
+  deliver(message, 1, (...args) => context.log(...args));
+}
+
+module.exports = {
+  RECEIPT_QUEUE_CONNECTION_SETTING,
+  RECEIPT_QUEUE_NAME,
+  RECEIPT_POISON_QUEUE_NAME,
+  usesStorageQueue,
+  receiptQueueOutputs,
+  onReceiptMessage,
+  onPoisonReceiptMessage,
+  enqueueReceipt,
+};
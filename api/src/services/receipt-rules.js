@@ -0,0 +1,216 @@
+// api/src/services/receipt-rules.js
+// Declarative receipt validation rules + the engine that evaluates them.
+//
+// The rule set is config/receipt-rules.json, with optional overrides from app
+// settings so ops can change limits for a campaign without a deployment:
+//
+//   RECEIPT_RULES_JSON   overrides inline, or
+//   RECEIPT_RULES_FILE   path to a JSON file with the same shape
+//                        (see fixtures/receipt-rules.example.json)
+//
+// Overrides are merged into the defaults: `points` key by key, rules by id
+// (fields and params replaced one by one, `"enabled": false` turns a rule off,
+// unknown ids are added). E.g. a 5-receipts-a-day weekend:
+//   { "rules": [{ "id": "daily-limit", "params": { "maxPerDay": 5 } }] }
+// Settings are read for every receipt. An override that doesn't produce a
+// valid rule set is logged and ignored (the defaults apply).
+//
+// Rule: { id, type, params, severity, code, message }
+//   type      one of RULE_TYPES below
+//   severity  "blocking" (rejected) | "warning" (accepted, reason kept on the
+//             receipt) | "review" (PENDING_REVIEW until a reviewer decides)
+//   code      reason code sent to the app (RECEIPT_TOO_OLD, …)
+//   message   "{param}" placeholders are replaced by the rule params
+//
+// evaluateRules returns the `reasons` array the customer app already reads
+// ([{ code, message }], plus ruleId, severity and params). A rule whose facts
+// are not known yet is skipped, so the same rule set is evaluated after the
+// analysis and again once the daily count is known.
+
+const fs = require("fs");
+const path = require("path");
+
+const DEFAULT_RULES_FILE = path.join(__dirname, "..", "config", "receipt-rules.json");
+
+const SEVERITIES = {
+  BLOCKING: "blocking",
+  WARNING: "warning",
+  REVIEW: "review",
+};
+
+// type -> { facts, fails(facts, params) }
+const RULE_TYPES = {
+  merchantIsBurgerKing: {
+    facts: ["hasBurgerKing"],
+    // unknown (null) is left to merchantDetected: only a receipt clearly from
+    // elsewhere fails
+    fails: (f) => f.hasBurgerKing === false,
+  },
+  merchantDetected: {
+    facts: ["hasBurgerKing"],
+    fails: (f) => f.hasBurgerKing === null,
+  },
+  // restaurant of the store registry (store-registry.js); an unknown
+  // restaurant (null) passes
+  storeParticipating: {
+    facts: ["store"],
+    fails: (f) => !!f.store && f.store.participating === false,
+  },
+  dateDetected: {
+    facts: ["transactionDate"],
+    fails: (f) => !f.transactionDate,
+  },
+  maxReceiptAge: {
+    facts: ["receiptAgeDays"],
+    fails: (f, p) =>
+      f.receiptAgeDays !== null && f.receiptAgeDays > Number(p.maxDays) + 0.0001,
+  },
+  notInFuture: {
+    facts: ["receiptAgeDays"],
+    // tolerance for parsing and timezone
+    fails: (f, p) =>
+      f.receiptAgeDays !== null && f.receiptAgeDays < -Number(p.toleranceDays || 0),
+  },
+  validAmount: {
+    facts: ["amount"],
+    fails: (f) => f.amount === null || Number.isNaN(f.amount) || f.amount <= 0,
+  },
+  minAmount: {
+    facts: ["amount"],
+    fails: (f, p) => f.amount !== null && f.amount < Number(p.minAmount),
+  },
+  dailyLimit: {
+    facts: ["receiptsToday"],
+    fails: (f, p) => f.receiptsToday >= Number(p.maxPerDay),
+  },
+  // params: { field: "amount" | "transactionDate" | "merchantName", minConfidence }.
+  // A field without a score (not read, or read from the raw text) passes.
+  fieldConfidence: {
+    facts: ["confidences"],
+    fails: (f, p) => {
+      const confidence = f.confidences ? f.confidences[p.field] : null;
+      return typeof confidence === "number" && confidence < Number(p.minConfidence);
+    },
+  },
+};
+
+function readJson(filePath) {
+  return JSON.parse(fs.readFileSync(filePath, "utf8"));
+}
+
+function readOverrides() {
+  if (process.env.RECEIPT_RULES_JSON) {
+    return JSON.parse(process.env.RECEIPT_RULES_JSON);
+  }
+  if (process.env.RECEIPT_RULES_FILE) {
+    return readJson(path.resolve(process.env.RECEIPT_RULES_FILE));
+  }
+  return null;
+}
+
+function mergeRuleSets(base, overrides) {
+  const rules = base.rules.map((rule) => ({ ...rule, params: { ...(rule.params || {}) } }));
+
+  for (const override of (overrides && overrides.rules) || []) {
+    const index = rules.findIndex((rule) => rule.id === override.id);
+    if (index < 0) {
+      rules.push({ ...override, params: { ...(override.params || {}) } });
+      continue;
+    }
+    rules[index] = {
+      ...rules[index],
+      ...override,
+      params: { ...rules[index].params, ...(override.params || {}) },
+    };
+  }
+
+  return {
+    points: { ...base.points, ...((overrides && overrides.points) || {}) },
+    rules: rules.filter((rule) => rule.enabled !== false),
+  };
+}
+
+function validateRuleSet(ruleSet) {
+  for (const key of ["madPerPoint", "maxAmountForPoints"]) {
+    if (!(Number(ruleSet.points[key]) > 0)) return `points.${key} must be > 0`;
+  }
+
+  const ids = new Set();
+  for (const rule of ruleSet.rules) {
+    if (!rule.id) return "a rule has no id";
+    if (ids.has(rule.id)) return `duplicate rule id ${rule.id}`;
+    ids.add(rule.id);
+    if (!RULE_TYPES[rule.type]) return `rule ${rule.id}: unknown type ${rule.type}`;
+    if (!Object.values(SEVERITIES).includes(rule.severity)) {
+      return `rule ${rule.id}: unknown severity ${rule.severity}`;
+    }
+    if (!rule.code) return `rule ${rule.id}: no code`;
+  }
+  return null;
+}
+
+// -> { points: { madPerPoint, maxAmountForPoints, fallbackAmount }, rules }
+function loadRuleSet(log = console.warn) {
+  const defaults = mergeRuleSets(readJson(DEFAULT_RULES_FILE), null);
+
+  let overrides;
+  try {
+    overrides = readOverrides();
+  } catch (err) {
+    log(`Receipt rule overrides ignored, config can't be read: ${err.message}`);
+    return defaults;
+  }
+  if (!overrides) {
+    return defaults;
+  }
+
+  const ruleSet = mergeRuleSets(defaults, overrides);
+  const problem = validateRuleSet(ruleSet);
+  if (problem) {
+    log(`Receipt rule overrides ignored: ${problem}`);
+    return defaults;
+  }
+  return ruleSet;
+}
+
+function formatMessage(message, params) {
+  return String(message || "").replace(/\{(\w+)\}/g, (placeholder, name) =>
+    params[name] !== undefined ? String(params[name]) : placeholder
+  );
+}
+
+// facts: { hasBurgerKing, store, transactionDate, receiptAgeDays, amount,
+//          confidences, receiptsToday }
+// -> { reasons, blocking, review }
+function evaluateRules(ruleSet, facts) {
+  const reasons = [];
+
+  for (const rule of ruleSet.rules) {
+    const type = RULE_TYPES[rule.type];
+    if (type.facts.some((fact) => facts[fact] === undefined)) continue;
+
+    const params = rule.params || {};
+    if (!type.fails(facts, params)) continue;
+
+    reasons.push({
+      code: rule.code,
+      message: formatMessage(rule.message, params),
+      ruleId: rule.id,
+      severity: rule.severity,
+      params,
+    });
+  }
+
+  return {
+    reasons,
+    blocking: reasons.some((r) => r.severity === SEVERITIES.BLOCKING),
+    review: reasons.some((r) => r.severity === SEVERITIES.REVIEW),
+  };
+}
+
+module.exports = {
+  SEVERITIES,
+  RULE_TYPES,
+  loadRuleSet,
+  evaluateRules,
+};
@@ -0,0 +1,36 @@
+// api/src/services/receipt-thumbnails.js
+// Small previews of receipt images for the customer's history
+// (get-receipt-thumbnail). Made on request from the stored image: receipts are
+// listed a page at a time and the browser caches them, so nothing is stored.
+
+const sharp = require("sharp");
+
+const THUMBNAIL_WIDTH = 240;
+
+// -> { buffer, contentType }, or null when the file can't be decoded as an image (e.g. a PDF)
+async function createThumbnail(buffer) {
+  try {
+    const thumbnail = await sharp(buffer)
+      .rotate() // EXIF orientation
+      .resize({ width: THUMBNAIL_WIDTH, withoutEnlargement: true })
+      .jpeg({ quality: 70 })
+      .toBuffer();
+    return { buffer: thumbnail, contentType: "image/jpeg" };
+  } catch {
+    return null;
+  }
+}
+
+// Link sent in get-user-receipts, null once the image is gone (rejected,
+// failed or anonymized receipts).
+function thumbnailUrl(receipt) {
+  return receipt && receipt.blobName
+    ? `/api/get-receipt-thumbnail?receiptId=${encodeURIComponent(receipt.id)}`
+    : null;
+}
+
+module.exports = {
+  THUMBNAIL_WIDTH,
+  createThumbnail,
+  thumbnailUrl,
+};
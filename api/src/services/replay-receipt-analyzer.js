@@ -0,0 +1,24 @@
+// api/src/services/replay-receipt-analyzer.js
+// Offline receipt analyzer (RECEIPT_ANALYZER=replay): answers from the
+// recorded prebuilt-receipt results (docint-recordings.js), run through the
+// current extraction code. Only images that were recorded can be analyzed.
+
+const { findRecording } = require("./docint-recordings");
+const { extractReceiptInfo } = require("./document-intelligence");
+
+async function analyzeReceipt(buffer) {
+  const recording = findRecording(buffer);
+
+  if (!recording) {
+    const err = new Error("No Document Intelligence recording for this image");
+    err.code = "RECORDING_NOT_FOUND";
+    throw err;
+  }
+
+  // Same "today" as when it was recorded, so date rules replay identically
+  return extractReceiptInfo(recording.result, new Date(recording.recordedAt));
+}
+
+module.exports = {
+  analyzeReceipt,
+};
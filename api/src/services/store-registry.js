@@ -0,0 +1,175 @@
+// api/src/services/store-registry.js
+// BK restaurants taking part (or not) in the loyalty program
+// (config/stores.json, or the file named by STORE_REGISTRY_FILE):
+//   { id, name, city, participating, storeNumbers, phones, addressPatterns, namePatterns }
+//
+// A receipt is attributed to a restaurant from what the analysis read, the
+// most reliable clue first:
+//   1. storeNumber    restaurant number printed on the ticket ("Restaurant N° 2104")
+//   2. phone          restaurant phone number (last 9 digits compared)
+//   3. address        an address pattern found in the printed address
+//   4. merchantName   a name pattern found in the merchant name ("BK MAARIF")
+// Patterns are matched like product aliases (accents, case and punctuation
+// ignored, whole words); the longest pattern wins, and a tie between two
+// restaurants is no match. Unknown restaurants keep matchedStoreId null.
+
+const fs = require("fs");
+const path = require("path");
+const { normalizeText } = require("./product-catalog");
+
+const DEFAULT_REGISTRY_FILE = path.join(__dirname, "..", "config", "stores.json");
+
+let cached = null; // { file, registry }
+
+function phoneKey(phone) {
+  const digits = String(phone || "").replace(/\D/g, "");
+  return digits.length >= 8 ? digits.slice(-9) : null;
+}
+
+function buildRegistry(config) {
+  const stores = (Array.isArray(config.stores) ? config.stores : []).map((store) => ({
+    ...store,
+    participating: store.participating !== false,
+  }));
+
+  const byNumber = new Map();
+  const byPhone = new Map();
+  const patterns = { address: [], merchantName: [] };
+
+  for (const store of stores) {
+    for (const number of store.storeNumbers || []) {
+      byNumber.set(String(number).replace(/^0+(?=\d)/, ""), store);
+    }
+    for (const phone of store.phones || []) {
+      if (phoneKey(phone)) byPhone.set(phoneKey(phone), store);
+    }
+    for (const [kind, list] of [
+      ["address", store.addressPatterns],
+      ["merchantName", store.namePatterns],
+    ]) {
+      for (const pattern of list || []) {
+        const normalized = normalizeText(pattern);
+        if (normalized) patterns[kind].push({ pattern: ` ${normalized} `, store });
+      }
+    }
+  }
+  patterns.address.sort((a, b) => b.pattern.length - a.pattern.length);
+  patterns.merchantName.sort((a, b) => b.pattern.length - a.pattern.length);
+
+  return { stores, byNumber, byPhone, patterns };
+}
+
+// Read once per process; the registry only changes with a deployment.
+function getStoreRegistry() {
+  const file = process.env.STORE_REGISTRY_FILE
+    ? path.resolve(process.env.STORE_REGISTRY_FILE)
+    : DEFAULT_REGISTRY_FILE;
+
+  if (!cached || cached.file !== file) {
+    cached = { file, registry: buildRegistry(JSON.parse(fs.readFileSync(file, "utf8"))) };
+  }
+  return cached.registry;
+}
+
+function listStores() {
+  return getStoreRegistry().stores;
+}
+
+function findStore(storeId) {
+  return listStores().find((s) => s.id === storeId) || null;
+}
+
+function matchPattern(list, text) {
+  const normalized = normalizeText(text);
+  if (!normalized) return null;
+
+  const haystack = ` ${normalized} `;
+  const found = list.filter((p) => haystack.includes(p.pattern));
+  if (!found.length) return null;
+
+  const longest = found.filter((p) => p.pattern.length === found[0].pattern.length);
+  return longest.every((p) => p.store === longest[0].store) ? longest[0].store : null;
+}
+
+// Analysis fields -> { store, matchedBy } | null
+//   storeId: printed restaurant number, or "tel:<digits>" (document-intelligence.js)
+function matchStore({
+  storeId = null,
+  merchantName = null,
+  merchantAddress = null,
+  merchantPhone = null,
+}) {
+  const registry = getStoreRegistry();
+  const printed = String(storeId || "");
+
+  if (printed && !printed.startsWith("tel:")) {
+    const store = registry.byNumber.get(printed.replace(/^0+(?=\d)/, ""));
+    if (store) return { store, matchedBy: "storeNumber" };
+  }
+
+  const phone = phoneKey(merchantPhone || (printed.startsWith("tel:") ? printed.slice(4) : null));
+  if (phone && registry.byPhone.has(phone)) {
+    return { store: registry.byPhone.get(phone), matchedBy: "phone" };
+  }
+
+  const byAddress = matchPattern(registry.patterns.address, merchantAddress);
+  if (byAddress) return { store: byAddress, matchedBy: "address" };
+
+  const byName = matchPattern(registry.patterns.merchantName, merchantName);
+  if (byName) return { store: byName, matchedBy: "merchantName" };
+
+  return null;
+}
+
+// What the apps and reviewers see of a restaurant.
+function toStoreSummary(store) {
+  return store
+    ? {
+        id: store.id,
+        name: store.name,
+        city: store.city || null,
+        participating: store.participating,
+      }
+    : null;
+}
+
+// countReceiptsByStore rows -> one entry per registry restaurant (zeros
+// included), then restaurants no longer in the registry, plus the receipts
+// no restaurant was matched for:
+// { stores: [{ ...summary, total, byStatus }], unmatched: { total, byStatus } }
+function summarizeStoreCounts(rows) {
+  const entries = new Map(
+    listStores().map((s) => [s.id, { ...toStoreSummary(s), total: 0, byStatus: {} }])
+  );
+  const unmatched = { total: 0, byStatus: {} };
+
+  for (const row of rows) {
+    let entry = unmatched;
+    if (row.storeId) {
+      if (!entries.has(row.storeId)) {
+        entries.set(row.storeId, {
+          id: row.storeId,
+          name: null,
+          city: null,
+          participating: null,
+          total: 0,
+          byStatus: {},
+        });
+      }
+      entry = entries.get(row.storeId);
+    }
+    entry.total += row.count;
+    entry.byStatus[row.status] = (entry.byStatus[row.status] || 0) + row.count;
+  }
+
+  return { stores: [...entries.values()], unmatched };
+}
+
+module.exports = {
+  getStoreRegistry,
+  listStores,
+  findStore,
+  matchStore,
+  toStoreSummary,
+  summarizeStoreCounts,
+};
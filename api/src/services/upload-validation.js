@@ -0,0 +1,183 @@
+// api/src/services/upload-validation.js
+// Checks and cleans a receipt file before it is hashed, stored and analyzed
+// (submitReceipt). The client's contentType and fileName are not trusted:
+//   - size between 1 byte and RECEIPT_MAX_UPLOAD_MB (default 10)
+//   - type detected from the first bytes: JPEG, PNG, HEIC / HEIF or PDF
+//   - images with metadata (EXIF, GPS…), a rotation flag or more than
+//     RECEIPT_MAX_IMAGE_SIDE pixels (default 4000) on the longest side are
+//     re-encoded upright, without metadata and downscaled. HEIC is converted
+//     to JPEG when libvips can decode it; the prebuilt sharp binaries can't
+//     (HEVC), and such a file is refused rather than stored with its GPS
+//     position (the app's camera and most photo pickers send JPEG anyway).
+//   - PDFs are kept as sent (size check only)
+//
+// Refusals throw an error with `code`, answered as is to the app:
+//   FILE_EMPTY, FILE_TOO_LARGE, UNSUPPORTED_FILE_TYPE, HEIC_NOT_SUPPORTED,
+//   INVALID_IMAGE
+
+const sharp = require("sharp");
+
+const FILE_TYPES = {
+  jpeg: { contentType: "image/jpeg", extension: ".jpg" },
+  png: { contentType: "image/png", extension: ".png" },
+  heic: { contentType: "image/heic", extension: ".heic" },
+  pdf: { contentType: "application/pdf", extension: ".pdf" },
+};
+
+// Declared types worth a direct upload URL (create-receipt-upload); the real
+// type is still checked on the content.
+const ACCEPTED_CONTENT_TYPES = [
+  "image/jpeg",
+  "image/jpg",
+  "image/png",
+  "image/heic",
+  "image/heif",
+  "application/pdf",
+];
+
+// ISO-BMFF brands of HEIC / HEIF still images
+const HEIF_BRANDS = ["heic", "heix", "hevc", "hevx", "heim", "heis", "mif1", "msf1"];
+
+const MESSAGES = {
+  FILE_EMPTY: "The file is empty.",
+  FILE_TOO_LARGE: "The file is too large.",
+  UNSUPPORTED_FILE_TYPE: "Only JPEG, PNG, HEIC photos and PDF files are accepted.",
+  HEIC_NOT_SUPPORTED: "This HEIC photo can't be read. Please send it as JPEG.",
+  INVALID_IMAGE: "The image could not be read.",
+};
+
+function numberSetting(name, fallback) {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+function getMaxUploadBytes() {
+  return Math.round(numberSetting("RECEIPT_MAX_UPLOAD_MB", 10) * 1024 * 1024);
+}
+
+function getMaxImageSide() {
+  return Math.round(numberSetting("RECEIPT_MAX_IMAGE_SIDE", 4000));
+}
+
+function uploadError(code, message = MESSAGES[code]) {
+  const err = new Error(message);
+  err.code = code;
+  return err;
+}
+
+// Also used before a direct upload is downloaded (process-receipt)
+function fileTooLargeError() {
+  return uploadError(
+    "FILE_TOO_LARGE",
+    `The file is too large (max ${Math.round(getMaxUploadBytes() / (1024 * 1024))} MB).`
+  );
+}
+
+// -> "jpeg" | "png" | "heic" | "pdf" | null
+function detectFileType(buffer) {
+  if (!buffer || buffer.length < 12) return null;
+
+  if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return "jpeg";
+  }
+  if (buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return "png";
+  }
+  if (buffer.subarray(0, 5).toString("latin1") === "%PDF-") {
+    return "pdf";
+  }
+  if (
+    buffer.subarray(4, 8).toString("latin1") === "ftyp" &&
+    HEIF_BRANDS.includes(buffer.subarray(8, 12).toString("latin1"))
+  ) {
+    return "heic";
+  }
+  return null;
+}
+
+function isAcceptedContentType(contentType) {
+  return ACCEPTED_CONTENT_TYPES.includes(String(contentType || "").toLowerCase().split(";")[0].trim());
+}
+
+// Same name with the extension of the detected type ("IMG_1.HEIC" -> "IMG_1.jpg").
+function withExtension(fileName, extension) {
+  const base = String(fileName || "receipt").replace(/\.[A-Za-z0-9]{1,5}$/, "");
+  return `${base || "receipt"}${extension}`;
+}
+
+// Re-encoding is only needed for metadata, a rotation flag or a size over the
+// limit. A clean image keeps its bytes, so the same file always gets the same
+// hash (duplicates, retried direct uploads).
+function needsNormalization(metadata, type) {
+  return (
+    type === "heic" ||
+    !!(metadata.exif || metadata.xmp || metadata.iptc) ||
+    (metadata.orientation || 1) !== 1 ||
+    Math.max(metadata.width, metadata.height) > getMaxImageSide()
+  );
+}
+
+// Upright, metadata-free, downscaled copy (sharp drops metadata unless asked).
+async function normalizeImage(buffer, type) {
+  const maxSide = getMaxImageSide();
+  const pipeline = sharp(buffer)
+    .rotate() // EXIF orientation, applied before the EXIF is dropped
+    .resize({ width: maxSide, height: maxSide, fit: "inside", withoutEnlargement: true });
+
+  return type === "png"
+    ? pipeline.png().toBuffer()
+    : pipeline.jpeg({ quality: 90, mozjpeg: true }).toBuffer();
+}
+
+// -> { buffer, contentType, fileName, type, normalized } or throws (codes above)
+async function prepareReceiptUpload(buffer, fileName = null) {
+  if (!buffer || buffer.length === 0) {
+    throw uploadError("FILE_EMPTY");
+  }
+  if (buffer.length > getMaxUploadBytes()) {
+    throw fileTooLargeError();
+  }
+
+  const type = detectFileType(buffer);
+  if (!type) {
+    throw uploadError("UNSUPPORTED_FILE_TYPE");
+  }
+
+  if (type === "pdf") {
+    return { buffer, ...toUpload("pdf", fileName), normalized: false };
+  }
+
+  let normalized;
+  try {
+    const metadata = await sharp(buffer).metadata();
+    if (!metadata.width || !metadata.height) {
+      throw uploadError("INVALID_IMAGE");
+    }
+    if (!needsNormalization(metadata, type)) {
+      return { buffer, ...toUpload(type, fileName), normalized: false };
+    }
+    normalized = await normalizeImage(buffer, type);
+  } catch {
+    throw uploadError(type === "heic" ? "HEIC_NOT_SUPPORTED" : "INVALID_IMAGE");
+  }
+
+  const outputType = type === "png" ? "png" : "jpeg";
+  return { buffer: normalized, ...toUpload(outputType, fileName), normalized: true };
+}
+
+function toUpload(type, fileName) {
+  return {
+    type,
+    contentType: FILE_TYPES[type].contentType,
+    fileName: withExtension(fileName, FILE_TYPES[type].extension),
+  };
+}
+
+module.exports = {
+  ACCEPTED_CONTENT_TYPES,
+  getMaxUploadBytes,
+  fileTooLargeError,
+  detectFileType,
+  isAcceptedContentType,
+  prepareReceiptUpload,
+};
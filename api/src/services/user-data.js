@@ -0,0 +1,132 @@
+// api/src/services/user-data.js
+// Personal data requests (law 09-08 / CNDP): export everything tied to a
+// customer as a ZIP archive (photos included), or delete the account.
+//
+// Every step goes through `log`, so the Functions logs keep a trace of who
+// asked for what and what was done.
+
+const db = require("../data/db");
+const {
+  isBlobStorageConfigured,
+  listUserBlobs,
+  readReceiptImage,
+  saveUserExport,
+  deleteUserBlobs,
+} = require("../data/blob-storage");
+const { pseudonymFor, withoutSystemProperties } = require("../data/privacy");
+const { createZipStream } = require("./zip-archive");
+
+function toJson(value) {
+  return JSON.stringify(value, null, 2);
+}
+
+function readme(exportedAtIso) {
+  const lines = [
+    "BK Fidélité Maroc – export de tes données personnelles",
+    `Généré le ${exportedAtIso}`,
+    "",
+    "user.json      ton profil et ton solde de Couronnes",
+    "ledger.json    l'historique complet de tes Couronnes (gains, récompenses, expirations)",
+    "receipts.json  les tickets que tu as envoyés",
+    "rewards.json   les récompenses que tu as obtenues",
+    "photos/        les photos de tes tickets",
+  ];
+
+  return `${lines.join("\n")}\n`;
+}
+
+// One archive entry per photo, read only when the archive reaches it.
+function photoEntries(blobs, date) {
+  return blobs.map((blob) => ({
+    name: `photos/${blob.name.slice(blob.name.indexOf("/") + 1)}`,
+    read: async () => {
+      const image = await readReceiptImage(blob.name);
+      return image ? image.buffer : null;
+    },
+    date,
+    compress: false,
+  }));
+}
+
+// Builds the ZIP archive, photos included, straight into Blob Storage (it is
+// never held in memory as a whole). Returns { fileName, url, expiresAt,
+// summary }: url is a read-only link that downloads the archive.
+async function exportUserData(userId, { log = console.log } = {}) {
+  if (!isBlobStorageConfigured()) {
+    const err = new Error("Blob storage is not configured: the export has nowhere to be written.");
+    err.code = "EXPORT_STORAGE_MISSING";
+    throw err;
+  }
+
+  const now = new Date();
+  const exportedAt = now.toISOString();
+  const fileName = `bk-fidelite-donnees-${exportedAt.slice(0, 10)}.zip`;
+  log(`[privacy] export started for ${userId}`);
+
+  const user = await db.getUser(userId);
+  const ledger = await db.listLedgerEntries(userId, null);
+  const receipts = await db.listReceiptsForUser(userId);
+  const rewards = await db.listRewardsForUser(userId);
+  const images = await listUserBlobs(userId);
+  log(
+    `[privacy] export ${userId}: ${ledger.length} ledger entries, ${receipts.length} receipts, ${rewards.length} rewards, ${images.length} images`
+  );
+
+  const archive = createZipStream([
+    { name: "LISEZMOI.txt", data: readme(exportedAt), date: now },
+    { name: "user.json", data: toJson(user), date: now },
+    { name: "ledger.json", data: toJson(ledger.map(withoutSystemProperties)), date: now },
+    { name: "receipts.json", data: toJson(receipts.map(withoutSystemProperties)), date: now },
+    { name: "rewards.json", data: toJson(rewards.map(withoutSystemProperties)), date: now },
+    ...photoEntries(images, now),
+  ]);
+  const { blobName, url, expiresAt } = await saveUserExport(userId, fileName, archive);
+  log(`[privacy] export finished for ${userId} (${blobName})`);
+
+  return {
+    fileName,
+    url,
+    expiresAt,
+    summary: {
+      ledgerEntries: ledger.length,
+      receipts: receipts.length,
+      rewards: rewards.length,
+      images: images.length,
+    },
+  };
+}
+
+// Deletes the receipt images and the user's documents; receipts, rewards and
+// fingerprints are kept under a pseudonym (see data/privacy.js).
+// The pseudonym comes first (throws without PRIVACY_PSEUDONYM_SECRET), then
+// the images: if either fails, nothing has been touched yet and the request
+// can simply be retried.
+async function deleteUserData(userId, { log = console.log } = {}) {
+  const pseudonymId = pseudonymFor(userId);
+  const summary = { images: 0, receipts: 0, rewards: 0, userDocuments: 0 };
+  log(`[privacy] deletion started for ${userId} → ${pseudonymId}`);
+
+  if (isBlobStorageConfigured()) {
+    summary.images = await deleteUserBlobs(userId);
+    log(`[privacy] deletion ${userId}: ${summary.images} images deleted`);
+  } else {
+    log(`[privacy] deletion ${userId}: blob storage not configured, no images to delete`);
+  }
+
+  summary.receipts = await db.anonymizeReceipts(userId, pseudonymId);
+  log(`[privacy] deletion ${userId}: ${summary.receipts} receipts anonymized`);
+
+  summary.rewards = await db.anonymizeRewards(userId, pseudonymId);
+  log(`[privacy] deletion ${userId}: ${summary.rewards} rewards anonymized`);
+
+  summary.userDocuments = await db.deleteUser(userId);
+  log(`[privacy] deletion ${userId}: ${summary.userDocuments} user and ledger documents deleted`);
+
+  log(`[privacy] deletion finished for ${userId}`);
+  return summary;
+}
+
+module.exports = {
+  exportUserData,
+  deleteUserData,
+};
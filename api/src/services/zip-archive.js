@@ -0,0 +1,127 @@
+// api/src/services/zip-archive.js
+// Minimal ZIP writer for the personal data export (no extra dependency).
+// Text files are deflated, images are stored as-is (already compressed).
+// The archive is produced as a stream, one entry at a time: only the entry
+// being written is held in memory, so it can carry every receipt photo.
+// Plain ZIP (no ZIP64): up to 65535 entries and 4 GB.
+
+const zlib = require("zlib");
+const { Readable } = require("stream");
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(buffer) {
+  let crc = 0xffffffff;
+  for (let i = 0; i < buffer.length; i += 1) {
+    crc = CRC_TABLE[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date/time, as stored in ZIP headers (local time, 2-second precision)
+function toDosDateTime(date) {
+  const d = date instanceof Date && !Number.isNaN(date.getTime()) ? date : new Date();
+  const time = (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2);
+  const day =
+    ((Math.max(d.getFullYear(), 1980) - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate();
+  return { time, day };
+}
+
+function toBuffer(data) {
+  return Buffer.isBuffer(data) ? data : Buffer.from(String(data), "utf8");
+}
+
+// entries: iterable (or async iterable) of
+// [{ name, data?: Buffer | string, read?: async () => Buffer | null, date?, compress? }]
+// `read` loads the entry only when it is written; an entry whose read()
+// returns null is left out.
+async function* zipChunks(entries) {
+  const centralParts = [];
+  let offset = 0;
+  let count = 0;
+
+  for await (const entry of entries) {
+    const content = entry.read ? await entry.read() : entry.data;
+    if (content === null || content === undefined) continue;
+
+    const name = Buffer.from(entry.name, "utf8");
+    const data = toBuffer(content);
+    const compress = entry.compress !== false;
+    const body = compress ? zlib.deflateRawSync(data) : data;
+    const method = compress ? 8 : 0;
+    const crc = crc32(data);
+    const { time, day } = toDosDateTime(entry.date);
+    const flags = 0x0800; // file names are UTF-8
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(flags, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(day, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28); // extra field length
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4); // version made by
+    central.writeUInt16LE(20, 6); // version needed
+    central.writeUInt16LE(flags, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(day, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(body.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt16LE(0, 30); // extra field length
+    central.writeUInt16LE(0, 32); // comment length
+    central.writeUInt16LE(0, 34); // disk number
+    central.writeUInt16LE(0, 36); // internal attributes
+    central.writeUInt32LE(0, 38); // external attributes
+    central.writeUInt32LE(offset, 42);
+
+    yield Buffer.concat([local, name]);
+    yield body;
+    centralParts.push(central, name);
+    offset += local.length + name.length + body.length;
+    count += 1;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(0, 4); // disk number
+  end.writeUInt16LE(0, 6); // disk with central directory
+  end.writeUInt16LE(count, 8);
+  end.writeUInt16LE(count, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  end.writeUInt16LE(0, 20); // comment length
+
+  yield centralDirectory;
+  yield end;
+}
+
+// -> Readable stream of the ZIP file
+function createZipStream(entries) {
+  return Readable.from(zipChunks(entries), { objectMode: false });
+}
+
+module.exports = {
+  createZipStream,
+};
@@ -0,0 +1,46 @@
+// api/test/azure-blob-storage.test.js
+// Blob Storage calls are mocked: no account or Azurite needed.
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { BlobClient } = require("@azure/storage-blob");
+
+process.env.RECEIPTS_STORAGE_CONNECTION_STRING = "UseDevelopmentStorage=true";
+const { readBlob } = require("../src/data/azure-blob-storage");
+
+test("a blob over maxBytes is refused before it is downloaded", async (t) => {
+  t.mock.method(BlobClient.prototype, "getProperties", async () => ({
+    contentLength: 50 * 1024 * 1024,
+    contentType: "image/jpeg",
+    etag: '"0x1"',
+  }));
+  const download = t.mock.method(BlobClient.prototype, "downloadToBuffer", async () => Buffer.alloc(0));
+
+  await assert.rejects(readBlob("user-1/huge.jpg", { maxBytes: 10 * 1024 * 1024 }), {
+    code: "FILE_TOO_LARGE",
+  });
+  assert.equal(download.mock.callCount(), 0);
+});
+
+test("the download is pinned to the version that was measured", async (t) => {
+  t.mock.method(BlobClient.prototype, "getProperties", async () => ({
+    contentLength: 3,
+    contentType: "image/jpeg",
+    etag: '"0x2"',
+  }));
+  const download = t.mock.method(BlobClient.prototype, "downloadToBuffer", async () =>
+    Buffer.from("abc")
+  );
+
+  const blob = await readBlob("user-1/ticket.jpg", { maxBytes: 10 });
+  assert.deepEqual(blob, { buffer: Buffer.from("abc"), contentType: "image/jpeg", size: 3 });
+  assert.deepEqual(download.mock.calls[0].arguments[2], { conditions: { ifMatch: '"0x2"' } });
+});
+
+test("a missing blob is null", async (t) => {
+  t.mock.method(BlobClient.prototype, "getProperties", async () => {
+    const err = new Error("BlobNotFound");
+    err.statusCode = 404;
+    throw err;
+  });
+  assert.equal(await readBlob("user-1/missing.jpg"), null);
+});
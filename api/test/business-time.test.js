@@ -0,0 +1,80 @@
+// api/test/business-time.test.js
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const {
+  parseTimeOfDay,
+  businessDay,
+  businessDateTime,
+  businessDayRange,
+  businessDaysBetween,
+  addDays,
+} = require("../src/config/business-time");
+
+// Africa/Casablanca is UTC+1, except during Ramadan (UTC+0): in 2026 from
+// 15/02 03:00 to 22/03 02:00, local time.
+
+test("businessDay is the day in Morocco, not in UTC", () => {
+  assert.equal(businessDay(new Date("2026-06-01T23:30:00Z")), "2026-06-02");
+  assert.equal(businessDay(new Date("2026-06-01T22:59:00Z")), "2026-06-01");
+  assert.equal(businessDay(new Date("invalid")), null);
+});
+
+test("businessDay follows the Ramadan switch to UTC+0", () => {
+  assert.equal(businessDay(new Date("2026-03-01T23:30:00Z")), "2026-03-01");
+  assert.equal(businessDay(new Date("2026-03-01T00:00:00Z")), "2026-03-01");
+});
+
+test("businessDateTime turns a Moroccan wall clock time into an instant", () => {
+  assert.equal(businessDateTime("2026-06-01", "12:31").toISOString(), "2026-06-01T11:31:00.000Z");
+  assert.equal(businessDateTime("2026-06-01").toISOString(), "2026-05-31T23:00:00.000Z");
+  assert.equal(businessDateTime("2026-03-01").toISOString(), "2026-03-01T00:00:00.000Z");
+  assert.equal(businessDateTime("2026-03-01", { hour: 12, minute: 31 }).toISOString(), "2026-03-01T12:31:00.000Z");
+});
+
+test("businessDateTime settles the offset on the days of the switch", () => {
+  // last day of Ramadan time: midnight is still UTC+0
+  assert.equal(businessDateTime("2026-03-21").toISOString(), "2026-03-21T00:00:00.000Z");
+  // back to UTC+1 at 02:00 on 22/03
+  assert.equal(businessDateTime("2026-03-22", "12:00").toISOString(), "2026-03-22T11:00:00.000Z");
+  assert.equal(businessDateTime("2026-02-16").toISOString(), "2026-02-16T00:00:00.000Z");
+});
+
+test("businessDateTime refuses impossible days", () => {
+  assert.equal(businessDateTime("2026-02-31"), null);
+  assert.equal(businessDateTime("01/06/2026"), null);
+  assert.equal(businessDateTime(null), null);
+});
+
+test("businessDayRange covers one Moroccan day", () => {
+  const summer = businessDayRange(new Date("2026-06-01T23:30:00Z"));
+  assert.equal(summer.start.toISOString(), "2026-06-01T23:00:00.000Z");
+  assert.equal(summer.end.toISOString(), "2026-06-02T23:00:00.000Z");
+
+  // the day of the switch back to UTC+1 lasts 23 hours
+  const switchDay = businessDayRange(new Date("2026-03-22T12:00:00Z"));
+  assert.equal(switchDay.start.toISOString(), "2026-03-22T00:00:00.000Z");
+  assert.equal(switchDay.end.toISOString(), "2026-03-22T23:00:00.000Z");
+});
+
+test("businessDaysBetween counts calendar days in Morocco", () => {
+  const ticket = businessDateTime("2026-06-01", "23:50");
+  assert.equal(businessDaysBetween(ticket, new Date("2026-06-01T23:05:00Z")), 1);
+  assert.equal(businessDaysBetween(ticket, businessDateTime("2026-06-01", "23:59")), 0);
+  assert.equal(businessDaysBetween(businessDateTime("2026-03-20"), businessDateTime("2026-03-23")), 3);
+  assert.equal(businessDaysBetween(businessDateTime("2026-06-03"), businessDateTime("2026-06-01")), -2);
+  assert.equal(businessDaysBetween(new Date("invalid"), new Date()), null);
+});
+
+test("addDays crosses months and years", () => {
+  assert.equal(addDays("2026-02-28", 1), "2026-03-01");
+  assert.equal(addDays("2026-01-01", -1), "2025-12-31");
+  assert.equal(addDays("nope", 1), null);
+});
+
+test("parseTimeOfDay reads printed times", () => {
+  assert.deepEqual(parseTimeOfDay("12:31"), { hour: 12, minute: 31 });
+  assert.deepEqual(parseTimeOfDay("Heure 9h05"), { hour: 9, minute: 5 });
+  assert.deepEqual(parseTimeOfDay("23:59:10"), { hour: 23, minute: 59 });
+  assert.equal(parseTimeOfDay("25:00"), null);
+  assert.equal(parseTimeOfDay(null), null);
+});
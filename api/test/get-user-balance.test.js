@@ -0,0 +1,48 @@
+// api/test/get-user-balance.test.js
+// The balance comes from the user snapshot: expired points are left out
+// without reading the ledger.
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { app } = require("@azure/functions");
+
+Object.assign(process.env, {
+  DATA_BACKEND: "memory",
+  DEV_USER_ID: "balance-user",
+});
+
+const handlers = {};
+test.mock.method(app, "http", (name, options) => {
+  handlers[name] = options.handler;
+});
+require("../src/functions/get-user-balance");
+
+const { getRepository } = require("../src/data/repository");
+const { addPoints } = require("../src/data/db");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function balanceRequest() {
+  return {
+    url: "http://localhost:7071/api/get-user-balance",
+    headers: new Headers(),
+    query: new URLSearchParams(),
+  };
+}
+
+test("expired and expiring points come from the snapshot, not the ledger", async () => {
+  const inDays = (days) => new Date(Date.now() + days * DAY_MS).toISOString();
+  await addPoints("balance-user", 50, { kind: "EARN", expiresAt: inDays(-1) });
+  await addPoints("balance-user", 10, { kind: "EARN", expiresAt: inDays(5) });
+  await addPoints("balance-user", 20, { kind: "EARN" });
+
+  const listLedgerEntries = test.mock.method(getRepository(), "listLedgerEntries");
+  try {
+    const response = await handlers["get-user-balance"](balanceRequest(), { log: () => {} });
+
+    assert.equal(response.jsonBody.points, 30);
+    assert.equal(response.jsonBody.expiringSoon.points, 10);
+    assert.equal(listLedgerEntries.mock.callCount(), 0);
+  } finally {
+    listLedgerEntries.mock.restore();
+  }
+});
@@ -0,0 +1,43 @@
+// api/test/get-user-receipts.test.js
+// Receipt history paging: a token the store can't use is the caller's mistake.
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { app } = require("@azure/functions");
+
+Object.assign(process.env, {
+  DATA_BACKEND: "memory",
+  DEV_USER_ID: "history-user",
+});
+
+const handlers = {};
+test.mock.method(app, "http", (name, options) => {
+  handlers[name] = options.handler;
+});
+require("../src/functions/get-user-receipts");
+
+const { createReceipt } = require("../src/data/db");
+
+function historyRequest(params) {
+  return {
+    url: "http://localhost:7071/api/get-user-receipts",
+    headers: new Headers(),
+    query: new URLSearchParams(params),
+  };
+}
+
+test("a bad or expired continuation token answers 400", async () => {
+  for (let i = 0; i < 3; i += 1) {
+    await createReceipt("history-user", null, 50, 5, {});
+  }
+
+  const first = await handlers["get-user-receipts"](historyRequest({ limit: "2" }), { log: () => {} });
+  assert.equal(first.jsonBody.receipts.length, 2);
+
+  const response = await handlers["get-user-receipts"](
+    historyRequest({ limit: "2", continuationToken: "expired-token" }),
+    { log: () => {} }
+  );
+
+  assert.equal(response.status, 400);
+  assert.equal(response.jsonBody.error, "INVALID_CONTINUATION_TOKEN");
+});
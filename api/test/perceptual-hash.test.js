@@ -0,0 +1,62 @@
+// api/test/perceptual-hash.test.js
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const sharp = require("sharp");
+const {
+  HASH_BITS,
+  computePerceptualHash,
+  hammingDistance,
+} = require("../src/services/perceptual-hash");
+
+// A "receipt": white paper with dark lines of text at given heights
+function receiptSvg(lines, width = 400, height = 800) {
+  const rects = lines
+    .map(([y, w]) => `<rect x="40" y="${y}" width="${w}" height="14" fill="#222"/>`)
+    .join("");
+  return Buffer.from(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+      `<rect width="100%" height="100%" fill="#fff"/>${rects}</svg>`
+  );
+}
+
+const TICKET_LINES = [[60, 300], [120, 180], [200, 250], [260, 120], [400, 280], [520, 200], [700, 160]];
+const OTHER_LINES = [[90, 120], [150, 300], [330, 90], [450, 310], [600, 60], [650, 240]];
+
+test("hash of an image: HASH_BITS bits in hex", async () => {
+  const hash = await computePerceptualHash(await sharp(receiptSvg(TICKET_LINES)).jpeg().toBuffer());
+  assert.match(hash, /^[0-9a-f]+$/);
+  assert.equal(hash.length * 4, HASH_BITS);
+});
+
+test("the same ticket, recompressed and resized, stays close", async () => {
+  const original = await sharp(receiptSvg(TICKET_LINES)).jpeg({ quality: 95 }).toBuffer();
+  const retaken = await sharp(receiptSvg(TICKET_LINES))
+    .resize(300, 600)
+    .jpeg({ quality: 60 })
+    .toBuffer();
+
+  const distance = hammingDistance(
+    await computePerceptualHash(original),
+    await computePerceptualHash(retaken)
+  );
+  // NEAR_DUPLICATE_MAX_DISTANCE defaults to 32
+  assert.ok(distance <= 32, `distance ${distance}`);
+});
+
+test("another ticket is far away", async () => {
+  const a = await computePerceptualHash(await sharp(receiptSvg(TICKET_LINES)).png().toBuffer());
+  const b = await computePerceptualHash(await sharp(receiptSvg(OTHER_LINES)).png().toBuffer());
+  assert.ok(hammingDistance(a, b) > 32, `distance ${hammingDistance(a, b)}`);
+});
+
+test("files that are not images have no hash", async () => {
+  assert.equal(await computePerceptualHash(Buffer.from("%PDF-1.4\n%…")), null);
+});
+
+test("hammingDistance", () => {
+  assert.equal(hammingDistance("00ff", "00ff"), 0);
+  assert.equal(hammingDistance("00ff", "01fe"), 2);
+  assert.equal(hammingDistance("0", "f"), 4);
+  assert.equal(hammingDistance("00", "000"), Infinity);
+  assert.equal(hammingDistance(null, "00"), Infinity);
+});
@@ -0,0 +1,47 @@
+// api/test/point-batches.test.js
+// Reward spending and expiry work on the snapshot's cached batches when it is
+// caught up with the ledger, and replay the ledger only otherwise.
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { batchLoader, spendOldestFirst, planExpiry } = require("../src/data/point-batches");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const inDays = (days) => new Date(Date.now() + days * DAY_MS).toISOString();
+
+const snapshot = {
+  points: 60,
+  ledgerSeq: 2,
+  pointBatches: [
+    { entryId: "e1", earnedAt: inDays(-400), expiresAt: inDays(-1), amount: 50, remaining: 20 },
+    { entryId: "e2", earnedAt: inDays(-10), expiresAt: inDays(355), amount: 40, remaining: 40 },
+  ],
+};
+
+const ledger = [
+  { id: "e1", seq: 1, delta: 50, createdAt: inDays(-400), expiresAt: inDays(-1) },
+  { id: "e2", seq: 2, delta: 40, createdAt: inDays(-10), expiresAt: inDays(355) },
+];
+
+test("a caught-up snapshot's batches are used without reading the ledger", async () => {
+  const loadEntries = test.mock.fn(async () => ledger);
+  const loadBatches = batchLoader(snapshot, true, loadEntries);
+
+  const spend = await spendOldestFirst(30)(snapshot, loadEntries, loadBatches);
+  const expiry = await planExpiry()(snapshot, loadEntries, loadBatches);
+
+  assert.deepEqual(spend.consumedBatches.map((b) => [b.entryId, b.points]), [["e2", 30]]);
+  assert.equal(expiry.delta, -20);
+  assert.equal(loadEntries.mock.callCount(), 0);
+  // the snapshot itself is left untouched
+  assert.equal(snapshot.pointBatches[0].remaining, 20);
+});
+
+test("otherwise the batches come from the ledger", async () => {
+  const loadEntries = test.mock.fn(async () => ledger);
+  const loadBatches = batchLoader(snapshot, false, loadEntries);
+
+  const expiry = await planExpiry()(snapshot, loadEntries, loadBatches);
+
+  assert.equal(expiry.delta, -50);
+  assert.equal(loadEntries.mock.callCount(), 1);
+});
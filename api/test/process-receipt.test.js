@@ -0,0 +1,116 @@
+// api/test/process-receipt.test.js
+// Direct uploads (create-receipt-upload -> PUT -> process-receipt) with local
+// storage: the blob the browser wrote is checked before it is read.
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const sharp = require("sharp");
+const { app } = require("@azure/functions");
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "process-receipt-"));
+Object.assign(process.env, {
+  DATA_BACKEND: "memory",
+  RECEIPT_ANALYZER: "fixture",
+  RECEIPTS_STORAGE_LOCAL_DIR: tmpDir,
+  RECEIPT_MAX_UPLOAD_MB: "1",
+  DEV_USER_ID: "direct-upload-user",
+});
+
+// Registered handlers, by function name
+const handlers = {};
+test.mock.method(app, "http", (name, options) => {
+  handlers[name] = options.handler;
+});
+require("../src/functions/process-receipt");
+
+const { buildUploadBlobName, readReceiptImage } = require("../src/data/blob-storage");
+const { getReceipt } = require("../src/data/db");
+const { onReceiptMessage } = require("../src/services/receipt-queue");
+
+// Processing itself is covered by receipt-processing.test.js
+onReceiptMessage(async () => {});
+
+test.after(() => fs.rmSync(tmpDir, { recursive: true, force: true }));
+
+function processReceiptRequest(blobName) {
+  return {
+    url: "http://localhost:7071/api/process-receipt",
+    headers: new Headers(),
+    query: new URLSearchParams(),
+    json: async () => ({ blobName }),
+  };
+}
+
+const context = { log: () => {}, extraOutputs: { set: () => {} } };
+
+function putUpload(blobName, buffer) {
+  fs.mkdirSync(path.dirname(path.join(tmpDir, blobName)), { recursive: true });
+  fs.writeFileSync(path.join(tmpDir, blobName), buffer);
+}
+
+test("an oversized direct upload is refused without being read", async () => {
+  const blobName = buildUploadBlobName("direct-upload-user", "huge.jpg");
+  putUpload(blobName, Buffer.alloc(2 * 1024 * 1024, 0xff));
+
+  const readFile = test.mock.method(fs.promises, "readFile");
+  try {
+    const response = await handlers["process-receipt"](processReceiptRequest(blobName), context);
+
+    assert.equal(response.status, 413);
+    assert.equal(response.jsonBody.error, "FILE_TOO_LARGE");
+    assert.equal(
+      readFile.mock.calls.filter((call) => String(call.arguments[0]).endsWith(blobName)).length,
+      0
+    );
+    assert.equal(fs.existsSync(path.join(tmpDir, blobName)), false);
+  } finally {
+    readFile.mock.restore();
+  }
+});
+
+test("another user's blob is refused", async () => {
+  const blobName = buildUploadBlobName("someone-else", "ticket.jpg");
+  const response = await handlers["process-receipt"](processReceiptRequest(blobName), context);
+  assert.equal(response.status, 403);
+});
+
+test("the receipt keeps its own copy: the upload URL can't change it afterwards", async () => {
+  const photo = await sharp({
+    create: { width: 40, height: 60, channels: 3, background: { r: 250, g: 250, b: 245 } },
+  })
+    .jpeg()
+    .toBuffer();
+  const blobName = buildUploadBlobName("direct-upload-user", "ticket.jpg");
+  putUpload(blobName, photo);
+
+  const response = await handlers["process-receipt"](processReceiptRequest(blobName), context);
+  assert.equal(response.status, 202);
+
+  const receipt = await getReceipt("direct-upload-user", response.jsonBody.receiptId);
+  assert.notEqual(receipt.blobName, blobName);
+  assert.match(receipt.blobName, /^direct-upload-user\/\d+-[0-9a-f-]{36}-ticket\.jpg$/);
+  assert.equal(fs.existsSync(path.join(tmpDir, blobName)), false);
+
+  // the browser writes the upload blob again
+  putUpload(blobName, Buffer.from("something else"));
+  assert.deepEqual((await readReceiptImage(receipt.blobName)).buffer, photo);
+});
+
+test("a stored receipt image can't be sent back to be processed and deleted", async () => {
+  const photo = await sharp({
+    create: { width: 40, height: 60, channels: 3, background: { r: 245, g: 250, b: 250 } },
+  })
+    .jpeg()
+    .toBuffer();
+  const upload = buildUploadBlobName("direct-upload-user", "ticket.jpg");
+  putUpload(upload, photo);
+  const accepted = await handlers["process-receipt"](processReceiptRequest(upload), context);
+  const receipt = await getReceipt("direct-upload-user", accepted.jsonBody.receiptId);
+
+  const response = await handlers["process-receipt"](processReceiptRequest(receipt.blobName), context);
+
+  assert.equal(response.status, 403);
+  assert.deepEqual((await readReceiptImage(receipt.blobName)).buffer, photo);
+});
@@ -0,0 +1,91 @@
+// api/test/product-bonuses.test.js
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const {
+  DEFAULT_MAX_POINTS,
+  DEFAULT_MAX_QUANTITY_PER_LINE,
+  computeProductBonuses,
+} = require("../src/services/product-bonuses");
+
+const warnings = [];
+const log = (message) => warnings.push(message);
+
+function withBonuses(bonuses, fn) {
+  process.env.PRODUCT_BONUSES_JSON = JSON.stringify({ bonuses });
+  try {
+    return fn();
+  } finally {
+    delete process.env.PRODUCT_BONUSES_JSON;
+  }
+}
+
+const DESSERTS_X2 = { id: "desserts-x2", categories: ["dessert"], multiplier: 2, maxPoints: 1000 };
+const WHOPPER_20 = { id: "whopper-20", products: ["whopper-menu"], points: 20, maxPoints: 1000 };
+
+test("a multiplier counts no more than the receipt amount", () => {
+  const items = [{ category: "dessert", quantity: 1, totalPrice: 900 }];
+
+  const result = withBonuses([DESSERTS_X2], () =>
+    computeProductBonuses(items, { amount: 45, maxAmountForPoints: 1000, log })
+  );
+
+  assert.equal(result.bonusPoints, 4);
+});
+
+test("a multiplier counts no more than maxAmountForPoints", () => {
+  const items = [{ category: "dessert", quantity: 1, totalPrice: 5000 }];
+
+  const result = withBonuses([DESSERTS_X2], () =>
+    computeProductBonuses(items, { amount: 5000, maxAmountForPoints: 1000, log })
+  );
+
+  assert.equal(result.bonusPoints, 100);
+});
+
+test("the quantity counted per line is capped", () => {
+  const items = [{ productId: "whopper-menu", quantity: 500, totalPrice: 60 }];
+
+  const result = withBonuses([WHOPPER_20], () =>
+    computeProductBonuses(items, { amount: 60, log })
+  );
+
+  assert.equal(result.bonuses[0].quantity, DEFAULT_MAX_QUANTITY_PER_LINE);
+  assert.equal(result.bonusPoints, 20 * DEFAULT_MAX_QUANTITY_PER_LINE);
+});
+
+test("without maxPoints, a bonus is capped by default", () => {
+  const uncapped = { id: "whopper-20", products: ["whopper-menu"], points: 20 };
+  const items = [
+    { productId: "whopper-menu", quantity: 10, totalPrice: 600 },
+    { productId: "whopper-menu", quantity: 10, totalPrice: 600 },
+  ];
+
+  const result = withBonuses([uncapped], () =>
+    computeProductBonuses(items, { amount: 1200, log })
+  );
+
+  assert.equal(result.bonusPoints, DEFAULT_MAX_POINTS);
+});
+
+test("an invalid maxPoints skips the bonus", () => {
+  const result = withBonuses([{ ...WHOPPER_20, maxPoints: "lots" }], () =>
+    computeProductBonuses([{ productId: "whopper-menu", quantity: 1 }], { amount: 60, log })
+  );
+
+  assert.equal(result.bonusPoints, 0);
+  assert.ok(warnings.some((w) => w.includes("maxPoints")));
+});
+
+test("a plain-date window opens and closes at midnight in Morocco", () => {
+  const weekend = { ...WHOPPER_20, startsAt: "2026-10-19", endsAt: "2026-10-26" };
+  const items = [{ productId: "whopper-menu", quantity: 1, totalPrice: 60 }];
+  const pointsAt = (iso) =>
+    withBonuses([weekend], () => computeProductBonuses(items, { at: new Date(iso), amount: 60, log }))
+      .bonusPoints;
+
+  // Casablanca is UTC+1: 00:30 local on the 19th is still the 18th in UTC
+  assert.equal(pointsAt("2026-10-18T23:30:00Z"), 20);
+  assert.equal(pointsAt("2026-10-18T22:30:00Z"), 0);
+  assert.equal(pointsAt("2026-10-25T22:30:00Z"), 20);
+  assert.equal(pointsAt("2026-10-25T23:30:00Z"), 0);
+});
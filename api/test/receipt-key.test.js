@@ -0,0 +1,47 @@
+// api/test/receipt-key.test.js
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { buildReceiptKey } = require("../src/services/receipt-key");
+const { businessDateTime } = require("../src/config/business-time");
+
+const TICKET = {
+  storeId: "2104",
+  ticketNumber: "004512",
+  transactionDate: businessDateTime("2026-06-01", "12:31"),
+  transactionTime: "12:31",
+  amount: 85.5,
+};
+
+test("key of a printed ticket", () => {
+  assert.equal(buildReceiptKey(TICKET), "bk|2104|2026-06-01|12:31|4512|8550");
+});
+
+test("the same ticket read differently gets the same key", () => {
+  assert.equal(
+    buildReceiptKey({ ...TICKET, storeId: " 2104 ", ticketNumber: "4512", amount: 85.499999 }),
+    buildReceiptKey(TICKET)
+  );
+});
+
+test("the day is the Moroccan day of the ticket", () => {
+  // 00:30 in Casablanca is still the previous day in UTC
+  const key = buildReceiptKey({
+    ...TICKET,
+    transactionDate: businessDateTime("2026-06-02", "00:30"),
+    transactionTime: "00:30",
+  });
+  assert.equal(key, "bk|2104|2026-06-02|00:30|4512|8550");
+});
+
+test("missing time or total are left empty", () => {
+  assert.equal(
+    buildReceiptKey({ ...TICKET, transactionTime: null, amount: null }),
+    "bk|2104|2026-06-01||4512|"
+  );
+});
+
+test("no key without a restaurant, ticket number or date", () => {
+  assert.equal(buildReceiptKey({ ...TICKET, storeId: null }), null);
+  assert.equal(buildReceiptKey({ ...TICKET, ticketNumber: "" }), null);
+  assert.equal(buildReceiptKey({ ...TICKET, transactionDate: null }), null);
+});
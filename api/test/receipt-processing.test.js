@@ -0,0 +1,302 @@
+// api/test/receipt-processing.test.js
+// Whole receipt flow without Azure: in-memory data, images in a temporary
+// directory, analysis from fixtures matched on the file name.
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const crypto = require("crypto");
+const sharp = require("sharp");
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "receipt-processing-"));
+fs.writeFileSync(
+  path.join(tmpDir, "fixtures.json"),
+  JSON.stringify({
+    fixtures: [
+      {
+        match: { fileName: "*bk-ok*" },
+        result: { amount: 85.5, merchantName: "Burger King", transactionDate: "today", hasBurgerKing: true },
+      },
+      {
+        match: { fileName: "*other-shop*" },
+        result: { amount: 40, merchantName: "Café du Centre", transactionDate: "today", hasBurgerKing: false },
+      },
+      {
+        match: { fileName: "*no-amount*" },
+        result: { amount: null, merchantName: "Burger King", transactionDate: "today", hasBurgerKing: true },
+      },
+    ],
+  })
+);
+Object.assign(process.env, {
+  DATA_BACKEND: "memory",
+  RECEIPT_ANALYZER: "fixture",
+  RECEIPT_FIXTURES_FILE: path.join(tmpDir, "fixtures.json"),
+  RECEIPTS_STORAGE_LOCAL_DIR: path.join(tmpDir, "blobs"),
+});
+delete process.env.RECEIPT_RULES_JSON;
+delete process.env.RECEIPT_RULES_FILE;
+delete process.env.NEAR_DUPLICATE_ACTION;
+
+const { getUser, getReceipt, updateReceipt } = require("../src/data/db");
+const { getRepository } = require("../src/data/repository");
+const { readReceiptImage } = require("../src/data/blob-storage");
+const {
+  submitReceipt,
+  processQueuedReceipt,
+  approveReviewedReceipt,
+  rejectReviewedReceipt,
+  restartStaleReceipt,
+  sweepStalePendingReceipts,
+} = require("../src/services/receipt-processing");
+
+test.after(() => fs.rmSync(tmpDir, { recursive: true, force: true }));
+
+// A photo no other test sends (noise: far from every other perceptual hash)
+function uniquePhoto() {
+  return sharp(crypto.randomBytes(64 * 64 * 3), { raw: { width: 64, height: 64, channels: 3 } })
+    .jpeg()
+    .toBuffer();
+}
+
+function newUserId() {
+  return `user-${crypto.randomUUID()}`;
+}
+
+async function submitAndProcess(userId, fileName, buffer) {
+  const submitted = await submitReceipt({ userId, buffer: buffer || (await uniquePhoto()), fileName });
+  assert.equal(submitted.queued, true);
+  assert.equal(submitted.receipt.status, "PENDING");
+  return processQueuedReceipt({ userId, receiptId: submitted.receipt.id });
+}
+
+test("PENDING -> ACCEPTED: points credited once", async () => {
+  const userId = newUserId();
+  const accepted = await submitAndProcess(userId, "bk-ok.jpg");
+
+  assert.equal(accepted.status, "ACCEPTED");
+  assert.equal(accepted.amount, 85.5);
+  assert.ok(accepted.pointsEarned >= 8);
+  assert.ok(await readReceiptImage(accepted.blobName));
+  assert.equal((await getUser(userId)).points, accepted.pointsEarned);
+
+  // message delivered again
+  const again = await processQueuedReceipt({ userId, receiptId: accepted.id });
+  assert.equal(again.status, "ACCEPTED");
+  assert.equal((await getUser(userId)).points, accepted.pointsEarned);
+});
+
+test("PENDING -> REJECTED: image dropped, the same file can be sent again", async () => {
+  const userId = newUserId();
+  const buffer = await uniquePhoto();
+  const submitted = await submitReceipt({ userId, buffer, fileName: "other-shop.jpg" });
+  const blobName = submitted.receipt.blobName;
+  const rejected = await processQueuedReceipt({ userId, receiptId: submitted.receipt.id });
+
+  assert.equal(rejected.status, "REJECTED");
+  assert.deepEqual(rejected.rejection.reasons.map((r) => r.code), ["MERCHANT_NOT_BURGER_KING"]);
+  assert.equal(rejected.blobName, null);
+  assert.equal(await readReceiptImage(blobName), null);
+  assert.equal((await getUser(userId)).points, 0);
+
+  const resent = await submitReceipt({ userId, buffer, fileName: "other-shop.jpg" });
+  assert.equal(resent.queued, true);
+});
+
+test("the same image twice is a duplicate", async () => {
+  const buffer = await uniquePhoto();
+  await submitAndProcess(newUserId(), "bk-ok.jpg", buffer);
+
+  const duplicate = await submitReceipt({ userId: newUserId(), buffer, fileName: "bk-ok.jpg" });
+  assert.equal(duplicate.queued, false);
+  assert.equal(duplicate.error, "DUPLICATE_RECEIPT");
+});
+
+test("another photo of a ticket someone else sent is parked for review", async () => {
+  const pixels = crypto.randomBytes(64 * 64 * 3);
+  const photo = (quality) =>
+    sharp(pixels, { raw: { width: 64, height: 64, channels: 3 } }).jpeg({ quality }).toBuffer();
+
+  const original = await submitAndProcess(newUserId(), "bk-ok.jpg", await photo(90));
+  assert.equal(original.status, "ACCEPTED");
+
+  const userId = newUserId();
+  const reshot = await submitAndProcess(userId, "bk-ok.jpg", await photo(70));
+
+  assert.equal(reshot.status, "PENDING_REVIEW");
+  assert.equal(reshot.nearDuplicate.receiptId, original.id);
+  assert.equal(reshot.nearDuplicate.sameUser, false);
+  assert.ok(reshot.review.reasons.some((r) => r.code === "NEAR_DUPLICATE_RECEIPT"));
+  assert.equal((await getUser(userId)).points, 0);
+});
+
+test("PENDING -> PENDING_REVIEW -> ACCEPTED with the reviewer's amount", async () => {
+  const userId = newUserId();
+  const parked = await submitAndProcess(userId, "no-amount.jpg");
+
+  assert.equal(parked.status, "PENDING_REVIEW");
+  assert.deepEqual(parked.review.reasons.map((r) => r.code), ["INVALID_AMOUNT"]);
+  assert.equal((await getUser(userId)).points, 0);
+
+  await assert.rejects(
+    approveReviewedReceipt({ userId, receiptId: parked.id, reviewerId: "staff-1" }),
+    { code: "AMOUNT_REQUIRED" }
+  );
+
+  const approved = await approveReviewedReceipt({
+    userId,
+    receiptId: parked.id,
+    amount: 50,
+    reviewerId: "staff-1",
+  });
+  assert.equal(approved.status, "ACCEPTED");
+  assert.equal(approved.pointsEarned, 5);
+  assert.equal(approved.review.decision, "APPROVED");
+  assert.equal((await getUser(userId)).points, 5);
+
+  await assert.rejects(
+    rejectReviewedReceipt({ userId, receiptId: parked.id, reason: "Illisible", reviewerId: "staff-2" }),
+    { code: "RECEIPT_NOT_IN_REVIEW" }
+  );
+});
+
+test("PENDING -> PENDING_REVIEW -> REJECTED with the reviewer's reason", async () => {
+  const userId = newUserId();
+  const parked = await submitAndProcess(userId, "no-amount.jpg");
+
+  await assert.rejects(
+    rejectReviewedReceipt({ userId, receiptId: parked.id, reason: " ", reviewerId: "staff-1" }),
+    { code: "REASON_REQUIRED" }
+  );
+
+  const rejected = await rejectReviewedReceipt({
+    userId,
+    receiptId: parked.id,
+    reason: "Ticket illisible",
+    reviewerId: "staff-1",
+  });
+  assert.equal(rejected.status, "REJECTED");
+  assert.deepEqual(rejected.rejection.reasons, [
+    { code: "REJECTED_AFTER_REVIEW", message: "Ticket illisible" },
+  ]);
+  assert.equal(rejected.review.decision, "REJECTED");
+  assert.equal(rejected.blobName, null);
+  assert.equal((await getReceipt(userId, parked.id)).status, "REJECTED");
+  assert.equal((await getUser(userId)).points, 0);
+});
+
+test("daily limit: a fourth receipt the same day is refused", async () => {
+  const userId = newUserId();
+  for (let i = 0; i < 3; i += 1) {
+    assert.equal((await submitAndProcess(userId, "bk-ok.jpg")).status, "ACCEPTED");
+  }
+
+  const refused = await submitReceipt({ userId, buffer: await uniquePhoto(), fileName: "bk-ok.jpg" });
+  assert.equal(refused.queued, false);
+  assert.equal(refused.error, "DAILY_LIMIT_REACHED");
+});
+
+test("concurrent review decisions: only one is written", async () => {
+  const userId = newUserId();
+  const parked = await submitAndProcess(userId, "no-amount.jpg");
+
+  const results = await Promise.allSettled([
+    rejectReviewedReceipt({ userId, receiptId: parked.id, reason: "Illisible", reviewerId: "staff-1" }),
+    approveReviewedReceipt({ userId, receiptId: parked.id, amount: 50, reviewerId: "staff-2" }),
+  ]);
+
+  const fulfilled = results.filter((r) => r.status === "fulfilled");
+  const rejected = results.filter((r) => r.status === "rejected");
+  assert.equal(fulfilled.length, 1);
+  assert.equal(rejected[0].reason.code, "RECEIPT_NOT_IN_REVIEW");
+
+  const final = await getReceipt(userId, parked.id);
+  assert.equal(final.status, fulfilled[0].value.status);
+  assert.equal((await getUser(userId)).points, final.status === "ACCEPTED" ? 5 : 0);
+});
+
+test("receipts still PENDING count toward the daily limit, the first ones sent win", async () => {
+  const userId = newUserId();
+  const queued = [];
+  for (let i = 0; i < 3; i += 1) {
+    const submitted = await submitReceipt({ userId, buffer: await uniquePhoto(), fileName: "bk-ok.jpg" });
+    assert.equal(submitted.queued, true);
+    queued.push(submitted.receipt);
+  }
+
+  const refused = await submitReceipt({ userId, buffer: await uniquePhoto(), fileName: "bk-ok.jpg" });
+  assert.equal(refused.error, "DAILY_LIMIT_REACHED");
+
+  // processed in any order
+  for (const receipt of queued.reverse()) {
+    const processed = await processQueuedReceipt({ userId, receiptId: receipt.id });
+    assert.equal(processed.status, "ACCEPTED");
+  }
+});
+
+test("a PENDING receipt whose message was lost is enqueued again, then FAILED", async () => {
+  const userId = newUserId();
+  const buffer = await uniquePhoto();
+  const { receipt } = await submitReceipt({ userId, buffer, fileName: "bk-ok.jpg" });
+
+  const fresh = await restartStaleReceipt(receipt);
+  assert.equal(fresh.requeue, false);
+
+  let now = Date.now();
+  let current = receipt;
+  for (let attempt = 1; attempt <= 3; attempt += 1) {
+    now += 11 * 60 * 1000;
+    const restarted = await restartStaleReceipt(current, { now: new Date(now) });
+    assert.equal(restarted.requeue, true);
+    assert.equal(restarted.receipt.requeueCount, attempt);
+    current = restarted.receipt;
+  }
+
+  now += 11 * 60 * 1000;
+  const swept = await sweepStalePendingReceipts({ now: new Date(now) });
+  assert.ok(swept.failed >= 1);
+  const failed = await getReceipt(userId, receipt.id);
+  assert.equal(failed.status, "FAILED");
+  assert.equal(failed.failure.error, "PROCESSING_FAILED");
+
+  // its image is released: the customer can send the photo again
+  const resent = await submitReceipt({ userId, buffer, fileName: "bk-ok.jpg" });
+  assert.equal(resent.queued, true);
+  await processQueuedReceipt({ userId, receiptId: resent.receipt.id });
+});
+
+test("a worker that finishes after the receipt was marked FAILED changes nothing", async () => {
+  const userId = newUserId();
+  const { receipt } = await submitReceipt({ userId, buffer: await uniquePhoto(), fileName: "bk-ok.jpg" });
+
+  // restartStaleReceipt gives up on it while the worker is still busy
+  const repository = getRepository();
+  const countToday = repository.countReceiptsForUserOnDay;
+  const busy = test.mock.method(repository, "countReceiptsForUserOnDay", async (...args) => {
+    await updateReceipt(userId, receipt.id, { status: "FAILED" }, { expectedStatus: "PENDING" });
+    return countToday.apply(repository, args);
+  });
+  try {
+    const processed = await processQueuedReceipt({ userId, receiptId: receipt.id });
+    assert.equal(processed.status, "FAILED");
+  } finally {
+    busy.mock.restore();
+  }
+
+  assert.equal((await getReceipt(userId, receipt.id)).status, "FAILED");
+  assert.equal((await getUser(userId)).points, 0);
+});
+
+test("the sweep enqueues stale receipts again and leaves processed ones alone", async () => {
+  const userId = newUserId();
+  const { receipt } = await submitReceipt({ userId, buffer: await uniquePhoto(), fileName: "bk-ok.jpg" });
+  const accepted = await submitAndProcess(userId, "bk-ok.jpg");
+
+  const swept = await sweepStalePendingReceipts({ now: new Date(Date.now() + 11 * 60 * 1000) });
+  assert.ok(swept.requeued.some((r) => r.id === receipt.id));
+  assert.ok(!swept.requeued.some((r) => r.id === accepted.id));
+
+  const processed = await processQueuedReceipt({ userId, receiptId: receipt.id });
+  assert.equal(processed.status, "ACCEPTED");
+});
@@ -0,0 +1,149 @@
+// api/test/receipt-rules.test.js
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { SEVERITIES, loadRuleSet, evaluateRules } = require("../src/services/receipt-rules");
+
+const CLEAN_FACTS = {
+  hasBurgerKing: true,
+  store: null,
+  transactionDate: new Date(),
+  receiptAgeDays: 0,
+  amount: 85.5,
+  confidences: { amount: 0.98, transactionDate: 0.95, merchantName: 0.9 },
+  receiptsToday: 0,
+};
+
+function withOverrides(json, fn) {
+  const previous = process.env.RECEIPT_RULES_JSON;
+  process.env.RECEIPT_RULES_JSON = json;
+  try {
+    return fn();
+  } finally {
+    if (previous === undefined) delete process.env.RECEIPT_RULES_JSON;
+    else process.env.RECEIPT_RULES_JSON = previous;
+  }
+}
+
+function codes(result) {
+  return result.reasons.map((r) => `${r.code}:${r.severity}`);
+}
+
+test("default rule severities", () => {
+  const severities = Object.fromEntries(loadRuleSet().rules.map((r) => [r.id, r.severity]));
+  assert.deepEqual(severities, {
+    "merchant-is-burger-king": SEVERITIES.BLOCKING,
+    "merchant-detected": SEVERITIES.REVIEW,
+    "store-participating": SEVERITIES.BLOCKING,
+    "date-detected": SEVERITIES.BLOCKING,
+    "max-receipt-age": SEVERITIES.BLOCKING,
+    "not-in-future": SEVERITIES.BLOCKING,
+    "valid-amount": SEVERITIES.REVIEW,
+    "amount-confidence-retake": SEVERITIES.BLOCKING,
+    "amount-confidence-review": SEVERITIES.REVIEW,
+    "date-confidence-retake": SEVERITIES.BLOCKING,
+    "date-confidence-review": SEVERITIES.REVIEW,
+    "merchant-confidence-review": SEVERITIES.REVIEW,
+    "daily-limit": SEVERITIES.BLOCKING,
+  });
+});
+
+test("a clean receipt passes every rule", () => {
+  const result = evaluateRules(loadRuleSet(), CLEAN_FACTS);
+  assert.deepEqual(result, { reasons: [], blocking: false, review: false });
+});
+
+test("blocking rules", () => {
+  const ruleSet = loadRuleSet();
+  const cases = [
+    [{ hasBurgerKing: false }, "MERCHANT_NOT_BURGER_KING:blocking"],
+    [{ store: { id: "tanger-city-mall", participating: false } }, "STORE_NOT_PARTICIPATING:blocking"],
+    [{ transactionDate: null, receiptAgeDays: null }, "DATE_NOT_DETECTED:blocking"],
+    [{ receiptAgeDays: 3 }, "RECEIPT_TOO_OLD:blocking"],
+    [{ receiptAgeDays: -3 }, "RECEIPT_IN_FUTURE:blocking"],
+    [{ receiptsToday: 3 }, "DAILY_LIMIT_REACHED:blocking"],
+  ];
+  for (const [facts, expected] of cases) {
+    const result = evaluateRules(ruleSet, { ...CLEAN_FACTS, ...facts });
+    assert.deepEqual(codes(result), [expected], JSON.stringify(facts));
+    assert.equal(result.blocking, true);
+    assert.equal(result.review, false);
+  }
+});
+
+test("review rules", () => {
+  const ruleSet = loadRuleSet();
+  const cases = [
+    [{ hasBurgerKing: null }, "MERCHANT_NOT_DETECTED:review"],
+    [{ amount: null }, "INVALID_AMOUNT:review"],
+    [{ confidences: { ...CLEAN_FACTS.confidences, amount: 0.6 } }, "LOW_CONFIDENCE_AMOUNT:review"],
+    [{ confidences: { ...CLEAN_FACTS.confidences, merchantName: 0.3 } }, "LOW_CONFIDENCE_MERCHANT:review"],
+  ];
+  for (const [facts, expected] of cases) {
+    const result = evaluateRules(ruleSet, { ...CLEAN_FACTS, ...facts });
+    assert.deepEqual(codes(result), [expected], JSON.stringify(facts));
+    assert.equal(result.blocking, false);
+    assert.equal(result.review, true);
+  }
+});
+
+test("a blurry total asks for a new photo rather than a review", () => {
+  const result = evaluateRules(loadRuleSet(), {
+    ...CLEAN_FACTS,
+    confidences: { ...CLEAN_FACTS.confidences, amount: 0.4 },
+  });
+  assert.deepEqual(codes(result), ["PHOTO_TOO_BLURRY:blocking", "LOW_CONFIDENCE_AMOUNT:review"]);
+  assert.equal(result.blocking, true);
+});
+
+test("rules whose facts are not known yet are skipped", () => {
+  const afterAnalysis = { ...CLEAN_FACTS, hasBurgerKing: false };
+  delete afterAnalysis.receiptsToday;
+  const result = evaluateRules(loadRuleSet(), afterAnalysis);
+  assert.deepEqual(codes(result), ["MERCHANT_NOT_BURGER_KING:blocking"]);
+
+  const dailyOnly = evaluateRules(loadRuleSet(), { receiptsToday: 3 });
+  assert.deepEqual(codes(dailyOnly), ["DAILY_LIMIT_REACHED:blocking"]);
+});
+
+test("messages get their params", () => {
+  const result = evaluateRules(loadRuleSet(), { ...CLEAN_FACTS, receiptAgeDays: 5 });
+  assert.equal(result.reasons[0].message, "The receipt is older than 2 days.");
+  assert.deepEqual(result.reasons[0].params, { maxDays: 2 });
+});
+
+test("overrides change params, severities and turn rules off", () => {
+  const ruleSet = withOverrides(
+    JSON.stringify({
+      points: { madPerPoint: 5 },
+      rules: [
+        { id: "daily-limit", params: { maxPerDay: 5 } },
+        { id: "valid-amount", severity: "blocking" },
+        { id: "merchant-detected", enabled: false },
+      ],
+    }),
+    () => loadRuleSet(() => {})
+  );
+
+  assert.equal(ruleSet.points.madPerPoint, 5);
+  assert.equal(ruleSet.points.maxAmountForPoints, 1000);
+  assert.equal(evaluateRules(ruleSet, { receiptsToday: 4 }).blocking, false);
+  assert.equal(evaluateRules(ruleSet, { receiptsToday: 5 }).blocking, true);
+  assert.deepEqual(codes(evaluateRules(ruleSet, { ...CLEAN_FACTS, amount: null })), [
+    "INVALID_AMOUNT:blocking",
+  ]);
+  assert.deepEqual(codes(evaluateRules(ruleSet, { ...CLEAN_FACTS, hasBurgerKing: null })), []);
+});
+
+test("invalid overrides are ignored", () => {
+  for (const json of [
+    "{not json",
+    JSON.stringify({ rules: [{ id: "daily-limit", severity: "fatal" }] }),
+    JSON.stringify({ rules: [{ id: "new-rule", type: "unknownType", severity: "blocking", code: "X" }] }),
+    JSON.stringify({ points: { madPerPoint: 0 } }),
+  ]) {
+    const logged = [];
+    const ruleSet = withOverrides(json, () => loadRuleSet((message) => logged.push(message)));
+    assert.deepEqual(ruleSet, loadRuleSet(), json);
+    assert.equal(logged.length, 1, json);
+  }
+});
@@ -0,0 +1,44 @@
+// api/test/redeem-reward.test.js
+// The balance returned after a reward matches get-user-balance.
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { app } = require("@azure/functions");
+
+Object.assign(process.env, {
+  DATA_BACKEND: "memory",
+  DEV_USER_ID: "reward-user",
+});
+
+const handlers = {};
+test.mock.method(app, "http", (name, options) => {
+  handlers[name] = options.handler;
+});
+require("../src/functions/redeem-reward");
+require("../src/functions/get-user-balance");
+
+const { addPoints } = require("../src/data/db");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const context = { log: () => {} };
+
+function request(body) {
+  return {
+    url: "http://localhost:7071/api/redeem-reward",
+    headers: new Headers(),
+    query: new URLSearchParams(),
+    json: async () => body,
+  };
+}
+
+test("newBalance leaves out expired points not written off yet", async () => {
+  const yesterday = new Date(Date.now() - DAY_MS).toISOString();
+  await addPoints("reward-user", 50, { kind: "EARN", expiresAt: yesterday });
+  await addPoints("reward-user", 60, { kind: "EARN" });
+
+  const response = await handlers["redeem-reward"](request({ tier: "CROWN_40" }), context);
+  const balance = await handlers["get-user-balance"](request(null), context);
+
+  assert.equal(response.jsonBody.pointsCost, 40);
+  assert.equal(response.jsonBody.newBalance, 20);
+  assert.equal(balance.jsonBody.points, 20);
+});
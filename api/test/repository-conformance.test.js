@@ -0,0 +1,19 @@
+// api/test/repository-conformance.test.js
+// The repository conformance suite (data/repository-conformance.js) against
+// the in-memory store, one test per case. `npm run check:repositories` runs
+// it against Cosmos as well.
+const test = require("node:test");
+
+// Never write conformance users into the local persisted fake store
+delete process.env.FAKE_DB_FILE;
+
+const { getRepository } = require("../src/data/repository");
+const { conformanceCases } = require("../src/data/repository-conformance");
+
+const repository = getRepository("memory");
+// Let the fake interleave concurrent writes like a real database would
+repository.setSimulatedLatency(5);
+
+for (const testCase of conformanceCases) {
+  test(testCase.name, () => testCase.run(repository));
+}
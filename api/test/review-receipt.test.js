@@ -0,0 +1,61 @@
+// api/test/review-receipt.test.js
+// Reviewer endpoints: a reviewer can't decide on their own receipt.
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { app } = require("@azure/functions");
+
+Object.assign(process.env, { DATA_BACKEND: "memory" });
+
+const handlers = {};
+test.mock.method(app, "http", (name, options) => {
+  handlers[name] = options.handler;
+});
+require("../src/functions/approve-receipt");
+require("../src/functions/reject-receipt");
+
+const { createReceipt, getReceipt, getUser } = require("../src/data/db");
+
+const context = { log: () => {} };
+
+function reviewerRequest(reviewerId, body) {
+  const principal = { userId: reviewerId, userRoles: ["reviewer"] };
+  return {
+    url: "https://app.example.com/api/review",
+    headers: new Headers({
+      "x-ms-client-principal": Buffer.from(JSON.stringify(principal)).toString("base64"),
+    }),
+    query: new URLSearchParams(),
+    json: async () => body,
+  };
+}
+
+function parkedReceipt(userId) {
+  return createReceipt(userId, null, 50, 0, {
+    status: "PENDING_REVIEW",
+    review: { reasons: [], decision: null, reviewedBy: null, reviewedAt: null, note: null },
+  });
+}
+
+test("a reviewer can't approve or reject their own receipt", async () => {
+  const receipt = await parkedReceipt("reviewer-1");
+  const body = { userId: "reviewer-1", receiptId: receipt.id, reason: "Illisible" };
+
+  const approve = await handlers["approve-receipt"](reviewerRequest("reviewer-1", body), context);
+  const reject = await handlers["reject-receipt"](reviewerRequest("reviewer-1", body), context);
+
+  assert.equal(approve.status, 403);
+  assert.equal(approve.jsonBody.error, "SELF_REVIEW_FORBIDDEN");
+  assert.equal(reject.status, 403);
+  assert.equal((await getReceipt("reviewer-1", receipt.id)).status, "PENDING_REVIEW");
+  assert.equal((await getUser("reviewer-1")).points, 0);
+});
+
+test("another reviewer can decide", async () => {
+  const receipt = await parkedReceipt("customer-1");
+  const body = { userId: "customer-1", receiptId: receipt.id };
+
+  const approve = await handlers["approve-receipt"](reviewerRequest("reviewer-1", body), context);
+
+  assert.equal(approve.status, undefined);
+  assert.equal(approve.jsonBody.status, "ACCEPTED");
+});
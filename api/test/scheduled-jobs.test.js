@@ -0,0 +1,75 @@
+// api/test/scheduled-jobs.test.js
+// Timers only exist in the API's own Function App: the Static Web Apps managed
+// API runs HTTP functions only, and gets operations endpoints instead.
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const { app } = require("@azure/functions");
+
+Object.assign(process.env, { DATA_BACKEND: "memory" });
+delete process.env.RECEIPTS_QUEUE_CONNECTION;
+delete process.env.RECEIPT_QUEUE;
+
+const JOBS = ["../src/functions/expire-points", "../src/functions/sweep-pending-receipts"];
+
+// Loads the job functions; -> { http: { name: handler }, timers: [names] }
+function loadJobs() {
+  const registered = { http: {}, timers: [] };
+  const http = test.mock.method(app, "http", (name, options) => {
+    registered.http[name] = options.handler;
+  });
+  const timer = test.mock.method(app, "timer", (name) => {
+    registered.timers.push(name);
+  });
+  try {
+    for (const job of JOBS) {
+      delete require.cache[require.resolve(job)];
+      require(job);
+    }
+  } finally {
+    http.mock.restore();
+    timer.mock.restore();
+  }
+  return registered;
+}
+
+function request(roles) {
+  const principal = { userId: "staff-1", userDetails: "staff@example.com", userRoles: roles };
+  return {
+    url: "https://app.example.com/api/job",
+    headers: new Headers({
+      "x-ms-client-principal": Buffer.from(JSON.stringify(principal)).toString("base64"),
+    }),
+    query: new URLSearchParams(),
+  };
+}
+
+const context = { log: () => {}, extraOutputs: { get: () => undefined, set: () => {} } };
+
+test("without a storage queue (Static Web Apps API), no timer is registered", () => {
+  const { http, timers } = loadJobs();
+  assert.deepEqual(timers, []);
+  assert.deepEqual(Object.keys(http).sort(), ["expire-points", "sweep-pending-receipts"]);
+});
+
+test("in the Function App, the timers run next to the queue trigger", () => {
+  process.env.RECEIPT_QUEUE = "storage";
+  try {
+    assert.deepEqual(loadJobs().timers.sort(), ["expire-points-timer", "sweep-pending-receipts-timer"]);
+  } finally {
+    delete process.env.RECEIPT_QUEUE;
+  }
+});
+
+test("the endpoints are for the operations role", async () => {
+  const { http } = loadJobs();
+
+  for (const name of ["expire-points", "sweep-pending-receipts"]) {
+    assert.equal((await http[name](request(["authenticated"]), context)).status, 403);
+  }
+
+  const expiry = await http["expire-points"](request(["authenticated", "operations"]), context);
+  assert.deepEqual(expiry.jsonBody, { users: 0, expiredUsers: 0, expiredPoints: 0, errors: 0 });
+
+  const sweep = await http["sweep-pending-receipts"](request(["operations"]), context);
+  assert.deepEqual(sweep.jsonBody, { checked: 0, requeued: 0, failed: 0 });
+});
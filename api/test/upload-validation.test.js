@@ -0,0 +1,122 @@
+// api/test/upload-validation.test.js
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const sharp = require("sharp");
+const {
+  getMaxUploadBytes,
+  detectFileType,
+  isAcceptedContentType,
+  prepareReceiptUpload,
+} = require("../src/services/upload-validation");
+
+function photo({ width = 60, height = 40, format = "jpeg" } = {}) {
+  return sharp({
+    create: { width, height, channels: 3, background: { r: 240, g: 240, b: 230 } },
+  })[format]().toBuffer();
+}
+
+// ISO-BMFF header of a HEIC file, without a decodable image
+function heicHeader() {
+  const ftyp = Buffer.alloc(24);
+  ftyp.writeUInt32BE(24, 0);
+  ftyp.write("ftypheic", 4, "latin1");
+  ftyp.write("mif1heic", 16, "latin1");
+  return Buffer.concat([ftyp, Buffer.alloc(64)]);
+}
+
+async function rejection(promise) {
+  try {
+    await promise;
+  } catch (err) {
+    return err.code;
+  }
+  return null;
+}
+
+test("file type comes from the content", async () => {
+  assert.equal(detectFileType(await photo()), "jpeg");
+  assert.equal(detectFileType(await photo({ format: "png" })), "png");
+  assert.equal(detectFileType(Buffer.from("%PDF-1.7\n1 0 obj\n")), "pdf");
+  assert.equal(detectFileType(heicHeader()), "heic");
+  assert.equal(detectFileType(Buffer.from("GIF89a......")), null);
+  assert.equal(detectFileType(Buffer.from("<svg></svg>")), null);
+});
+
+test("declared content types worth an upload URL", () => {
+  assert.equal(isAcceptedContentType("image/jpeg"), true);
+  assert.equal(isAcceptedContentType("IMAGE/HEIC"), true);
+  assert.equal(isAcceptedContentType("application/pdf; charset=binary"), true);
+  assert.equal(isAcceptedContentType("image/gif"), false);
+  assert.equal(isAcceptedContentType(null), false);
+});
+
+test("a clean image keeps its bytes", async () => {
+  const buffer = await photo();
+  const upload = await prepareReceiptUpload(buffer, "IMG_1.JPEG");
+  assert.equal(upload.buffer, buffer);
+  assert.equal(upload.normalized, false);
+  assert.equal(upload.contentType, "image/jpeg");
+  assert.equal(upload.fileName, "IMG_1.jpg");
+});
+
+test("metadata is stripped and the rotation applied", async () => {
+  const buffer = await sharp(await photo())
+    .withMetadata({
+      orientation: 6,
+      exif: { IFD0: { Make: "Phone" }, IFD3: { GPSLatitudeRef: "N", GPSLatitude: "33/1 35/1 0/1" } },
+    })
+    .jpeg()
+    .toBuffer();
+  assert.ok((await sharp(buffer).metadata()).exif);
+
+  const upload = await prepareReceiptUpload(buffer, "ticket.jpg");
+  const metadata = await sharp(upload.buffer).metadata();
+  assert.equal(upload.normalized, true);
+  assert.equal(metadata.exif, undefined);
+  assert.equal(metadata.orientation, undefined);
+  assert.deepEqual([metadata.width, metadata.height], [40, 60]);
+});
+
+test("large photos are downscaled", async () => {
+  process.env.RECEIPT_MAX_IMAGE_SIDE = "50";
+  try {
+    const upload = await prepareReceiptUpload(await photo({ width: 100, height: 80, format: "png" }));
+    const metadata = await sharp(upload.buffer).metadata();
+    assert.equal(upload.normalized, true);
+    assert.equal(upload.contentType, "image/png");
+    assert.deepEqual([metadata.width, metadata.height], [50, 40]);
+  } finally {
+    delete process.env.RECEIPT_MAX_IMAGE_SIDE;
+  }
+});
+
+test("PDFs are kept as sent", async () => {
+  const buffer = Buffer.from("%PDF-1.7\n1 0 obj\n<<>>\nendobj\n");
+  const upload = await prepareReceiptUpload(buffer, "ticket");
+  assert.equal(upload.buffer, buffer);
+  assert.equal(upload.fileName, "ticket.pdf");
+});
+
+test("refused files", async () => {
+  assert.equal(await rejection(prepareReceiptUpload(Buffer.alloc(0))), "FILE_EMPTY");
+  assert.equal(await rejection(prepareReceiptUpload(Buffer.from("GIF89a......"))), "UNSUPPORTED_FILE_TYPE");
+
+  const broken = Buffer.concat([Buffer.from([0xff, 0xd8, 0xff, 0xe0]), Buffer.alloc(40)]);
+  assert.equal(await rejection(prepareReceiptUpload(broken)), "INVALID_IMAGE");
+});
+
+test("a HEIC photo that can't be decoded is refused, not stored with its metadata", async () => {
+  assert.equal(await rejection(prepareReceiptUpload(heicHeader(), "IMG_1.HEIC")), "HEIC_NOT_SUPPORTED");
+});
+
+test("size limit", async () => {
+  process.env.RECEIPT_MAX_UPLOAD_MB = "0.001";
+  try {
+    assert.equal(getMaxUploadBytes(), 1049);
+    const buffer = Buffer.concat([await photo(), Buffer.alloc(2000)]);
+    assert.equal(await rejection(prepareReceiptUpload(buffer)), "FILE_TOO_LARGE");
+  } finally {
+    delete process.env.RECEIPT_MAX_UPLOAD_MB;
+  }
+  assert.equal(getMaxUploadBytes(), 10 * 1024 * 1024);
+});
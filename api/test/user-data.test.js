@@ -0,0 +1,95 @@
+// api/test/user-data.test.js
+// Personal data requests: the export is one archive in Blob Storage, photos
+// included, and deletion refuses to start without the pseudonym secret.
+const test = require("node:test");
+const assert = require("node:assert/strict");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const crypto = require("crypto");
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "user-data-"));
+Object.assign(process.env, {
+  DATA_BACKEND: "memory",
+  RECEIPTS_STORAGE_LOCAL_DIR: path.join(tmpDir, "blobs"),
+});
+delete process.env.PRIVACY_PSEUDONYM_SECRET;
+
+const db = require("../src/data/db");
+const { uploadReceiptImage, listUserBlobs, readReceiptImage } = require("../src/data/blob-storage");
+const { exportUserData, deleteUserData } = require("../src/services/user-data");
+const { pseudonymFor } = require("../src/data/privacy");
+
+const log = () => {};
+
+function newUserId() {
+  return `user-${crypto.randomUUID()}`;
+}
+
+// A customer with one receipt photo
+async function customerWithPhoto(photo) {
+  const userId = newUserId();
+  const { blobName } = await uploadReceiptImage(userId, "ticket.jpg", "image/jpeg", photo);
+  await db.createReceipt(userId, null, 85.5, 8, { blobName });
+  return userId;
+}
+
+test.after(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+test("the export is one archive in storage with the photos inside", async () => {
+  const photo = crypto.randomBytes(512 * 1024);
+  const userId = await customerWithPhoto(photo);
+
+  const first = await exportUserData(userId, { log });
+  const { url, summary } = await exportUserData(userId, { log });
+
+  assert.equal(summary.receipts, 1);
+  assert.equal(summary.images, 1);
+  const blobName = new URL(url, "http://localhost").searchParams.get("blobName");
+  assert.ok(blobName.startsWith(`exports/${userId}/`));
+  const archive = (await readReceiptImage(blobName)).buffer;
+  assert.ok(archive.includes(Buffer.from("photos/")));
+  assert.ok(archive.includes(photo));
+  assert.ok(!archive.includes(Buffer.from("images.json")));
+
+  // only the latest export is kept
+  const firstBlobName = new URL(first.url, "http://localhost").searchParams.get("blobName");
+  assert.equal(await readReceiptImage(firstBlobName), null);
+});
+
+test("without PRIVACY_PSEUDONYM_SECRET, deletion refuses before touching anything", async () => {
+  const userId = await customerWithPhoto(crypto.randomBytes(1024));
+
+  await assert.rejects(
+    () => deleteUserData(userId, { log }),
+    (err) => err.code === "PSEUDONYM_SECRET_MISSING"
+  );
+
+  assert.equal((await listUserBlobs(userId)).length, 1);
+  assert.equal((await db.listReceiptsForUser(userId)).length, 1);
+});
+
+test("deletion moves the receipts to a stable pseudonym and voids unused rewards", async () => {
+  process.env.PRIVACY_PSEUDONYM_SECRET = "test-secret";
+  try {
+    const userId = await customerWithPhoto(crypto.randomBytes(1024));
+    await db.addPoints(userId, 40, { kind: "EARN" });
+    const { reward } = await db.createReward(userId, "Sundae", 40);
+
+    const summary = await deleteUserData(userId, { log });
+
+    // user document + EARN and BURN ledger entries
+    assert.deepEqual(summary, { images: 1, receipts: 1, rewards: 1, userDocuments: 3 });
+    const pseudonymId = pseudonymFor(userId);
+    assert.equal(pseudonymId, pseudonymFor(userId));
+    assert.equal((await db.listReceiptsForUser(pseudonymId)).length, 1);
+    assert.equal((await listUserBlobs(userId)).length, 0);
+
+    const scan = await db.redeemReward(reward.id);
+    assert.equal(scan.voided, true);
+  } finally {
+    delete process.env.PRIVACY_PSEUDONYM_SECRET;
+  }
+});
@@ -1,9 +1,21 @@
 import { useEffect, useRef, useState, type ChangeEvent } from "react";
 import { QRCodeCanvas } from "qrcode.react";
 
+interface ExpiringBatch {
+  points: number;
+  expiresAt: string;
+}
+
+interface ExpiringSoon {
+  days: number;
+  points: number;
+  batches: ExpiringBatch[];
+}
+
 interface BalanceResponse {
   userId: string;
   points: number;
+  expiringSoon?: ExpiringSoon;
 }
 
 interface RewardResponse {
@@ -28,27 +40,68 @@ interface RewardHistoryItem {
 interface ReceiptReason {
   code: string;
   message: string;
+  // Paramètres de la règle (ex. maxDays pour RECEIPT_TOO_OLD)
+  params?: Record<string, number | string>;
 }
 
-interface UploadReceiptSuccessResponse {
-  userId: string;
-  amount: number;
-  pointsEarned: number;
-  newBalance: number;
+// PENDING_REVIEW : ticket incertain, vérifié par l'équipe avant d'être crédité
+type ReceiptStatus =
+  | "PENDING"
+  | "ACCEPTED"
+  | "REJECTED"
+  | "FAILED"
+  | "PENDING_REVIEW";
+
+// Réponse 202 de l'envoi : le ticket est analysé en arrière-plan
+interface UploadReceiptSubmittedResponse {
   receiptId: string;
-  receiptBlobUrl: string;
-  transactionDate?: string | null;
-  rawDateText?: string | null;
-  merchantName?: string | null;
+  status: ReceiptStatus;
 }
 
 interface UploadReceiptErrorResponse {
   error: string;
+  message?: string;
   reasons?: ReceiptReason[];
-  amount?: number;
+  amount?: number | null;
+  transactionDate?: string | null;
+  // Heure imprimée sur le ticket ("HH:MM")
+  transactionTime?: string | null;
+  rawDateText?: string | null;
+  merchantName?: string | null;
+}
+
+// Bonus produit appliqué au ticket (ex. "+20 Couronnes par menu Whopper")
+interface ReceiptBonus {
+  bonusId: string;
+  label: string;
+  points: number;
+  quantity: number;
+}
+
+interface ReceiptStatusResponse extends Partial<UploadReceiptErrorResponse> {
+  receiptId: string;
+  status: ReceiptStatus;
+  pointsEarned?: number;
+  bonusPoints?: number;
+  bonuses?: ReceiptBonus[];
+}
+
+// Entrée de l'historique des tickets (get-user-receipts)
+interface ReceiptHistoryItem {
+  receiptId: string;
+  status: ReceiptStatus;
+  createdAt?: string | null;
   transactionDate?: string | null;
+  transactionTime?: string | null;
   rawDateText?: string | null;
+  amount?: number | null;
   merchantName?: string | null;
+  pointsEarned: number;
+  bonusPoints: number;
+  reasons: ReceiptReason[];
+  thumbnailUrl?: string | null;
+  // Lien signé vers la photo, valable quelques minutes (rafraîchir la liste sinon)
+  imageUrl?: string | null;
 }
 
 type ClientClaim = {
@@ -68,17 +121,38 @@ interface AuthMeResponse {
   clientPrincipal?: ClientPrincipal | null;
 }
 
+// Les dates sont celles du Maroc (jours de l'API, tickets), quel que soit le
+// fuseau du téléphone
+const BUSINESS_TIME_ZONE = "Africa/Casablanca";
+
+const businessDateFormat = new Intl.DateTimeFormat("fr-FR", {
+  timeZone: BUSINESS_TIME_ZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+});
+
+function businessDateParts(d: Date): { day: number; month: number; year: number } {
+  const parts: Record<string, number> = {};
+  for (const part of businessDateFormat.formatToParts(d)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  return { day: parts.day, month: parts.month, year: parts.year };
+}
+
 function formatReceiptDateFromResponse(
   transactionDate?: string | null,
-  rawDateText?: string | null
+  rawDateText?: string | null,
+  transactionTime?: string | null
 ): string | null {
   if (transactionDate) {
     const d = new Date(transactionDate);
     if (!Number.isNaN(d.getTime())) {
-      const dd = String(d.getDate()).padStart(2, "0");
-      const mm = String(d.getMonth() + 1).padStart(2, "0");
-      const yyyy = d.getFullYear();
-      return `${dd}/${mm}/${yyyy}`;
+      const { day, month, year } = businessDateParts(d);
+      const dd = String(day).padStart(2, "0");
+      const mm = String(month).padStart(2, "0");
+      const date = `${dd}/${mm}/${year}`;
+      return transactionTime ? `${date} à ${transactionTime}` : date;
     }
   }
 
@@ -89,14 +163,58 @@ function formatReceiptDateFromResponse(
   return null;
 }
 
+const RECEIPT_STATUS_LABELS: Record<ReceiptStatus, string> = {
+  PENDING: "En cours d'analyse",
+  ACCEPTED: "Accepté",
+  REJECTED: "Refusé",
+  FAILED: "Analyse impossible",
+  PENDING_REVIEW: "En cours de vérification",
+};
+
+// Motif court pour l'historique ; les codes inconnus gardent le message de l'API
+function formatReceiptReason(reason: ReceiptReason): string {
+  switch (reason.code) {
+    case "DUPLICATE_RECEIPT":
+      return "Ticket déjà utilisé.";
+    case "NEAR_DUPLICATE_RECEIPT":
+      return "Ticket ressemblant à un ticket déjà envoyé.";
+    case "DAILY_LIMIT_REACHED":
+      return "Limite de tickets du jour atteinte.";
+    case "RECEIPT_TOO_OLD":
+      return `Ticket de plus de ${reason.params?.maxDays ?? 2} jours.`;
+    case "RECEIPT_IN_FUTURE":
+      return "Date du ticket dans le futur.";
+    case "MERCHANT_NOT_BURGER_KING":
+      return "Ce n'est pas un ticket Burger King.";
+    case "STORE_NOT_PARTICIPATING":
+      return "Restaurant non participant.";
+    case "DATE_NOT_DETECTED":
+      return "Date illisible.";
+    case "PHOTO_TOO_BLURRY":
+      return "Photo trop floue.";
+    case "INVALID_AMOUNT":
+      return "Montant illisible.";
+    case "MERCHANT_NOT_DETECTED":
+      return "Nom du restaurant illisible.";
+    case "LOW_CONFIDENCE_AMOUNT":
+    case "LOW_CONFIDENCE_DATE":
+    case "LOW_CONFIDENCE_MERCHANT":
+      return "Photo difficile à lire.";
+    case "PROCESSING_FAILED":
+    case "IMAGE_NOT_FOUND":
+      return "Le ticket n'a pas pu être analysé.";
+    default:
+      return reason.message || "Ticket refusé.";
+  }
+}
+
 function formatVerboseDate(iso?: string | null): string | null {
   if (!iso) return null;
   const d = new Date(iso);
   if (Number.isNaN(d.getTime())) return null;
 
-  const day = d.getDate();
-  const monthIndex = d.getMonth();
-  const year = d.getFullYear();
+  const { day, month, year } = businessDateParts(d);
+  const monthIndex = month - 1;
 
   const monthNames = [
     "janvier",
@@ -117,28 +235,89 @@ function formatVerboseDate(iso?: string | null): string | null {
   return `${day} ${monthName} ${year}`;
 }
 
-function fileToBase64(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
+type ReceiptUploadTicket = {
+  blobName: string;
+  uploadUrl: string;
+  method: string;
+  headers: Record<string, string>;
+  expiresAt: string;
+};
 
-    reader.onload = () => {
-      const result = reader.result;
-      if (typeof result === "string") {
-        const base64 = result.split(",")[1] || "";
-        resolve(base64);
-      } else {
-        reject(new Error("Unexpected FileReader result type"));
-      }
-    };
+// Envoi direct : l'image part vers le stockage avec une URL temporaire, puis
+// l'API traite le ticket. Renvoie null si l'envoi direct n'est pas possible
+// (stockage non configuré, CORS, réseau) pour passer par l'envoi classique.
+async function uploadReceiptDirect(file: File): Promise<Response | null> {
+  let ticketRes: Response;
+  try {
+    ticketRes = await fetch("/api/create-receipt-upload", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ fileName: file.name, contentType: file.type }),
+    });
+  } catch {
+    return null;
+  }
 
-    reader.onerror = () => {
-      reject(reader.error ?? new Error("Error reading file"));
-    };
+  // 415 : type de fichier refusé, inutile de réessayer par l'envoi classique
+  if (ticketRes.status === 401 || ticketRes.status === 415) return ticketRes;
+  if (!ticketRes.ok) return null;
+
+  const ticket = (await ticketRes.json()) as ReceiptUploadTicket;
+
+  try {
+    const putRes = await fetch(ticket.uploadUrl, {
+      method: ticket.method,
+      headers: ticket.headers,
+      body: file,
+    });
+    if (!putRes.ok) return null;
+  } catch {
+    return null;
+  }
 
-    reader.readAsDataURL(file);
+  return fetch("/api/process-receipt", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ blobName: ticket.blobName }),
   });
 }
 
+function uploadReceiptMultipart(file: File): Promise<Response> {
+  const form = new FormData();
+  form.append("file", file, file.name);
+  return fetch("/api/upload-receipt", { method: "POST", body: form });
+}
+
+const RECEIPT_STATUS_POLL_MS = 2000;
+const RECEIPT_STATUS_TIMEOUT_MS = 90000;
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Suit l'analyse du ticket ; null si elle n'est pas terminée avant le délai.
+async function waitForReceiptStatus(
+  receiptId: string
+): Promise<ReceiptStatusResponse | null> {
+  const deadline = Date.now() + RECEIPT_STATUS_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    await wait(RECEIPT_STATUS_POLL_MS);
+
+    const res = await fetch(
+      `/api/get-receipt-status?receiptId=${encodeURIComponent(receiptId)}`
+    );
+    if (!res.ok) continue;
+
+    const data = (await res.json()) as ReceiptStatusResponse;
+    if (data.status !== "PENDING") {
+      return data;
+    }
+  }
+
+  return null;
+}
+
 type RewardTier =
   | "CROWN_40"
   | "CROWN_80"
@@ -166,6 +345,7 @@ function App() {
   const [userLabel, setUserLabel] = useState<string | null>(null);
   const [loadingUser, setLoadingUser] = useState(true);
   const [points, setPoints] = useState<number | null>(null);
+  const [expiringSoon, setExpiringSoon] = useState<ExpiringSoon | null>(null);
   const [isLoadingBalance, setIsLoadingBalance] = useState(false);
 
   // tickets
@@ -173,6 +353,7 @@ function App() {
   const [selectedFileName, setSelectedFileName] = useState<string | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [isUploadingReceipt, setIsUploadingReceipt] = useState(false);
+  const [isAnalyzingReceipt, setIsAnalyzingReceipt] = useState(false);
   const [lastReceiptResult, setLastReceiptResult] = useState<string | null>(
     null
   );
@@ -189,6 +370,21 @@ function App() {
   const [rewardsError, setRewardsError] = useState<string | null>(null);
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
 
+  // historique des tickets (paginé)
+  const [receiptHistory, setReceiptHistory] = useState<ReceiptHistoryItem[]>([]);
+  const [receiptsContinuation, setReceiptsContinuation] = useState<
+    string | null
+  >(null);
+  const [isLoadingReceipts, setIsLoadingReceipts] = useState(false);
+  const [receiptsError, setReceiptsError] = useState<string | null>(null);
+  const [isReceiptsOpen, setIsReceiptsOpen] = useState(false);
+
+  // données personnelles (export / suppression du compte)
+  const [isExportingData, setIsExportingData] = useState(false);
+  const [isDeletingAccount, setIsDeletingAccount] = useState(false);
+  const [privacyError, setPrivacyError] = useState<string | null>(null);
+  const [privacyMessage, setPrivacyMessage] = useState<string | null>(null);
+
   // input galerie
   const galleryInputRef = useRef<HTMLInputElement | null>(null);
 
@@ -266,6 +462,7 @@ function App() {
       if (!res.ok) {
         if (res.status === 401) {
           setPoints(null);
+          setExpiringSoon(null);
           return;
         }
         throw new Error(`get-user-balance failed with status ${res.status}`);
@@ -273,9 +470,11 @@ function App() {
 
       const data = (await res.json()) as BalanceResponse;
       setPoints(data.points);
+      setExpiringSoon(data.expiringSoon ?? null);
     } catch (error) {
       console.error(error);
       setPoints(null);
+      setExpiringSoon(null);
     } finally {
       setIsLoadingBalance(false);
     }
@@ -307,10 +506,55 @@ function App() {
     }
   };
 
+  // continuationToken : page suivante, sinon on repart des tickets les plus récents
+  const loadReceiptHistory = async (continuationToken: string | null = null) => {
+    try {
+      setIsLoadingReceipts(true);
+      setReceiptsError(null);
+
+      const fetchPage = (token: string | null) => {
+        const params = new URLSearchParams({ limit: "10" });
+        if (token) {
+          params.set("continuationToken", token);
+        }
+        return fetch(`/api/get-user-receipts?${params.toString()}`);
+      };
+
+      let res = await fetchPage(continuationToken);
+      // Jeton expiré : on repart des tickets les plus récents
+      if (res.status === 400 && continuationToken) {
+        continuationToken = null;
+        res = await fetchPage(null);
+      }
+      if (!res.ok) {
+        if (res.status === 401) {
+          setReceiptHistory([]);
+          setReceiptsContinuation(null);
+          return;
+        }
+        throw new Error(`get-user-receipts failed with status ${res.status}`);
+      }
+
+      const data = (await res.json()) as {
+        receipts?: ReceiptHistoryItem[];
+        continuationToken?: string | null;
+      };
+      const page = data.receipts ?? [];
+      setReceiptHistory((prev) => (continuationToken ? [...prev, ...page] : page));
+      setReceiptsContinuation(data.continuationToken ?? null);
+    } catch (error) {
+      console.error(error);
+      setReceiptsError("Erreur lors du chargement de l'historique de tes tickets.");
+    } finally {
+      setIsLoadingReceipts(false);
+    }
+  };
+
   useEffect(() => {
     if (!loadingUser && userLabel) {
       void fetchBalance();
       void loadRewardHistory();
+      void loadReceiptHistory();
     }
   }, [loadingUser, userLabel]);
 
@@ -466,19 +710,22 @@ function App() {
     const reasons = data.reasons || [];
     const formattedDate = formatReceiptDateFromResponse(
       data.transactionDate ?? null,
-      data.rawDateText ?? null
+      data.rawDateText ?? null,
+      data.transactionTime ?? null
     );
 
     const messages: string[] = [];
 
-    if (reasons.some((r) => r.code === "RECEIPT_TOO_OLD")) {
+    const tooOld = reasons.find((r) => r.code === "RECEIPT_TOO_OLD");
+    if (tooOld) {
+      const maxDays = tooOld.params?.maxDays ?? 2;
       if (formattedDate) {
         messages.push(
-          `Le ticket daté du ${formattedDate} a plus de 2 jours et n'est pas valide pour gagner des Couronnes.`
+          `Le ticket daté du ${formattedDate} a plus de ${maxDays} jours et n'est pas valide pour gagner des Couronnes.`
         );
       } else {
         messages.push(
-          "Ce ticket a plus de 2 jours et n'est pas valide pour gagner des Couronnes."
+          `Ce ticket a plus de ${maxDays} jours et n'est pas valide pour gagner des Couronnes.`
         );
       }
     }
@@ -495,12 +742,38 @@ function App() {
       );
     }
 
+    if (reasons.some((r) => r.code === "STORE_NOT_PARTICIPATING")) {
+      messages.push(
+        "Ce restaurant Burger King ne participe pas au programme de fidélité. Les tickets des restaurants participants rapportent des Couronnes."
+      );
+    }
+
+    if (reasons.some((r) => r.code === "NEAR_DUPLICATE_RECEIPT")) {
+      messages.push(
+        "Ce ticket ressemble à un ticket déjà envoyé. Chaque ticket ne peut rapporter des Couronnes qu'une seule fois."
+      );
+    }
+
+    if (reasons.some((r) => r.code === "PHOTO_TOO_BLURRY")) {
+      messages.push(
+        "La photo est trop floue pour lire le ticket. Reprends la photo bien à plat, avec un bon éclairage, en cadrant le montant et la date."
+      );
+    }
+
     if (reasons.some((r) => r.code === "DATE_NOT_DETECTED")) {
       messages.push(
         "Nous n'arrivons pas à lire la date sur le ticket. Merci de prendre une photo où la date est clairement visible."
       );
     }
 
+    // Refus d'un ticket vérifié par l'équipe : le motif est saisi par le vérificateur
+    const afterReview = reasons.find((r) => r.code === "REJECTED_AFTER_REVIEW");
+    if (afterReview) {
+      messages.push(
+        `Ton ticket a été refusé après vérification : ${afterReview.message}`
+      );
+    }
+
     if (messages.length === 0) {
       messages.push(
         "Ton ticket n'a pas pu être accepté. Essaie avec une photo plus nette du ticket Burger King."
@@ -511,6 +784,52 @@ function App() {
     setLastReceiptResult(null);
   };
 
+  // Refus à l'envoi ou après l'analyse (mêmes codes d'erreur)
+  const showReceiptError = (data: UploadReceiptErrorResponse) => {
+    if (data.error === "RECEIPT_REJECTED") {
+      handleReceiptRejected(data);
+      return;
+    }
+
+    if (data.error === "DUPLICATE_RECEIPT") {
+      setLastReceiptError("Ce ticket a déjà été utilisé.");
+      return;
+    }
+
+    if (data.error === "DAILY_LIMIT_REACHED") {
+      setLastReceiptError(
+        "Tu as déjà atteint la limite de tickets récompensés pour aujourd'hui. Réessaie demain."
+      );
+      return;
+    }
+
+    if (data.error === "FILE_TOO_LARGE") {
+      setLastReceiptError("Ta photo est trop lourde. Réessaie avec une photo plus légère.");
+      return;
+    }
+
+    if (data.error === "UNSUPPORTED_FILE_TYPE") {
+      setLastReceiptError(
+        "Ce type de fichier n'est pas accepté. Envoie une photo (JPEG, PNG, HEIC) ou un PDF."
+      );
+      return;
+    }
+
+    if (data.error === "HEIC_NOT_SUPPORTED") {
+      setLastReceiptError(
+        "Cette photo HEIC n'a pas pu être lue. Prends le ticket avec l'appareil photo de l'appli ou envoie-le en JPEG."
+      );
+      return;
+    }
+
+    if (data.error === "FILE_EMPTY" || data.error === "INVALID_IMAGE") {
+      setLastReceiptError("Ta photo n'a pas pu être lue. Reprends une photo de ton ticket.");
+      return;
+    }
+
+    setLastReceiptError("Erreur lors de l'envoi du ticket.");
+  };
+
   // Upload d'un vrai ticket
   const uploadRealReceipt = async () => {
     if (!selectedFile) {
@@ -523,20 +842,12 @@ function App() {
       setLastReceiptError(null);
       setLastReceiptResult(null);
 
-      const base64 = await fileToBase64(selectedFile);
-
-      const res = await fetch("/api/upload-receipt", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          fileName: selectedFile.name,
-          contentType: selectedFile.type,
-          fileBase64: base64,
-        }),
-      });
+      const res =
+        (await uploadReceiptDirect(selectedFile)) ??
+        (await uploadReceiptMultipart(selectedFile));
 
       const data = (await res.json()) as
-        | UploadReceiptSuccessResponse
+        | UploadReceiptSubmittedResponse
         | UploadReceiptErrorResponse;
 
       if (!res.ok) {
@@ -549,37 +860,60 @@ function App() {
           return;
         }
 
-        if (errData.error === "RECEIPT_REJECTED") {
-          handleReceiptRejected(errData);
-          return;
-        }
+        showReceiptError(errData);
+        return;
+      }
 
-        if (errData.error === "DUPLICATE_RECEIPT") {
-          setLastReceiptError("Ce ticket a déjà été utilisé.");
-          return;
-        }
+      // Ticket reçu : on attend le résultat de l'analyse
+      const submitted = data as UploadReceiptSubmittedResponse;
+      setIsAnalyzingReceipt(true);
+      const result = await waitForReceiptStatus(submitted.receiptId);
 
-        if (errData.error === "DAILY_LIMIT_REACHED") {
-          setLastReceiptError(
-            "Tu as déjà atteint la limite de tickets récompensés pour aujourd'hui. Réessaie demain."
-          );
-          return;
-        }
+      if (!result) {
+        setLastReceiptResult(
+          "Ton ticket est bien reçu et en cours d'analyse. Tes Couronnes seront ajoutées dès qu'il sera validé."
+        );
+        return;
+      }
+
+      if (result.status === "FAILED") {
+        setLastReceiptError(
+          "Nous n'avons pas pu analyser ton ticket. Réessaie dans quelques minutes."
+        );
+        return;
+      }
+
+      if (result.status === "REJECTED") {
+        showReceiptError({ ...result, error: result.error ?? "RECEIPT_REJECTED" });
+        return;
+      }
 
-        setLastReceiptError("Erreur lors de l'envoi du ticket.");
+      if (result.status === "PENDING_REVIEW") {
+        const codes = (result.reasons ?? []).map((r) => r.code);
+        let why = "";
+        if (codes.includes("INVALID_AMOUNT")) {
+          why = " Nous n'avons pas pu lire le montant.";
+        } else if (codes.includes("MERCHANT_NOT_DETECTED")) {
+          why = " Nous n'avons pas pu lire le nom du restaurant.";
+        } else if (codes.some((c) => c.startsWith("LOW_CONFIDENCE_"))) {
+          why = " Certaines informations de la photo sont difficiles à lire.";
+        }
+        setLastReceiptResult(
+          `Ton ticket est en cours de vérification par notre équipe.${why} Tes Couronnes seront ajoutées dès qu'il sera validé.`
+        );
         return;
       }
 
-      const success = data as UploadReceiptSuccessResponse;
-      setPoints(success.newBalance);
+      void fetchBalance();
 
       const formattedDate = formatReceiptDateFromResponse(
-        success.transactionDate ?? null,
-        success.rawDateText ?? null
+        result.transactionDate ?? null,
+        result.rawDateText ?? null,
+        result.transactionTime ?? null
       );
 
-      const amountNum = success.amount;
-      const pointsEarned = success.pointsEarned;
+      const amountNum = result.amount ?? 0;
+      const pointsEarned = result.pointsEarned ?? 0;
 
       let msg: string;
       if (formattedDate) {
@@ -592,12 +926,21 @@ function App() {
         )} MAD.`;
       }
 
+      const bonuses = result.bonuses ?? [];
+      if (bonuses.length > 0) {
+        msg += ` Dont ${bonuses
+          .map((b) => `${b.points} Couronnes bonus (${b.label})`)
+          .join(", ")}.`;
+      }
+
       setLastReceiptResult(msg);
     } catch (error) {
       console.error(error);
       setLastReceiptError("Erreur réseau lors de l'envoi du ticket.");
     } finally {
       setIsUploadingReceipt(false);
+      setIsAnalyzingReceipt(false);
+      void loadReceiptHistory();
     }
   };
 
@@ -625,6 +968,10 @@ function App() {
           setRedeemError(
             "Merci de te connecter avant d'utiliser tes Couronnes."
           );
+        } else if (data.error === "CONCURRENCY_CONFLICT") {
+          setRedeemError(
+            "Ton solde est en cours de mise à jour. Réessaie dans un instant."
+          );
         } else {
           setRedeemError("Erreur lors de la création de la récompense.");
         }
@@ -635,6 +982,8 @@ function App() {
 
       setPoints(reward.newBalance);
       setLastReward(reward);
+      // Les Couronnes les plus anciennes sont utilisées en premier
+      void fetchBalance();
       void loadRewardHistory();
     } catch (err) {
       console.error(err);
@@ -644,6 +993,76 @@ function App() {
     }
   };
 
+  // Prépare une archive ZIP avec toutes les données du compte (photos
+  // comprises) puis la télécharge via le lien renvoyé par l'API
+  const downloadMyData = async () => {
+    try {
+      setIsExportingData(true);
+      setPrivacyError(null);
+      setPrivacyMessage(null);
+
+      const res = await fetch("/api/export-user-data", { method: "POST" });
+      if (!res.ok) {
+        throw new Error(`export-user-data failed with status ${res.status}`);
+      }
+
+      const data: { fileName: string; downloadUrl: string } = await res.json();
+      const link = document.createElement("a");
+      link.href = data.downloadUrl;
+      link.download = data.fileName;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+
+      setPrivacyMessage("Ton archive a été téléchargée.");
+    } catch (err) {
+      console.error(err);
+      setPrivacyError(
+        "Impossible de préparer l'export de tes données. Réessaie plus tard."
+      );
+    } finally {
+      setIsExportingData(false);
+    }
+  };
+
+  // Supprime définitivement le compte puis déconnecte l'utilisateur
+  const deleteMyAccount = async () => {
+    const confirmed = window.confirm(
+      "Supprimer ton compte BK Fidélité ? Tes Couronnes, tes récompenses non utilisées et les photos de tes tickets seront définitivement perdues."
+    );
+    if (!confirmed) return;
+
+    const typed = window.prompt('Pour confirmer, tape "SUPPRIMER" :');
+    if (typed === null) return;
+    if (typed.trim().toUpperCase() !== "SUPPRIMER") {
+      setPrivacyError("Suppression annulée : confirmation incorrecte.");
+      return;
+    }
+
+    try {
+      setIsDeletingAccount(true);
+      setPrivacyError(null);
+      setPrivacyMessage(null);
+
+      const res = await fetch("/api/delete-user-account", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ confirm: "DELETE_MY_ACCOUNT" }),
+      });
+      if (!res.ok) {
+        throw new Error(`delete-user-account failed with status ${res.status}`);
+      }
+
+      window.location.href = "/.auth/logout";
+    } catch (err) {
+      console.error(err);
+      setPrivacyError(
+        "La suppression de ton compte a échoué. Réessaie ou contacte le support."
+      );
+      setIsDeletingAccount(false);
+    }
+  };
+
   // -------------- RENDERING --------------
 
   // État de chargement de la session
@@ -1089,6 +1508,40 @@ function App() {
                   : "Connecte-toi pour voir ton solde."
                 : `${points} Couronnes`}
             </span>
+
+            {!isLoadingBalance &&
+              points !== null &&
+              expiringSoon &&
+              expiringSoon.points > 0 && (
+                <div
+                  style={{
+                    marginTop: "0.6rem",
+                    padding: "0.6rem 0.8rem",
+                    borderRadius: "0.6rem",
+                    background: "#FEF3C7",
+                    border: "1px solid #F59E0B",
+                    fontSize: "0.85rem",
+                    color: "#92400E",
+                  }}
+                >
+                  <p style={{ fontWeight: 600, marginBottom: "0.25rem" }}>
+                    ⏳ {expiringSoon.points} Couronnes expirent dans les{" "}
+                    {expiringSoon.days} prochains jours
+                  </p>
+                  {expiringSoon.batches.map((batch, index) => (
+                    <p
+                      key={`${batch.expiresAt}-${index}`}
+                      style={{ marginBottom: "0.1rem" }}
+                    >
+                      {batch.points} Couronnes le{" "}
+                      {formatVerboseDate(batch.expiresAt) ?? batch.expiresAt}
+                    </p>
+                  ))}
+                  <p style={{ marginTop: "0.25rem" }}>
+                    Utilise-les avant qu'elles ne soient perdues !
+                  </p>
+                </div>
+              )}
           </div>
 
           {/* Explication programme */}
@@ -1905,6 +2358,257 @@ function App() {
               </>
             )}
           </div>
+
+          {/* Mes tickets : historique des tickets envoyés (repliable, paginé) */}
+          <div
+            style={{
+              marginTop: "1.5rem",
+              paddingTop: "1rem",
+              borderTop: "1px dashed #F0D5AA",
+            }}
+          >
+            <div
+              style={{
+                display: "flex",
+                alignItems: "center",
+                justifyContent: "space-between",
+                gap: "0.75rem",
+                flexWrap: "wrap",
+              }}
+            >
+              <div>
+                <h3
+                  style={{
+                    fontSize: "1rem",
+                    marginBottom: "0.25rem",
+                    fontWeight: 400,
+                  }}
+                >
+                  Mes tickets
+                </h3>
+                <p
+                  style={{
+                    fontSize: "0.85rem",
+                    color: "#7C4A2D",
+                  }}
+                >
+                  Retrouve les tickets envoyés, les Couronnes gagnées et la
+                  raison d'un refus.
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => setIsReceiptsOpen((prev) => !prev)}
+                style={{
+                  padding: "0.4rem 0.9rem",
+                  borderRadius: "999px",
+                  border: "1px solid #E4C7A1",
+                  background: "#F5EBDC",
+                  fontSize: "0.8rem",
+                  cursor: "pointer",
+                }}
+              >
+                {isReceiptsOpen ? "Masquer mes tickets" : "Afficher mes tickets"}
+              </button>
+            </div>
+
+            {isReceiptsOpen && (
+              <>
+                <div
+                  style={{
+                    display: "flex",
+                    justifyContent: "flex-end",
+                    marginTop: "0.75rem",
+                    marginBottom: "0.5rem",
+                  }}
+                >
+                  <button
+                    type="button"
+                    onClick={() => void loadReceiptHistory()}
+                    disabled={isLoadingReceipts}
+                    style={{
+                      padding: "0.35rem 0.8rem",
+                      borderRadius: "999px",
+                      border: "1px solid #E4C7A1",
+                      background: "#F5EBDC",
+                      fontSize: "0.8rem",
+                      cursor: isLoadingReceipts ? "wait" : "pointer",
+                    }}
+                  >
+                    {isLoadingReceipts ? "Actualisation…" : "Rafraîchir mes tickets"}
+                  </button>
+                </div>
+
+                {receiptsError && (
+                  <p style={{ color: "#B91C1C", fontSize: "0.85rem" }}>
+                    {receiptsError}
+                  </p>
+                )}
+
+                {!isLoadingReceipts &&
+                  receiptHistory.length === 0 &&
+                  !receiptsError && (
+                    <p
+                      style={{
+                        fontSize: "0.85rem",
+                        color: "#7C4A2D",
+                      }}
+                    >
+                      Tu n'as pas encore envoyé de ticket.
+                    </p>
+                  )}
+
+                {receiptHistory.length > 0 && (
+                  <div
+                    style={{
+                      display: "flex",
+                      flexDirection: "column",
+                      gap: "0.75rem",
+                    }}
+                  >
+                    {receiptHistory.map((receipt) => {
+                      const receiptDate =
+                        formatReceiptDateFromResponse(
+                          receipt.transactionDate ?? null,
+                          receipt.rawDateText ?? null,
+                          receipt.transactionTime ?? null
+                        ) ?? formatVerboseDate(receipt.createdAt ?? null);
+                      const isAccepted = receipt.status === "ACCEPTED";
+
+                      return (
+                        <div
+                          key={receipt.receiptId}
+                          style={{
+                            display: "flex",
+                            gap: "0.75rem",
+                            alignItems: "flex-start",
+                            padding: "0.75rem 0.9rem",
+                            borderRadius: "0.75rem",
+                            background: "#FFF4D8",
+                            border: "1px solid #F0D5AA",
+                            flexWrap: "wrap",
+                          }}
+                        >
+                          {receipt.thumbnailUrl ? (
+                            <a
+                              href={receipt.imageUrl ?? receipt.thumbnailUrl}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              title="Voir la photo du ticket"
+                            >
+                              <img
+                                src={receipt.thumbnailUrl}
+                                alt="Ticket"
+                                loading="lazy"
+                                style={{
+                                  width: 64,
+                                  height: 80,
+                                  objectFit: "cover",
+                                  borderRadius: "0.5rem",
+                                  border: "1px solid #F0D5AA",
+                                }}
+                              />
+                            </a>
+                          ) : (
+                            <div
+                              style={{
+                                width: 64,
+                                height: 80,
+                                borderRadius: "0.5rem",
+                                border: "1px dashed #E4C7A1",
+                                display: "flex",
+                                alignItems: "center",
+                                justifyContent: "center",
+                                fontSize: "1.5rem",
+                              }}
+                            >
+                              🧾
+                            </div>
+                          )}
+                          <div
+                            style={{
+                              fontSize: "0.85rem",
+                              color: "#502314",
+                              flex: 1,
+                              minWidth: 0,
+                            }}
+                          >
+                            <p>
+                              <strong>
+                                {receipt.merchantName ?? "Ticket"}
+                              </strong>
+                              {receiptDate && <> – {receiptDate}</>}
+                            </p>
+                            {typeof receipt.amount === "number" && (
+                              <p style={{ marginTop: "0.25rem" }}>
+                                Montant : {receipt.amount.toFixed(2)} MAD
+                              </p>
+                            )}
+                            <p style={{ marginTop: "0.25rem" }}>
+                              Statut :{" "}
+                              <strong
+                                style={{
+                                  color: isAccepted
+                                    ? "#15803D"
+                                    : receipt.status === "REJECTED" ||
+                                        receipt.status === "FAILED"
+                                      ? "#B91C1C"
+                                      : "#7C4A2D",
+                                }}
+                              >
+                                {RECEIPT_STATUS_LABELS[receipt.status] ??
+                                  receipt.status}
+                              </strong>
+                              {isAccepted && (
+                                <>
+                                  {" "}
+                                  – {receipt.pointsEarned} Couronnes
+                                  {receipt.bonusPoints > 0 &&
+                                    ` (dont ${receipt.bonusPoints} bonus)`}
+                                </>
+                              )}
+                            </p>
+                            {!isAccepted && receipt.reasons.length > 0 && (
+                              <p
+                                style={{
+                                  marginTop: "0.25rem",
+                                  color: "#7C4A2D",
+                                  fontSize: "0.8rem",
+                                }}
+                              >
+                                {receipt.reasons
+                                  .map((r) => formatReceiptReason(r))
+                                  .join(" ")}
+                              </p>
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })}
+
+                    {receiptsContinuation && (
+                      <button
+                        type="button"
+                        onClick={() => void loadReceiptHistory(receiptsContinuation)}
+                        disabled={isLoadingReceipts}
+                        style={{
+                          alignSelf: "center",
+                          padding: "0.35rem 0.8rem",
+                          borderRadius: "999px",
+                          border: "1px solid #E4C7A1",
+                          background: "#F5EBDC",
+                          fontSize: "0.8rem",
+                          cursor: isLoadingReceipts ? "wait" : "pointer",
+                        }}
+                      >
+                        {isLoadingReceipts ? "Chargement…" : "Voir plus de tickets"}
+                      </button>
+                    )}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
         </section>
 
         {/* Section – Upload ticket */}
@@ -2192,7 +2896,11 @@ function App() {
                 : "none",
             }}
           >
-            {isUploadingReceipt ? "Envoi en cours…" : "Envoyer ce ticket"}
+            {isAnalyzingReceipt
+              ? "Analyse du ticket…"
+              : isUploadingReceipt
+                ? "Envoi en cours…"
+                : "Envoyer ce ticket"}
           </button>
 
           {lastReceiptError && (
@@ -2207,6 +2915,83 @@ function App() {
             </p>
           )}
         </section>
+
+        {/* Section – Données personnelles */}
+        <section
+          style={{
+            background: "#FFF9ED",
+            padding: "1.5rem",
+            borderRadius: "0.75rem",
+            boxShadow: "0 4px 10px rgba(0, 0, 0, 0.04)",
+            border: "1px solid #F0D5AA",
+            marginTop: "1.5rem",
+          }}
+        >
+          <h2
+            style={{
+              fontSize: "1.25rem",
+              marginBottom: "0.75rem",
+              fontWeight: 400,
+            }}
+          >
+            Paramètres – mes données personnelles
+          </h2>
+          <p style={{ marginBottom: "0.75rem", color: "#7C4A2D" }}>
+            Conformément à la loi 09-08, tu peux récupérer une copie de tes
+            données (profil, Couronnes, tickets, récompenses et photos) ou
+            supprimer ton compte.
+          </p>
+
+          <div style={{ display: "flex", flexWrap: "wrap", gap: "0.75rem" }}>
+            <button
+              type="button"
+              onClick={downloadMyData}
+              disabled={isExportingData || isDeletingAccount}
+              style={{
+                padding: "0.5rem 1rem",
+                borderRadius: "0.5rem",
+                border: "none",
+                cursor: isExportingData ? "wait" : "pointer",
+                fontWeight: 600,
+                background: BK_BLUE,
+                color: "#FFFFFF",
+              }}
+            >
+              {isExportingData
+                ? "Préparation de l'archive…"
+                : "Télécharger mes données"}
+            </button>
+
+            <button
+              type="button"
+              onClick={deleteMyAccount}
+              disabled={isExportingData || isDeletingAccount}
+              style={{
+                padding: "0.5rem 1rem",
+                borderRadius: "0.5rem",
+                border: "1px solid #B91C1C",
+                cursor: isDeletingAccount ? "wait" : "pointer",
+                fontWeight: 600,
+                background: "#FFFFFF",
+                color: "#B91C1C",
+              }}
+            >
+              {isDeletingAccount ? "Suppression en cours…" : "Supprimer mon compte"}
+            </button>
+          </div>
+
+          {privacyError && (
+            <p style={{ marginTop: "0.5rem", color: "#B91C1C" }}>
+              {privacyError}
+            </p>
+          )}
+
+          {privacyMessage && (
+            <p style={{ marginTop: "0.5rem", color: "#166534" }}>
+              {privacyMessage}
+            </p>
+          )}
+        </section>
       </main>
     </div>
   );